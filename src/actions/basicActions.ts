@@ -6,8 +6,9 @@
  * Other operations will be expanded in later iterations
  */
 
-import { ActionResult } from '../types';
+import { ActionResult, Expression, ExpressionContext } from '../types';
 import { setPath, deletePath, pathExists, resolvePath } from '../parser/pathResolver';
+import { evaluateExpression, ExpressionError } from '../evaluator/expressionEvaluator';
 
 /**
  * SET - Set a field value (creates or overwrites)
@@ -74,6 +75,93 @@ export function executeSet(
 	}
 }
 
+/**
+ * SET with a computed value: SET path = expression
+ *
+ * Behavior:
+ * - Evaluates the expression against the current data, then sets like SET
+ * - Leaves the field unchanged with a warning if the data does not fit the
+ *   expression (missing source field, wrong type, value that is not a date)
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Dot notation path to field
+ * @param expression - Parsed expression
+ * @param context - Note graph and link resolver for rollups (SUM(backlinks.estimate))
+ * @returns ActionResult with success/modified/changes/warning
+ *
+ * @example
+ * const data = { words: 1250 };
+ * executeSetExpression(data, "word_ratio", <words / 100>);
+ * // data is now: { words: 1250, word_ratio: 12.5 }
+ */
+export function executeSetExpression(
+	data: any,
+	path: string,
+	expression: Expression,
+	context?: ExpressionContext
+): ActionResult {
+	const computed = computeValue('SET', path, expression, data, context);
+	return 'value' in computed ? executeSet(data, path, computed.value) : computed.result;
+}
+
+/**
+ * ADD with a computed value: ADD path = expression
+ *
+ * Like ADD, the expression is only evaluated if the field doesn't exist yet.
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Dot notation path to field
+ * @param expression - Parsed expression
+ * @param context - Note graph and link resolver for rollups
+ * @returns ActionResult with success/modified/changes/warning
+ */
+export function executeAddExpression(
+	data: any,
+	path: string,
+	expression: Expression,
+	context?: ExpressionContext
+): ActionResult {
+	if (pathExists(data, path)) {
+		return executeAdd(data, path, undefined);
+	}
+	const computed = computeValue('ADD', path, expression, data, context);
+	return 'value' in computed ? executeAdd(data, path, computed.value) : computed.result;
+}
+
+/**
+ * Evaluate an action expression, turning data problems into a warning result
+ */
+function computeValue(
+	operation: string,
+	path: string,
+	expression: Expression,
+	data: any,
+	context?: ExpressionContext
+): { value: any } | { result: ActionResult } {
+	try {
+		return { value: evaluateExpression(expression, data, context) };
+	} catch (error) {
+		if (error instanceof ExpressionError) {
+			return {
+				result: {
+					success: true,
+					modified: false,
+					changes: [],
+					warning: `${operation} ${path} skipped: ${error.message}`,
+				},
+			};
+		}
+		return {
+			result: {
+				success: false,
+				modified: false,
+				changes: [],
+				error: error instanceof Error ? error.message : `Unknown error in ${operation} operation`,
+			},
+		};
+	}
+}
+
 /**
  * ADD - Add a field only if it doesn't exist (safe add)
  *
@@ -329,7 +417,7 @@ export function executeDecrement(
  * @param value - Value to format
  * @returns Formatted string representation
  */
-function formatValue(value: any): string {
+export function formatValue(value: any): string {
 	if (value === null) {
 		return 'null';
 	}
@@ -0,0 +1,157 @@
+/**
+ * Type conversion action: CONVERT
+ *
+ * Fixes values imported with the wrong YAML type (priority: "3", done: "true",
+ * tags: work). Pairs with the :type checks of the condition language:
+ * `priority :string` → `CONVERT priority TO number`.
+ *
+ * Strict mode only converts values with one obvious meaning; lenient mode also
+ * accepts common spellings ("3 items", "yes", "15.01.2024", "a, b"). Fields
+ * that are missing or null are skipped silently; values that cannot be
+ * converted are left unchanged with a warning.
+ */
+
+import { DateTime } from 'luxon';
+import { ActionResult, ConvertTarget } from '../types';
+import { resolvePath, setPath } from '../parser/pathResolver';
+import { parseDate, formatParsedDate } from '../utils/dates';
+import { formatValue } from './basicActions';
+
+type ConvertMode = 'strict' | 'lenient';
+
+/** Marker for values that cannot be converted */
+const FAILED = Symbol('failed');
+
+type Converter = (value: any, mode: ConvertMode) => any;
+
+const STRICT_NUMBER = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i;
+const LENIENT_NUMBER = /^[+-]?\d+(?:[.,]\d+)?/;
+
+const TRUE_WORDS = ['yes', 'y', 'on', '1'];
+const FALSE_WORDS = ['no', 'n', 'off', '0'];
+
+/** Day-first and written-out formats accepted in lenient mode (no m/d/y guessing) */
+const LENIENT_DATE_FORMATS = ['yyyy/M/d', 'd.M.yyyy', 'd MMM yyyy', 'd MMMM yyyy', 'MMM d, yyyy', 'MMMM d, yyyy'];
+
+const CONVERTERS: Record<ConvertTarget, Converter> = {
+	number: (value, mode) => {
+		if (typeof value === 'number') return value;
+		if (typeof value === 'string') {
+			const text = value.trim();
+			if (STRICT_NUMBER.test(text)) return Number(text);
+			if (mode === 'lenient') {
+				const match = text.match(LENIENT_NUMBER);
+				if (match) return Number(match[0].replace(',', '.'));
+			}
+		}
+		if (typeof value === 'boolean' && mode === 'lenient') return value ? 1 : 0;
+		return FAILED;
+	},
+
+	boolean: (value, mode) => {
+		if (typeof value === 'boolean') return value;
+		if (typeof value === 'string') {
+			const text = value.trim().toLowerCase();
+			if (text === 'true') return true;
+			if (text === 'false') return false;
+			if (mode === 'lenient' && TRUE_WORDS.includes(text)) return true;
+			if (mode === 'lenient' && FALSE_WORDS.includes(text)) return false;
+		}
+		if (typeof value === 'number' && mode === 'lenient' && (value === 0 || value === 1)) return value === 1;
+		return FAILED;
+	},
+
+	string: (value, mode) => {
+		if (typeof value === 'string') return value;
+		if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+		if (Array.isArray(value) && mode === 'lenient' && value.every(isScalar)) return value.join(', ');
+		return FAILED;
+	},
+
+	array: (value, mode) => {
+		if (Array.isArray(value)) return value;
+		if (typeof value === 'string' && mode === 'lenient') {
+			return value.split(',').map(part => part.trim()).filter(part => part.length > 0);
+		}
+		if (isScalar(value)) return [value];
+		return FAILED;
+	},
+
+	date: (value, mode) => {
+		const parsed = parseDate(value);
+		if (parsed) return formatParsedDate(parsed, value);
+		if (typeof value === 'string' && mode === 'lenient') {
+			for (const format of LENIENT_DATE_FORMATS) {
+				const date = DateTime.fromFormat(value.trim(), format, { locale: 'en' });
+				if (date.isValid) return date.toISODate();
+			}
+		}
+		return FAILED;
+	},
+};
+
+/**
+ * CONVERT - Change the YAML type of a value
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Dot notation path to field
+ * @param to - Target type: number, boolean, string, array or date
+ * @param mode - strict (default) or lenient
+ * @returns ActionResult with success/modified/changes/warning
+ *
+ * @example
+ * const data = { priority: "3", tags: "work" };
+ * executeConvert(data, "priority", "number");
+ * executeConvert(data, "tags", "array");
+ * // data is now: { priority: 3, tags: ["work"] }
+ */
+export function executeConvert(
+	data: any,
+	path: string,
+	to: ConvertTarget,
+	mode: ConvertMode = 'strict'
+): ActionResult {
+	try {
+		const current = resolvePath(data, path);
+		if (current === undefined || current === null) {
+			return { success: true, modified: false, changes: [] };
+		}
+
+		const newValue = CONVERTERS[to](current, mode);
+		if (newValue === FAILED) {
+			// Point at lenient mode when it would have worked
+			const hint = mode === 'strict' && CONVERTERS[to](current, 'lenient') !== FAILED
+				? ' (CONVERT ... LENIENT would accept it)'
+				: '';
+			return {
+				success: true,
+				modified: false,
+				changes: [],
+				warning: `Cannot convert '${path}' to ${to}: ${formatValue(current)}${hint}`,
+			};
+		}
+
+		if (newValue === current) {
+			return { success: true, modified: false, changes: [] };
+		}
+
+		setPath(data, path, newValue);
+
+		return {
+			success: true,
+			modified: true,
+			changes: [`CONVERT ${path} TO ${to}: ${formatValue(current)} → ${formatValue(newValue)}`],
+		};
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : 'Unknown error in CONVERT operation',
+		};
+	}
+}
+
+function isScalar(value: any): boolean {
+	return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
@@ -0,0 +1,137 @@
+/**
+ * Date actions: SHIFT, FORMAT
+ *
+ * Dates are parsed leniently (2024-1-5, 2024-01-15T10:30+02:00, ...) with
+ * luxon. Fields that are missing or null are skipped silently; values that are
+ * not dates are left unchanged with a warning so the user can find them.
+ */
+
+import { ActionResult } from '../types';
+import { resolvePath, setPath } from '../parser/pathResolver';
+import { parseDate, parseDuration, formatDateLike } from '../utils/dates';
+
+/**
+ * SHIFT - Move a date by a duration
+ *
+ * The result keeps the shape of the original value (date-only stays
+ * date-only, an offset is kept).
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Dot notation path to the date field
+ * @param duration - Signed duration: 7d, -2w, 1m, 1y, 3h
+ * @returns ActionResult with success/modified/changes/warning
+ *
+ * @example
+ * const data = { due: "2024-01-31" };
+ * executeShift(data, "due", "1m");
+ * // data is now: { due: "2024-02-29" }
+ * // Returns: { success: true, modified: true, changes: ["SHIFT due by 1m: 2024-01-31 → 2024-02-29"] }
+ */
+export function executeShift(
+	data: any,
+	path: string,
+	duration: string
+): ActionResult {
+	try {
+		const shift = parseDuration(duration);
+		if (!shift) {
+			return {
+				success: false,
+				modified: false,
+				changes: [],
+				error: `Invalid duration: ${duration}`,
+			};
+		}
+
+		const current = resolvePath(data, path);
+		if (current === undefined || current === null) {
+			return { success: true, modified: false, changes: [] };
+		}
+
+		const parsed = parseDate(current);
+		if (!parsed) {
+			return notADate(path, current);
+		}
+
+		const newValue = formatDateLike(parsed.date.plus(shift), current);
+		setPath(data, path, newValue);
+
+		return {
+			success: true,
+			modified: true,
+			changes: [`SHIFT ${path} by ${duration}: ${String(current)} → ${newValue}`],
+		};
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : 'Unknown error in SHIFT operation',
+		};
+	}
+}
+
+/**
+ * FORMAT - Rewrite a date in a luxon format (normalizes mixed date formats)
+ *
+ * Values already in the format are left as they are (not modified).
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Dot notation path to the date field
+ * @param format - luxon format tokens, e.g. "yyyy-MM-dd" or "dd.MM.yyyy HH:mm"
+ * @returns ActionResult with success/modified/changes/warning
+ *
+ * @example
+ * const data = { date: "2024-1-5" };
+ * executeFormatDate(data, "date", "yyyy-MM-dd");
+ * // data is now: { date: "2024-01-05" }
+ */
+export function executeFormatDate(
+	data: any,
+	path: string,
+	format: string
+): ActionResult {
+	try {
+		const current = resolvePath(data, path);
+		if (current === undefined || current === null) {
+			return { success: true, modified: false, changes: [] };
+		}
+
+		const parsed = parseDate(current);
+		if (!parsed) {
+			return notADate(path, current);
+		}
+
+		const newValue = parsed.date.toFormat(format);
+		if (newValue === current) {
+			return { success: true, modified: false, changes: [] };
+		}
+
+		setPath(data, path, newValue);
+
+		return {
+			success: true,
+			modified: true,
+			changes: [`FORMAT ${path}: ${String(current)} → ${newValue}`],
+		};
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : 'Unknown error in FORMAT operation',
+		};
+	}
+}
+
+/**
+ * Warning result for a value that cannot be parsed as a date
+ */
+function notADate(path: string, value: any): ActionResult {
+	return {
+		success: true,
+		modified: false,
+		changes: [],
+		warning: `Field '${path}' is not a date: ${JSON.stringify(value)}`,
+	};
+}
@@ -0,0 +1,426 @@
+/**
+ * Key actions: RENAME KEYS, NORMALIZE KEYS, DELETE KEYS, KEEP ONLY, REORDER KEYS, SORT KEYS
+ *
+ * Work on the keys of one object: the frontmatter itself (top level) or a
+ * nested object (FOR meta ...). For an array target, every object in it is
+ * processed. Renamed keys keep their position, so the written YAML only changes
+ * the renamed keys; a rename that would overwrite another key is skipped with
+ * a warning instead. The YAML writer follows the key order of the data, moving
+ * each key together with the comments above it.
+ */
+
+import { ActionResult, KeyCase } from '../types';
+import { resolvePath, joinPath } from '../parser/pathResolver';
+import { compileSafeRegex, runSafeRegex } from '../utils/regex';
+import { toKeyCase } from '../utils/strings';
+import { DANGEROUS_OBJECT_KEYS } from '../constants';
+import { formatValue } from './basicActions';
+
+/**
+ * RENAME KEYS - Rename every key matching a regex or glob
+ *
+ * Regex patterns use JavaScript replace semantics on the key; glob patterns
+ * ("date-*") must match the whole key and each * or ? is a group ($1, $2...).
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Path to the object ('' for the top level)
+ * @param pattern - "/pattern/flags" if isRegex, otherwise a glob
+ * @param replacement - New key, may reference groups ($1)
+ * @param isRegex - Whether pattern is a regex literal
+ * @returns ActionResult with success/modified/changes/warning
+ *
+ * @example
+ * const data = { "date-created": "2024-01-15", title: "Note" };
+ * executeRenameKeys(data, "", "/^date-(.*)$/", "$1_date", true);
+ * // data is now: { created_date: "2024-01-15", title: "Note" }
+ */
+export function executeRenameKeys(
+	data: any,
+	path: string,
+	pattern: string,
+	replacement: string,
+	isRegex: boolean = false
+): ActionResult {
+	try {
+		const regex = compileKeyPattern(pattern, isRegex);
+		return renameKeys(data, path, 'RENAME KEYS', key =>
+			runSafeRegex(regex, r => key.replace(r, replacement))
+		);
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : 'Unknown error in RENAME KEYS operation',
+		};
+	}
+}
+
+/**
+ * NORMALIZE KEYS - Write all keys in one case style
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Path to the object ('' for the top level)
+ * @param style - snake_case, camelCase or kebab-case
+ * @returns ActionResult with success/modified/changes/warning
+ *
+ * @example
+ * const data = { Created: "2024-01-15", "date-modified": "2024-02-01" };
+ * executeNormalizeKeys(data, "", "snake_case");
+ * // data is now: { created: "2024-01-15", date_modified: "2024-02-01" }
+ */
+export function executeNormalizeKeys(
+	data: any,
+	path: string,
+	style: KeyCase
+): ActionResult {
+	return renameKeys(data, path, 'NORMALIZE KEYS', key => toKeyCase(key, style) || key);
+}
+
+/**
+ * DELETE KEYS - Delete every key matching a regex or glob
+ *
+ * Each deleted key is listed in the changes, so the preview shows them all.
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Path to the object ('' for the top level)
+ * @param pattern - "/pattern/flags" if isRegex, otherwise a glob ("kanban-*")
+ * @param isRegex - Whether pattern is a regex literal
+ * @returns ActionResult with success/modified/changes
+ *
+ * @example
+ * const data = { title: "Note", "kanban-plugin": "basic", "kanban-settings": {} };
+ * executeDeleteKeys(data, "", "kanban-*");
+ * // data is now: { title: "Note" }
+ * // Returns changes: ["DELETE kanban-plugin", "DELETE kanban-settings"]
+ */
+export function executeDeleteKeys(
+	data: any,
+	path: string,
+	pattern: string,
+	isRegex: boolean = false
+): ActionResult {
+	try {
+		const regex = compileKeyPattern(pattern, isRegex);
+		return deleteKeys(data, path, 'DELETE KEYS', key =>
+			runSafeRegex(regex, r => {
+				r.lastIndex = 0; // g and y flags keep state between test() calls
+				return r.test(key);
+			})
+		);
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : 'Unknown error in DELETE KEYS operation',
+		};
+	}
+}
+
+/**
+ * KEEP ONLY - Delete every key that is not listed
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Path to the object ('' for the top level)
+ * @param keys - Keys to keep
+ * @returns ActionResult with success/modified/changes
+ *
+ * @example
+ * const data = { title: "Note", date: "2024-01-15", cssclass: "wide", tags: [] };
+ * executeKeepOnly(data, "", ["title", "date", "tags"]);
+ * // data is now: { title: "Note", date: "2024-01-15", tags: [] }
+ */
+export function executeKeepOnly(
+	data: any,
+	path: string,
+	keys: string[]
+): ActionResult {
+	return deleteKeys(data, path, 'KEEP ONLY', key => !keys.includes(key));
+}
+
+/**
+ * REORDER KEYS - Put keys in a given order
+ *
+ * '*' stands for all keys not listed, in their current order; without it they
+ * follow the listed keys. Listed keys that do not exist are ignored.
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Path to the object ('' for the top level)
+ * @param order - Key names and at most one '*'
+ * @returns ActionResult with success/modified/changes
+ *
+ * @example
+ * const data = { tags: [], status: "draft", title: "Note", date: "2024-01-15" };
+ * executeReorderKeys(data, "", ["title", "date", "*"]);
+ * // Object.keys(data) is now: ["title", "date", "tags", "status"]
+ */
+export function executeReorderKeys(
+	data: any,
+	path: string,
+	order: string[]
+): ActionResult {
+	return reorderKeys(data, path, 'REORDER KEYS', keys => {
+		const wanted = order.filter((key, i) => order.indexOf(key) === i && (key === '*' || keys.includes(key)));
+		const listed = wanted.filter(key => key !== '*');
+		const rest = keys.filter(key => !order.includes(key));
+		const wildcard = wanted.indexOf('*');
+		return wildcard === -1
+			? [...listed, ...rest]
+			: [...listed.slice(0, wildcard), ...rest, ...listed.slice(wildcard)];
+	});
+}
+
+/**
+ * SORT KEYS - Sort keys alphabetically
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Path to the object ('' for the top level)
+ * @param order - ASC or DESC
+ * @returns ActionResult with success/modified/changes
+ */
+export function executeSortKeys(
+	data: any,
+	path: string,
+	order: 'ASC' | 'DESC' = 'ASC'
+): ActionResult {
+	return reorderKeys(data, path, `SORT KEYS ${order}`, keys =>
+		[...keys].sort((a, b) => (order === 'ASC' ? a.localeCompare(b) : b.localeCompare(a)))
+	);
+}
+
+/**
+ * Delete the keys of the target object(s) that a predicate selects
+ */
+function deleteKeys(
+	data: any,
+	path: string,
+	label: string,
+	shouldDelete: (key: string) => boolean
+): ActionResult {
+	try {
+		const objects = getTargetObjects(data, path);
+		if (!Array.isArray(objects)) {
+			return objects;
+		}
+
+		const changes: string[] = [];
+		for (const { object, objectPath } of objects) {
+			for (const key of Object.keys(object)) {
+				if (shouldDelete(key)) {
+					delete object[key];
+					changes.push(`DELETE ${joinPath(objectPath, key)}`);
+				}
+			}
+		}
+
+		return { success: true, modified: changes.length > 0, changes };
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : `Unknown error in ${label} operation`,
+		};
+	}
+}
+
+/**
+ * Reorder keys of the target object(s) with an ordering function
+ */
+function reorderKeys(
+	data: any,
+	path: string,
+	label: string,
+	reorder: (keys: string[]) => string[]
+): ActionResult {
+	try {
+		const objects = getTargetObjects(data, path);
+		if (!Array.isArray(objects)) {
+			return objects;
+		}
+
+		const changes: string[] = [];
+		for (const { object, objectPath } of objects) {
+			const keys = Object.keys(object);
+			const newKeys = reorder(keys);
+			if (newKeys.join('\u0000') === keys.join('\u0000')) continue;
+
+			replaceEntries(object, newKeys.map(key => [key, object[key]]));
+			changes.push(`${label}${objectPath ? ` ${objectPath}` : ''}: ${newKeys.join(', ')}`);
+		}
+
+		return { success: true, modified: changes.length > 0, changes };
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : `Unknown error in ${label} operation`,
+		};
+	}
+}
+
+/**
+ * Rename keys of the target object(s) with a naming function
+ */
+function renameKeys(
+	data: any,
+	path: string,
+	label: string,
+	rename: (key: string) => string
+): ActionResult {
+	try {
+		const objects = getTargetObjects(data, path);
+		if (!Array.isArray(objects)) {
+			return objects;
+		}
+
+		const changes: string[] = [];
+		const warnings: string[] = [];
+		for (const { object, objectPath } of objects) {
+			const names = planRenames(Object.keys(object), rename, (key, newKey, reason) =>
+				warnings.push(`${label} skipped ${joinPath(objectPath, key)} → ${joinPath(objectPath, newKey)}: ${reason}`)
+			);
+
+			const renamed = Object.keys(object).filter(key => names.get(key) !== key);
+			if (renamed.length === 0) continue;
+
+			replaceEntries(object, Object.entries(object).map(([key, value]) => [names.get(key)!, value]));
+			for (const key of renamed) {
+				changes.push(`RENAME ${joinPath(objectPath, key)} → ${joinPath(objectPath, names.get(key)!)}`);
+			}
+		}
+
+		return {
+			success: true,
+			modified: changes.length > 0,
+			changes,
+			warning: warnings.length > 0 ? warnings.join('; ') : undefined,
+		};
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : `Unknown error in ${label} operation`,
+		};
+	}
+}
+
+/**
+ * Decide the final name of every key
+ *
+ * A rename is dropped (the key keeps its name) when the new name is empty,
+ * unsafe, or wanted by another key too; no key is ever overwritten. Dropping
+ * one rename can make its old name collide with another rename, so this
+ * repeats until nothing changes.
+ */
+function planRenames(
+	keys: string[],
+	rename: (key: string) => string,
+	skip: (key: string, newKey: string, reason: string) => void
+): Map<string, string> {
+	const names = new Map<string, string>();
+	for (const key of keys) {
+		const newKey = rename(key);
+		if (newKey !== key && (newKey === '' || (DANGEROUS_OBJECT_KEYS as readonly string[]).includes(newKey))) {
+			skip(key, newKey, 'invalid key name');
+			names.set(key, key);
+		} else {
+			names.set(key, newKey);
+		}
+	}
+
+	let changed = true;
+	while (changed) {
+		changed = false;
+		const owners = new Map<string, string[]>();
+		for (const key of keys) {
+			const name = names.get(key)!;
+			owners.set(name, [...(owners.get(name) ?? []), key]);
+		}
+
+		for (const key of keys) {
+			const name = names.get(key)!;
+			if (name !== key && owners.get(name)!.length > 1) {
+				const others = owners.get(name)!.filter(other => other !== key);
+				const reason = others.includes(name)
+					? `'${name}' already exists`
+					: `'${others[0]}' would be renamed to '${name}' too`;
+				skip(key, name, reason);
+				names.set(key, key);
+				changed = true;
+			}
+		}
+	}
+
+	return names;
+}
+
+/**
+ * Objects whose keys an action changes, with their paths for change messages
+ *
+ * @returns The objects, or the result to return when there are none (missing
+ * target: nothing to do; not an object: warning)
+ */
+function getTargetObjects(
+	data: any,
+	path: string
+): Array<{ object: Record<string, any>; objectPath: string }> | ActionResult {
+	const target = path ? resolvePath(data, path) : data;
+	if (target === undefined || target === null) {
+		return { success: true, modified: false, changes: [] };
+	}
+
+	if (isPlainObject(target)) {
+		return [{ object: target, objectPath: path }];
+	}
+
+	if (Array.isArray(target)) {
+		return target
+			.map((item, i) => ({ object: item, objectPath: `${path}[${i}]` }))
+			.filter(entry => isPlainObject(entry.object));
+	}
+
+	return {
+		success: true,
+		modified: false,
+		changes: [],
+		warning: `Field '${path}' is not an object: ${formatValue(target)}`,
+	};
+}
+
+/**
+ * Replace the entries of an object in place, in the given order
+ */
+function replaceEntries(object: Record<string, any>, entries: Array<[string, any]>): void {
+	for (const key of Object.keys(object)) {
+		delete object[key];
+	}
+	for (const [key, value] of entries) {
+		object[key] = value;
+	}
+}
+
+/**
+ * Compile a key pattern: a /regex/ literal (ReDoS-checked) or a glob
+ */
+function compileKeyPattern(pattern: string, isRegex: boolean): RegExp {
+	return isRegex ? compileSafeRegex(pattern) : globToRegex(pattern);
+}
+
+/**
+ * Glob to anchored regex: * matches any run of characters, ? one character
+ */
+function globToRegex(glob: string): RegExp {
+	const source = glob
+		.split('')
+		.map(char => (char === '*' ? '(.*)' : char === '?' ? '(.)' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+		.join('');
+	return new RegExp(`^${source}$`);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,261 @@
+/**
+ * String actions: TRANSFORM, REGEX_REPLACE, SPLIT, JOIN
+ *
+ * TRANSFORM and REGEX_REPLACE change a string field in place, or every string
+ * item of an array field (other items are kept as they are). Fields that are
+ * missing or null are skipped silently; values of another type are left
+ * unchanged with a warning.
+ */
+
+import { ActionResult, StringTransform } from '../types';
+import { resolvePath, setPath } from '../parser/pathResolver';
+import { compileSafeRegex, runSafeRegex } from '../utils/regex';
+import { slugify, toTitleCase } from '../utils/strings';
+import { formatValue } from './basicActions';
+
+const TRANSFORMS: Record<StringTransform, (value: string) => string> = {
+	LOWERCASE: value => value.toLowerCase(),
+	UPPERCASE: value => value.toUpperCase(),
+	TITLECASE: toTitleCase,
+	TRIM: value => value.trim(),
+	SLUGIFY: slugify,
+};
+
+/**
+ * TRANSFORM - Change a string (or the strings of an array) in place
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Dot notation path to field
+ * @param transform - LOWERCASE, UPPERCASE, TITLECASE, TRIM or SLUGIFY
+ * @returns ActionResult with success/modified/changes/warning
+ *
+ * @example
+ * const data = { tags: ["Work", "URGENT"] };
+ * executeTransform(data, "tags", "LOWERCASE");
+ * // data is now: { tags: ["work", "urgent"] }
+ */
+export function executeTransform(
+	data: any,
+	path: string,
+	transform: StringTransform
+): ActionResult {
+	return updateStrings(data, path, `TRANSFORM ${path} ${transform}`, TRANSFORMS[transform]);
+}
+
+/**
+ * REGEX_REPLACE - Search and replace in a string (or the strings of an array)
+ *
+ * Uses JavaScript replace semantics: without the g flag only the first match
+ * is replaced; the replacement may use $1, $<name> and $&. Patterns pass the
+ * same ReDoS checks as condition regexes.
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Dot notation path to field
+ * @param pattern - Regex literal "/pattern/flags"
+ * @param replacement - Replacement text
+ * @returns ActionResult with success/modified/changes/warning
+ *
+ * @example
+ * const data = { summary: "foo and foo" };
+ * executeRegexReplace(data, "summary", "/foo/g", "bar");
+ * // data is now: { summary: "bar and bar" }
+ */
+export function executeRegexReplace(
+	data: any,
+	path: string,
+	pattern: string,
+	replacement: string
+): ActionResult {
+	try {
+		const regex = compileSafeRegex(pattern);
+		return updateStrings(data, path, `REGEX_REPLACE ${path} ${pattern}`, value =>
+			runSafeRegex(regex, r => value.replace(r, replacement))
+		);
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : 'Unknown error in REGEX_REPLACE operation',
+		};
+	}
+}
+
+/**
+ * SPLIT - Turn a delimited string into an array
+ *
+ * Parts are trimmed and empty parts dropped ("a, b,, c" → ["a", "b", "c"]).
+ * A field that already is an array is left as it is.
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Dot notation path to field
+ * @param separator - Separator text, or "/pattern/flags" if isRegex
+ * @param isRegex - Whether separator is a regex literal
+ * @returns ActionResult with success/modified/changes/warning
+ *
+ * @example
+ * const data = { keywords: "yaml, obsidian ,notes" };
+ * executeSplit(data, "keywords", ",");
+ * // data is now: { keywords: ["yaml", "obsidian", "notes"] }
+ */
+export function executeSplit(
+	data: any,
+	path: string,
+	separator: string,
+	isRegex: boolean = false
+): ActionResult {
+	try {
+		const current = resolvePath(data, path);
+		if (current === undefined || current === null || Array.isArray(current)) {
+			return { success: true, modified: false, changes: [] };
+		}
+		if (typeof current !== 'string') {
+			return wrongType(path, current, 'a string');
+		}
+
+		let parts: string[];
+		if (isRegex) {
+			const regex = compileSafeRegex(separator);
+			parts = runSafeRegex(regex, r => current.split(r));
+		} else {
+			parts = current.split(separator);
+		}
+		const items = parts.map(part => (part ?? '').trim()).filter(part => part.length > 0);
+
+		setPath(data, path, items);
+
+		return {
+			success: true,
+			modified: true,
+			changes: [`SPLIT ${path}: ${formatValue(current)} → [${items.length} items]`],
+		};
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : 'Unknown error in SPLIT operation',
+		};
+	}
+}
+
+/**
+ * JOIN - Turn an array into a string
+ *
+ * Objects in the array are written as JSON. A field that already is a
+ * string is left as it is.
+ *
+ * @param data - Frontmatter data object to modify
+ * @param path - Dot notation path to field
+ * @param separator - Text between items
+ * @returns ActionResult with success/modified/changes/warning
+ *
+ * @example
+ * const data = { tags: ["a", "b"] };
+ * executeJoin(data, "tags", ", ");
+ * // data is now: { tags: "a, b" }
+ */
+export function executeJoin(
+	data: any,
+	path: string,
+	separator: string
+): ActionResult {
+	try {
+		const current = resolvePath(data, path);
+		if (current === undefined || current === null || typeof current === 'string') {
+			return { success: true, modified: false, changes: [] };
+		}
+		if (!Array.isArray(current)) {
+			return wrongType(path, current, 'an array');
+		}
+
+		const joined = current
+			.map(item => (typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item)))
+			.join(separator);
+
+		setPath(data, path, joined);
+
+		return {
+			success: true,
+			modified: true,
+			changes: [`JOIN ${path}: [${current.length} items] → ${formatValue(joined)}`],
+		};
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : 'Unknown error in JOIN operation',
+		};
+	}
+}
+
+/**
+ * Apply a string function to a string field or the string items of an array field
+ */
+function updateStrings(
+	data: any,
+	path: string,
+	label: string,
+	update: (value: string) => string
+): ActionResult {
+	try {
+		const current = resolvePath(data, path);
+		if (current === undefined || current === null) {
+			return { success: true, modified: false, changes: [] };
+		}
+
+		if (typeof current === 'string') {
+			const newValue = update(current);
+			if (newValue === current) {
+				return { success: true, modified: false, changes: [] };
+			}
+			setPath(data, path, newValue);
+			return {
+				success: true,
+				modified: true,
+				changes: [`${label}: ${formatValue(current)} → ${formatValue(newValue)}`],
+			};
+		}
+
+		if (Array.isArray(current)) {
+			let changed = 0;
+			const items = current.map(item => {
+				if (typeof item !== 'string') return item;
+				const newItem = update(item);
+				if (newItem !== item) changed++;
+				return newItem;
+			});
+			if (changed === 0) {
+				return { success: true, modified: false, changes: [] };
+			}
+			setPath(data, path, items);
+			return {
+				success: true,
+				modified: true,
+				changes: [`${label}: ${changed} of ${current.length} items changed`],
+			};
+		}
+
+		return wrongType(path, current, 'a string or array of strings');
+	} catch (error) {
+		return {
+			success: false,
+			modified: false,
+			changes: [],
+			error: error instanceof Error ? error.message : `Unknown error in ${label.split(' ')[0]} operation`,
+		};
+	}
+}
+
+/**
+ * Warning result for a value of the wrong type
+ */
+function wrongType(path: string, value: any, expected: string): ActionResult {
+	return {
+		success: true,
+		modified: false,
+		changes: [],
+		warning: `Field '${path}' is not ${expected}: ${formatValue(value)}`,
+	};
+}
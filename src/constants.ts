@@ -30,6 +30,18 @@ export const LIMITS = {
 
 	/** Files processed before yielding to UI thread */
 	BATCH_YIELD_INTERVAL: 5,
+
+	/** Number of applied runs kept in the undo journal */
+	MAX_JOURNAL_RUNS: 20,
+
+	/** Number of automatic (triggered) runs kept in the undo journal, apart from MAX_JOURNAL_RUNS */
+	MAX_AUTOMATIC_JOURNAL_RUNS: 50,
+
+	/** Quiet period after the last vault event on a note before its automatic rules run */
+	TRIGGER_DEBOUNCE_MS: 2000,
+
+	/** How often scheduled rules are checked for due runs in milliseconds */
+	SCHEDULE_CHECK_INTERVAL_MS: 60000,
 } as const;
 
 /**
@@ -6,10 +6,14 @@
  */
 
 import { App, TFile } from 'obsidian';
-import { FileResult, Rule } from '../types';
+import { FileResult, Playbook, Rule } from '../types';
 import { executeRule } from './ruleEngine';
+import { createLinkCache } from './noteLinks';
 import { writeFrontmatter } from '../yaml/yamlProcessor';
 import { LIMITS } from '../constants';
+import { createRunJournal } from './runJournal';
+import { Logger } from './logger';
+import { recordOwnWrite } from './writeTracker';
 
 export interface BatchResult {
 	/** Individual file results */
@@ -23,6 +27,8 @@ export interface BatchResult {
 		duration: number;
 		backupsCreated: number;
 	};
+	/** Journal ID of the run (only set when files were written) */
+	runId?: string;
 }
 
 export interface Progress {
@@ -43,6 +49,14 @@ export type ProgressCallback = (progress: Progress) => void;
 export interface BatchOptions {
 	/** If true, preview changes without writing to disk (dry-run) */
 	dryRun?: boolean;
+	/** Record written files in the undo journal (default: true) */
+	journal?: boolean;
+	/** Run started by a trigger: journaled under the automatic retention limit */
+	automatic?: boolean;
+	/** Record written files as the plugin's own writes for trigger loop protection (default: true) */
+	trackWrites?: boolean;
+	/** Operation logger for per-file entries and the summary (caller opens and closes it) */
+	logger?: Logger;
 }
 
 /**
@@ -66,21 +80,24 @@ export async function processBatch(
 	const startTime = Date.now();
 	const results: FileResult[] = [];
 	let backupsCreated = 0;
+	const journal = !isDryRun && (options?.journal ?? true) ? createRunJournal(app.vault, rule, undefined, options?.automatic) : null;
+	const linkCache = createLinkCache();
 
 	for (let i = 0; i < files.length; i++) {
 		const file = files[i];
 
 		try {
 			// Execute rule (always dry-run at this stage)
-			const result = await executeRule(app, rule, file);
+			const result = await executeRule(app, rule, file, linkCache);
 			results.push(result);
 
 			// SAFETY: Skip writes during dry-run (preview mode)
 			if (!isDryRun) {
 				// Create backup if modified and backup enabled
+				let backupPath: string | undefined;
 				if (result.modified && rule.options.backup) {
 					try {
-						await createBackup(app, file);
+						backupPath = await createBackup(app, file);
 						backupsCreated++;
 					} catch (backupError) {
 						console.warn(`Failed to create backup for ${file.path}:`, backupError);
@@ -90,10 +107,19 @@ export async function processBatch(
 				// Write changes if modified
 				if (result.modified && result.newData) {
 					const content = await app.vault.read(file);
-					const { content: bodyContent } = await import('../yaml/yamlProcessor').then(m =>
-						m.readFrontmatter(app, file)
-					);
-					await writeFrontmatter(app, file, result.newData, bodyContent);
+					await writeFrontmatter(app, file, result.newData, content);
+
+					const newContent = await app.vault.read(file);
+					if (options?.trackWrites ?? true) {
+						recordOwnWrite(file.path, newContent);
+					}
+					if (journal) {
+						journal.recordFile(file, content, newContent);
+					}
+				}
+
+				if (options?.logger) {
+					logFileResult(options.logger, result, backupPath);
 				}
 			}
 
@@ -129,35 +155,250 @@ export async function processBatch(
 			}
 		} catch (error) {
 			// If processing fails, add error result
-			results.push({
+			const errorResult: FileResult = {
 				file,
 				status: 'error',
 				modified: false,
 				changes: [],
 				error: error instanceof Error ? error.message : 'Unknown error',
 				duration: Date.now() - startTime,
-			});
+			};
+			results.push(errorResult);
+
+			if (!isDryRun && options?.logger) {
+				logFileResult(options.logger, errorResult);
+			}
+		}
+	}
+
+	const summary = summarize(results, Date.now() - startTime, backupsCreated);
+
+	// Persist the undo journal; a failure here must not fail the applied run
+	let runId: string | undefined;
+	if (journal) {
+		try {
+			const record = await journal.close();
+			runId = record?.runId;
+		} catch (journalError) {
+			console.warn('Failed to write run journal:', journalError);
+		}
+	}
+
+	const batchResult: BatchResult = { results, summary, runId };
+
+	if (!isDryRun && options?.logger) {
+		options.logger.logSummary(batchResult);
+	}
+
+	return batchResult;
+}
+
+export interface PlaybookStep {
+	/** Rule to apply */
+	rule: Rule;
+	/** Files in the rule's scope */
+	files: TFile[];
+}
+
+/**
+ * Process a playbook - apply several rules in sequence as a single run
+ *
+ * Each rule runs through processBatch against an in-memory copy of the
+ * vault, so later rules see the output of earlier ones. Files are then
+ * written once, with at most one backup per file and one undo journal entry
+ * for the whole playbook. A file on which any rule fails is not written.
+ *
+ * @param app - Obsidian App instance
+ * @param playbook - Playbook being run (used for the journal)
+ * @param steps - Rules in playbook order, each with the files in its scope
+ * @param options - Optional batch processing options (dryRun, etc.)
+ * @returns One BatchResult with a combined result per file
+ */
+export async function processPlaybook(
+	app: App,
+	playbook: Playbook,
+	steps: PlaybookStep[],
+	options?: BatchOptions
+): Promise<BatchResult> {
+	const isDryRun = options?.dryRun ?? false;
+	const startTime = Date.now();
+	const overlay = new Map<string, string>();
+	const overlayApp = createOverlayApp(app, overlay);
+	const combined = new Map<string, FileResult>();
+
+	for (const step of steps) {
+		// Backups, journaling and own-write tracking happen once, below, against the real vault
+		const rule: Rule = { ...step.rule, options: { ...step.rule.options, backup: false } };
+		const batch = await processBatch(overlayApp, step.files, rule, undefined, { journal: false, trackWrites: false });
+
+		for (const result of batch.results) {
+			const labelled = labelResult(result, step.rule);
+			const previous = combined.get(result.file.path);
+			combined.set(result.file.path, previous ? combineResults(previous, labelled) : labelled);
+		}
+	}
+
+	const backup = steps.some(step => step.rule.options.backup);
+	const journal = !isDryRun && (options?.journal ?? true) ? createRunJournal(app.vault, playbook) : null;
+	const results: FileResult[] = [];
+	let backupsCreated = 0;
+
+	for (const result of Array.from(combined.values())) {
+		const file = result.file;
+		const newContent = overlay.get(file.path);
+		let fileResult: FileResult = { ...result, modified: false };
+		let backupPath: string | undefined;
+
+		try {
+			// Files on which any rule failed are left untouched
+			if (result.status !== 'error' && newContent !== undefined) {
+				const originalContent = await app.vault.read(file);
+				fileResult.modified = newContent !== originalContent;
+
+				if (fileResult.modified && !isDryRun) {
+					if (backup) {
+						try {
+							backupPath = await createBackup(app, file);
+							backupsCreated++;
+						} catch (backupError) {
+							console.warn(`Failed to create backup for ${file.path}:`, backupError);
+						}
+					}
+
+					await app.vault.modify(file, newContent);
+					recordOwnWrite(file.path, newContent);
+					journal?.recordFile(file, originalContent, newContent);
+				}
+			}
+		} catch (error) {
+			fileResult = {
+				...result,
+				status: 'error',
+				modified: false,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			};
+		}
+
+		results.push(fileResult);
+
+		if (!isDryRun && options?.logger) {
+			logFileResult(options.logger, fileResult, backupPath);
 		}
 	}
 
-	// Calculate summary
-	const summary = {
+	const summary = summarize(results, Date.now() - startTime, backupsCreated);
+
+	// Persist the undo journal; a failure here must not fail the applied run
+	let runId: string | undefined;
+	if (journal) {
+		try {
+			const record = await journal.close();
+			runId = record?.runId;
+		} catch (journalError) {
+			console.warn('Failed to write run journal:', journalError);
+		}
+	}
+
+	const batchResult: BatchResult = { results, summary, runId };
+
+	if (!isDryRun && options?.logger) {
+		options.logger.logSummary(batchResult);
+	}
+
+	return batchResult;
+}
+
+/**
+ * Wrap an App so vault reads and writes go to an in-memory overlay
+ */
+function createOverlayApp(app: App, overlay: Map<string, string>): App {
+	const vault = Object.create(app.vault);
+	vault.read = async (file: TFile) => overlay.has(file.path) ? overlay.get(file.path) : app.vault.read(file);
+	vault.modify = async (file: TFile, content: string) => {
+		overlay.set(file.path, content);
+	};
+
+	const overlayApp = Object.create(app);
+	overlayApp.vault = vault;
+	return overlayApp;
+}
+
+/**
+ * Prefix the changes and messages of a result with the rule that produced them
+ */
+function labelResult(result: FileResult, rule: Rule): FileResult {
+	return {
+		...result,
+		changes: result.changes.map(change => `${rule.name}: ${change}`),
+		warning: result.warning && `${rule.name}: ${result.warning}`,
+		error: result.error && `${rule.name}: ${result.error}`,
+		steps: result.steps?.map(step => ({ ...step, action: `${rule.name}: ${step.action}` })),
+	};
+}
+
+const STATUS_SEVERITY: Record<FileResult['status'], number> = { skipped: 0, success: 1, warning: 2, error: 3 };
+
+/**
+ * Combine the results of two consecutive rules on the same file
+ */
+function combineResults(previous: FileResult, next: FileResult): FileResult {
+	const join = (a?: string, b?: string) => [a, b].filter(Boolean).join('; ') || undefined;
+
+	return {
+		file: previous.file,
+		status: STATUS_SEVERITY[next.status] > STATUS_SEVERITY[previous.status] ? next.status : previous.status,
+		modified: previous.modified || next.modified,
+		changes: previous.changes.concat(next.changes),
+		originalData: previous.originalData ?? next.originalData,
+		newData: next.newData ?? previous.newData,
+		yamlText: previous.yamlText || next.yamlText
+			? {
+				before: (previous.yamlText ?? next.yamlText)!.before,
+				after: (next.yamlText ?? previous.yamlText)!.after,
+			}
+			: undefined,
+		warning: join(previous.warning, next.warning),
+		error: join(previous.error, next.error),
+		steps: previous.steps || next.steps ? (previous.steps || []).concat(next.steps || []) : undefined,
+		duration: previous.duration + next.duration,
+	};
+}
+
+function summarize(results: FileResult[], duration: number, backupsCreated: number): BatchResult['summary'] {
+	return {
 		success: results.filter(r => r.status === 'success').length,
 		warnings: results.filter(r => r.status === 'warning').length,
 		errors: results.filter(r => r.status === 'error').length,
 		skipped: results.filter(r => r.status === 'skipped').length,
-		duration: Date.now() - startTime,
+		duration,
 		backupsCreated,
 	};
+}
 
-	return { results, summary };
+/**
+ * Write a single file result to the operation log (skipped files are not logged)
+ */
+function logFileResult(logger: Logger, result: FileResult, backupPath?: string): void {
+	switch (result.status) {
+		case 'success':
+			logger.logFileSuccess(result.file, result.changes, backupPath);
+			break;
+		case 'warning':
+			logger.logFileWarning(result.file, result.warning || '', result.changes);
+			break;
+		case 'error':
+			logger.logFileError(result.file, result.error || 'Unknown error');
+			break;
+	}
 }
 
 /**
  * Create backup of a file with path validation
  * Prevents path traversal attacks by validating backup path stays within vault
+ *
+ * @returns Path of the backup file
  */
-async function createBackup(app: App, file: TFile): Promise<void> {
+async function createBackup(app: App, file: TFile): Promise<string> {
 	// Validate file path doesn't contain path traversal
 	if (file.path.includes('..')) {
 		throw new Error(`Invalid file path for backup (contains '..'): ${file.path}`);
@@ -186,4 +427,6 @@ async function createBackup(app: App, file: TFile): Promise<void> {
 	} else {
 		await app.vault.create(backupPath, content);
 	}
+
+	return backupPath;
 }
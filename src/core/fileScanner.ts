@@ -23,15 +23,18 @@ export interface ScanResult {
 export interface ScanOptions {
 	/** Timeout in milliseconds */
 	timeout?: number;
+	/** Active file for scope type 'current' (see getCurrentFile) */
+	currentFile?: TFile | null;
 }
 
 /**
  * Scan vault for markdown files matching scope
  *
  * @param vault - Obsidian Vault instance
- * @param scope - Rule scope (vault or folder)
- * @param options - Scan options (limits and timeout)
+ * @param scope - Rule scope (vault, folder or current file)
+ * @param options - Scan options (limits, timeout and current file)
  * @returns ScanResult with matched files
+ * @throws Error if scope is 'current' and there is no current file
  */
 export async function scanFiles(
 	vault: Vault,
@@ -41,6 +44,19 @@ export async function scanFiles(
 	const startTime = Date.now();
 	const timeout = options.timeout || 30000;
 
+	// Current file scope: exactly the active note, never the rest of the vault
+	if (scope.type === 'current') {
+		if (!options.currentFile) {
+			throw new Error('No active note: the "Current File" scope requires an open markdown note');
+		}
+		return {
+			matched: [options.currentFile],
+			scanned: 1,
+			duration: Date.now() - startTime,
+			timedOut: false,
+		};
+	}
+
 	const matched: TFile[] = [];
 	let scanned = 0;
 	let timedOut = false;
@@ -51,15 +67,7 @@ export async function scanFiles(
 	// Filter by scope
 	let scopedFiles = allFiles;
 	if (scope.type === 'folder' && scope.folder) {
-		// Normalize folder path and ensure it ends with /
-		// This prevents matching "samples" with "samples-old"
-		let normalizedFolder = normalizePath(scope.folder);
-		if (!normalizedFolder.endsWith('/')) {
-			normalizedFolder += '/';
-		}
-		scopedFiles = allFiles.filter(file =>
-			normalizePath(file.path).startsWith(normalizedFolder)
-		);
+		scopedFiles = allFiles.filter(file => isInFolder(file.path, scope.folder as string));
 	}
 
 	// Scan files with timeout protection
@@ -82,6 +90,19 @@ export async function scanFiles(
 	};
 }
 
+/**
+ * Check whether a path lies inside a folder (at any depth)
+ */
+export function isInFolder(path: string, folder: string): boolean {
+	// Normalize folder path and ensure it ends with /
+	// This prevents matching "samples" with "samples-old"
+	let normalizedFolder = normalizePath(folder);
+	if (!normalizedFolder.endsWith('/')) {
+		normalizedFolder += '/';
+	}
+	return normalizePath(path).startsWith(normalizedFolder);
+}
+
 /**
  * Get current file from active view
  */
@@ -2,15 +2,33 @@
  * Logger - Log operations to file
  * Based on requirements Section 8
  *
- * Creates detailed operation logs in .obsidian/plugins/yaml-toolkit/logs/
+ * Creates detailed operation logs in <plugin folder>/logs/
  */
 
 import { Vault, TFile } from 'obsidian';
-import { BatchResult, FileResult, Rule } from '../types';
+import { BatchResult, FileResult, Playbook, Rule } from '../types';
 import { DateTime } from 'luxon';
+import { getPluginDir } from './pluginDir';
+
+/** Timestamp format used in log file names */
+const LOG_TIMESTAMP_FORMAT = 'yyyy-MM-dd_HH-mm-ss-SSS';
+
+/** Log file names before milliseconds were added */
+const LEGACY_LOG_TIMESTAMP_FORMAT = 'yyyy-MM-dd_HH-mm-ss';
+
+/** Time of the last generated log path, so no two runs share a file */
+let lastLogTime = 0;
+
+export interface LogRetention {
+	/** Maximum number of log files to keep (0 = unlimited) */
+	maxCount: number;
+	/** Maximum age of log files in days (0 = unlimited) */
+	maxAgeDays: number;
+}
 
 export interface Logger {
 	logStart(rule: Rule): void;
+	logPlaybookStart(playbook: Playbook, rules: Rule[]): void;
 	logScan(scanned: number, matched: number): void;
 	logFileSuccess(file: TFile, changes: string[], backup?: string): void;
 	logFileWarning(file: TFile, warning: string, changes: string[]): void;
@@ -44,6 +62,27 @@ export function createLogger(vault: Vault, logPath: string): Logger {
 			lines.push('');
 		},
 
+		logPlaybookStart(playbook: Playbook, rules: Rule[]): void {
+			lines.push('================================================================================');
+			lines.push(`Timestamp: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}`);
+			lines.push(`Playbook: ${playbook.name}`);
+			lines.push(`ID: ${playbook.id}`);
+			lines.push('================================================================================');
+			lines.push('');
+			rules.forEach((rule, index) => {
+				lines.push(`${index + 1}. ${rule.name}`);
+				lines.push(`   Condition: ${rule.condition || '(none - apply to all files)'}`);
+				lines.push(`   Action: ${rule.action}`);
+				lines.push(`   Scope: ${rule.scope.type}${rule.scope.folder ? ` (${rule.scope.folder})` : ''}`);
+				lines.push(`   Backup: ${rule.options.backup ? 'enabled' : 'disabled'}`);
+			});
+			lines.push('');
+			lines.push('================================================================================');
+			lines.push('PROCESSING');
+			lines.push('================================================================================');
+			lines.push('');
+		},
+
 		logScan(scanned: number, matched: number): void {
 			lines.push(`Scanned: ${scanned} files`);
 			lines.push(`Matched: ${matched} files`);
@@ -116,10 +155,78 @@ export function createLogger(vault: Vault, logPath: string): Logger {
 	};
 }
 
+/**
+ * Folder of the operation logs
+ */
+export function getLogDir(vault: Vault): string {
+	return `${getPluginDir(vault)}/logs`;
+}
+
 /**
  * Generate log file path with timestamp
+ *
+ * Runs started in the same millisecond get consecutive timestamps instead of
+ * the same file.
+ */
+export function generateLogPath(vault: Vault): string {
+	const time = Math.max(Date.now(), lastLogTime + 1);
+	lastLogTime = time;
+	const timestamp = DateTime.fromMillis(time).toFormat(LOG_TIMESTAMP_FORMAT);
+	return `${getLogDir(vault)}/${timestamp}.log`;
+}
+
+/**
+ * List log file paths, newest first
+ */
+export async function listLogs(vault: Vault): Promise<string[]> {
+	const logDir = getLogDir(vault);
+	if (!(await vault.adapter.exists(logDir))) {
+		return [];
+	}
+
+	const listing = await vault.adapter.list(logDir);
+	// Timestamped names sort chronologically
+	return listing.files.filter(path => path.endsWith('.log')).sort().reverse();
+}
+
+/**
+ * Get the path of the most recent log file
+ */
+export async function getLatestLogPath(vault: Vault): Promise<string | null> {
+	const logs = await listLogs(vault);
+	return logs[0] || null;
+}
+
+/**
+ * Delete log files beyond the retention limits
+ *
+ * @returns Paths of deleted log files
+ */
+export async function pruneLogs(vault: Vault, retention: LogRetention): Promise<string[]> {
+	const logs = await listLogs(vault);
+	const cutoff = retention.maxAgeDays > 0 ? DateTime.now().minus({ days: retention.maxAgeDays }) : null;
+	const deleted: string[] = [];
+
+	for (let i = 0; i < logs.length; i++) {
+		const path = logs[i];
+		const tooMany = retention.maxCount > 0 && i >= retention.maxCount;
+		const timestamp = parseLogTimestamp(path);
+		const tooOld = cutoff !== null && timestamp.isValid && timestamp < cutoff;
+
+		if (tooMany || tooOld) {
+			await vault.adapter.remove(path);
+			deleted.push(path);
+		}
+	}
+
+	return deleted;
+}
+
+/**
+ * Timestamp of a log file from its name (current or legacy format)
  */
-export function generateLogPath(): string {
-	const timestamp = DateTime.now().toFormat('yyyy-MM-dd_HH-mm-ss');
-	return `.obsidian/plugins/yaml-toolkit/logs/${timestamp}.log`;
+function parseLogTimestamp(path: string): DateTime {
+	const name = path.substring(path.lastIndexOf('/') + 1, path.length - 4);
+	const timestamp = DateTime.fromFormat(name, LOG_TIMESTAMP_FORMAT);
+	return timestamp.isValid ? timestamp : DateTime.fromFormat(name, LEGACY_LOG_TIMESTAMP_FORMAT);
 }
@@ -0,0 +1,156 @@
+/**
+ * Note graph - Links, backlinks, embeds and inline tags from Obsidian's metadataCache
+ *
+ * Available to conditions (links.count, links HAS "[[Project X]]") and
+ * templates ({{backlinks.count}}, {{links[0]}}). Links and embeds are written
+ * as wikilinks to their target without alias or heading ("[[Project X]]"),
+ * tags with their # ("#meeting"). Each list has no duplicates; backlinks has
+ * one entry per linking note, so two notes named Task give two "[[Task]]".
+ *
+ * With a link resolver, a field or filter after a list reads the frontmatter
+ * of the linked notes: backlinks.estimate is the list of their estimates,
+ * backlinks[?status!="done"] the backlinks whose status is not done.
+ * Backlinking notes are read by path, not by resolving their name again.
+ */
+
+import { App, TFile } from 'obsidian';
+import { GraphResolver, LinkResolver, NoteGraph } from '../types';
+import { PathSegment, resolvePath, formatPath, parsePathSegments } from '../parser/pathResolver';
+
+/** Reserved names backed by the note graph */
+export const GRAPH_FIELDS: ReadonlyArray<keyof NoteGraph> = ['links', 'backlinks', 'embeds', 'inlineTags'];
+
+/**
+ * Read the note graph of a file
+ *
+ * Backlinks are only collected when first read, since that scans the links
+ * of the whole vault. Without a metadataCache all lists are empty.
+ */
+export function getNoteGraph(app: App, file: TFile): NoteGraph {
+	const cache = app.metadataCache?.getFileCache(file);
+	let backlinkPaths: string[] | undefined;
+	let backlinks: string[] | undefined;
+	const getBacklinkPaths = () => (backlinkPaths ??= findBacklinks(app, file));
+
+	return {
+		links: toWikilinks((cache?.links ?? []).map(link => link.link)),
+		embeds: toWikilinks((cache?.embeds ?? []).map(embed => embed.link)),
+		inlineTags: unique((cache?.tags ?? []).map(tag => tag.tag)),
+		get backlinks() {
+			backlinks ??= getBacklinkPaths().map(toNoteLink);
+			return backlinks;
+		},
+		get backlinkPaths() {
+			return getBacklinkPaths();
+		},
+	};
+}
+
+/**
+ * Check if a path starts with a note graph field (links, backlinks.count, ...)
+ */
+export function isGraphField(segments: PathSegment[]): boolean {
+	const head = segments[0];
+	return head?.type === 'property' && (GRAPH_FIELDS as string[]).includes(head.key as string);
+}
+
+/**
+ * Resolve a note graph field: the list, its count, an item (links[0]), or
+ * values of the linked notes (backlinks.estimate, links[?status="open"])
+ *
+ * @param segments - Path segments starting with a graph field (see isGraphField)
+ * @param linkResolver - Reads linked notes; without it only the list itself resolves
+ */
+export function resolveGraphField(graph: NoteGraph, segments: PathSegment[], linkResolver?: LinkResolver): any {
+	const [head, ...rest] = segments;
+	const list = graph[head.key as keyof NoteGraph];
+	if (rest.length === 0) {
+		return list;
+	}
+	if (isCount(rest)) {
+		return list.length;
+	}
+	if (!linkResolver || !readsLinkedNotes(rest[0])) {
+		return resolvePath(list, formatPath(rest));
+	}
+
+	// Pair each link with the frontmatter of its note (unresolved links are left out)
+	const path = formatPath(segments);
+	let notes = list
+		.map((link, i) => ({
+			link,
+			frontmatter: head.key === 'backlinks'
+				? linkResolver.frontmatterAt(graph.backlinkPaths[i])
+				: linkResolver.frontmatter(link, path),
+		}))
+		.filter(note => note.frontmatter !== undefined);
+
+	let fields = rest;
+	if (fields[0].type === 'filter') {
+		const filter = formatPath([fields[0]]);
+		notes = notes.filter(note => resolvePath([note.frontmatter], filter).length > 0);
+		fields = fields.slice(1);
+	}
+
+	if (fields.length === 0) {
+		return notes.map(note => note.link);
+	}
+	if (isCount(fields)) {
+		return notes.length;
+	}
+	const field = formatPath(fields);
+	return notes
+		.map(note => resolvePath(note.frontmatter, field))
+		.filter(value => value !== undefined);
+}
+
+/**
+ * Graph access for the evaluators, which only see paths
+ *
+ * @param linkResolver - Reads linked notes (backlinks.estimate)
+ */
+export function createGraphResolver(graph: NoteGraph, linkResolver?: LinkResolver): GraphResolver {
+	return {
+		isGraphField: path => isGraphField(parsePathSegments(path)),
+		resolve: path => resolveGraphField(graph, parsePathSegments(path), linkResolver),
+	};
+}
+
+function isCount(segments: PathSegment[]): boolean {
+	return segments.length === 1 && segments[0].type === 'property' && segments[0].key === 'count';
+}
+
+/**
+ * A field name or filter after the list reads the linked notes; an index or [*] reads the list
+ */
+function readsLinkedNotes(segment: PathSegment): boolean {
+	return segment.type === 'filter' || segment.type === 'property';
+}
+
+/**
+ * Paths of the notes with a resolved link to the file
+ */
+function findBacklinks(app: App, file: TFile): string[] {
+	const resolvedLinks = app.metadataCache?.resolvedLinks ?? {};
+	return Object.keys(resolvedLinks).filter(source => source !== file.path && resolvedLinks[source][file.path]);
+}
+
+/**
+ * "[[name]]" for a note path, without folder and extension ("[[Weekly review]]")
+ */
+function toNoteLink(path: string): string {
+	return `[[${path.split('/').pop()!.replace(/\.[^.]*$/, '')}]]`;
+}
+
+/**
+ * "[[target]]" for link texts, without heading/block reference; links within
+ * the note itself ([[#Heading]]) are left out
+ */
+function toWikilinks(links: string[]): string[] {
+	const targets = links.map(link => link.split('#')[0]).filter(target => target.length > 0);
+	return unique(targets.map(target => `[[${target}]]`));
+}
+
+function unique(values: string[]): string[] {
+	return Array.from(new Set(values));
+}
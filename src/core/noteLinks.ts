@@ -0,0 +1,105 @@
+/**
+ * Note links - Follow wikilink values into the frontmatter of the linked note
+ *
+ * `project->status` reads `status` in the note that `project: "[[Website Redesign]]"`
+ * links to. Hops chain (project->client->owner), and a list of links gives the
+ * list of values. Links are resolved like Obsidian does, through the
+ * metadataCache, relative to the note being processed.
+ *
+ * Linked frontmatter is read from the metadataCache, not from the file: it is
+ * Obsidian's parse rather than the shared YAML schema, and it can lag behind
+ * writes, including ones this run made to the linked note earlier in the
+ * batch. It is then cached per batch (see createLinkCache): every rule run in
+ * a batch sees a linked note as it was when first read.
+ */
+
+import { App, TFile } from 'obsidian';
+import { LinkResolver } from '../types';
+import { resolvePath } from '../parser/pathResolver';
+
+/** Frontmatter of linked notes by file path, shared by the files of a batch */
+export type LinkCache = Map<string, any>;
+
+const WIKILINK = /^\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]$/;
+
+/**
+ * Create an empty cache for one batch
+ */
+export function createLinkCache(): LinkCache {
+	return new Map();
+}
+
+/**
+ * Create the link resolver for the note being processed
+ *
+ * Unresolved links, values that are not wikilinks and cycles (a hop back to
+ * a note already visited on the path, including the note itself) give
+ * undefined and a warning.
+ *
+ * @param app - Obsidian App instance (links need app.metadataCache)
+ * @param file - Note the links are relative to
+ * @param cache - Cache of the batch; a fresh one when omitted
+ */
+export function createLinkResolver(app: App, file: TFile, cache: LinkCache = createLinkCache()): LinkResolver {
+	const warnings: string[] = [];
+	const warn = (message: string) => warnings.push(message);
+
+	const readFrontmatter = (notePath: string): any => {
+		if (!cache.has(notePath)) {
+			cache.set(notePath, app.metadataCache?.getCache(notePath)?.frontmatter ?? {});
+		}
+		return cache.get(notePath);
+	};
+
+	const resolveTarget = (value: any, path: string): TFile | undefined => {
+		const match = typeof value === 'string' ? value.trim().match(WIKILINK) : null;
+		if (!match) {
+			warn(`Cannot follow '${path}': ${JSON.stringify(value)} is not a wikilink`);
+			return undefined;
+		}
+
+		const linkpath = match[1].trim();
+		const target = app.metadataCache?.getFirstLinkpathDest(linkpath, file.path);
+		if (!target) {
+			warn(`Cannot follow '${path}': [[${linkpath}]] does not resolve to a note`);
+			return undefined;
+		}
+		return target;
+	};
+
+	const follow = (value: any, hops: string[], path: string, visited: string[]): any => {
+		if (hops.length === 0) {
+			return value;
+		}
+		if (value === undefined || value === null) {
+			return undefined;
+		}
+		if (Array.isArray(value)) {
+			return value
+				.map(item => follow(item, hops, path, visited))
+				.filter(item => item !== undefined);
+		}
+
+		const target = resolveTarget(value, path);
+		if (!target) {
+			return undefined;
+		}
+		if (visited.includes(target.path)) {
+			warn(`Cannot follow '${path}': link cycle ${[...visited, target.path].join(' → ')}`);
+			return undefined;
+		}
+
+		const next = resolvePath(readFrontmatter(target.path), hops[0]);
+		return follow(next, hops.slice(1), path, [...visited, target.path]);
+	};
+
+	return {
+		follow: (value, hops, path) => follow(value, hops, path, [file.path]),
+		frontmatter: (link, path) => {
+			const target = resolveTarget(link, path);
+			return target ? readFrontmatter(target.path) : undefined;
+		},
+		frontmatterAt: readFrontmatter,
+		warnings,
+	};
+}
@@ -0,0 +1,27 @@
+/**
+ * Plugin Dir - Folder for the plugin's own files (undo journal, logs)
+ *
+ * The plugin folder lives in the vault's config folder, which users can
+ * rename (it is not always .obsidian). The plugin registers its manifest dir
+ * on load; until then it is derived from vault.configDir.
+ */
+
+import { Vault } from 'obsidian';
+
+const PLUGIN_ID = 'yaml-toolkit';
+
+let registeredDir: string | null = null;
+
+/**
+ * Register the plugin folder (manifest.dir)
+ */
+export function setPluginDir(dir: string | undefined): void {
+	registeredDir = dir || null;
+}
+
+/**
+ * Get the plugin folder, relative to the vault root
+ */
+export function getPluginDir(vault: Vault): string {
+	return registeredDir ?? `${vault.configDir || '.obsidian'}/plugins/${PLUGIN_ID}`;
+}
@@ -2,17 +2,43 @@
  * Rule Engine - Orchestrate condition evaluation and action execution
  * Based on requirements Section 2.2 (workflow)
  *
- * Flow: Read file → Resolve templates → Evaluate condition → Execute action → Return result
+ * Flow: Read file → Evaluate condition → For each action: resolve templates, execute → Return result
  */
 
 import { App, TFile } from 'obsidian';
-import { FileResult, Rule, ActionAST, ConditionAST } from '../types';
+import { DateTime } from 'luxon';
+import { FileResult, FileFields, Rule, ActionAST, ActionResult, StepResult, ExpressionContext } from '../types';
 import { readFrontmatter } from '../yaml/yamlProcessor';
+import { updateYaml } from '../yaml/yamlWriter';
 import { parseCondition } from '../parser/conditionParser';
-import { parseAction } from '../parser/actionParser';
+import { parseAction, splitActionProgram } from '../parser/actionParser';
 import { evaluateCondition } from '../evaluator/conditionEvaluator';
+import { formatPath, hasWildcards, expandPath } from '../parser/pathResolver';
 import { resolveTemplates, TemplateContext } from './templateEngine';
-import { executeSet, executeAdd, executeDelete, executeRename, executeIncrement, executeDecrement } from '../actions/basicActions';
+import { analyzeBody } from '../utils/noteBody';
+import { createGraphResolver, getNoteGraph } from './noteGraph';
+import { createLinkResolver, LinkCache } from './noteLinks';
+import {
+	executeSet,
+	executeSetExpression,
+	executeAdd,
+	executeAddExpression,
+	executeDelete,
+	executeRename,
+	executeIncrement,
+	executeDecrement,
+} from '../actions/basicActions';
+import { executeShift, executeFormatDate } from '../actions/dateActions';
+import { executeTransform, executeRegexReplace, executeSplit, executeJoin } from '../actions/stringActions';
+import { executeConvert } from '../actions/convertActions';
+import {
+	executeRenameKeys,
+	executeNormalizeKeys,
+	executeDeleteKeys,
+	executeKeepOnly,
+	executeReorderKeys,
+	executeSortKeys,
+} from '../actions/keyActions';
 import {
 	executeAppend,
 	executePrepend,
@@ -39,20 +65,30 @@ import { executeMerge, executeMergeOverwrite } from '../actions/objectActions';
  * @param app - Obsidian App instance
  * @param rule - Rule to execute
  * @param file - File to process
+ * @param linkCache - Linked-note cache of the batch, for project->status paths
  * @returns FileResult with changes (but file not modified)
  */
-export async function executeRule(app: App, rule: Rule, file: TFile): Promise<FileResult> {
+export async function executeRule(app: App, rule: Rule, file: TFile, linkCache?: LinkCache): Promise<FileResult> {
 	const startTime = Date.now();
 
 	try {
 		// Read frontmatter
-		const { data, content } = await readFrontmatter(app, file);
+		const { data, content, yaml = '' } = await readFrontmatter(app, file);
 		const originalData = JSON.parse(JSON.stringify(data)); // Deep copy for comparison
 
+		const graph = getNoteGraph(app, file);
+		const linkResolver = createLinkResolver(app, file, linkCache);
+		const linkWarnings = () => Array.from(new Set(linkResolver.warnings));
+
 		// Evaluate condition (if present)
 		if (rule.condition && rule.condition.trim().length > 0) {
 			const conditionAST = parseCondition(rule.condition);
-			const matches = evaluateCondition(conditionAST, data);
+			const matches = evaluateCondition(conditionAST, data, {
+				file: getFileFields(file),
+				body: analyzeBody(content),
+				graph: createGraphResolver(graph, linkResolver),
+				linkResolver,
+			});
 
 			if (!matches) {
 				return {
@@ -62,57 +98,57 @@ export async function executeRule(app: App, rule: Rule, file: TFile): Promise<Fi
 					changes: [],
 					originalData,
 					newData: data,
+					// An unresolved link may be why the condition failed
+					warning: linkWarnings().join('; ') || undefined,
 					duration: Date.now() - startTime,
 				};
 			}
 		}
 
-		// Resolve templates in action
+		// Run the action program against the same in-memory frontmatter
 		const templateContext: TemplateContext = {
 			file,
 			vault: app.vault,
 			frontmatter: data,
+			graph,
+			linkResolver,
 		};
-		const resolvedAction = resolveTemplates(rule.action, templateContext);
+		const continueOnError = rule.options?.onError === 'continue';
+		const steps = executeActionProgram(rule.action, data, templateContext, !continueOnError);
 
-		// Parse and execute action
-		const actionAST = parseAction(resolvedAction);
-		const actionResult = executeAction(actionAST, data);
+		const changes = ([] as string[]).concat(...steps.map(step => step.changes));
+		const modified = steps.some(step => step.modified);
+		const errors = describeSteps(steps, 'error');
+		const warnings = describeSteps(steps, 'warning');
 
-		if (!actionResult.success) {
+		if (errors.length > 0 && (!modified || !continueOnError)) {
 			return {
 				file,
 				status: 'error',
 				modified: false,
-				changes: actionResult.changes,
+				changes,
 				originalData,
 				newData: data,
-				error: actionResult.error,
+				error: errors.join('; '),
+				steps,
 				duration: Date.now() - startTime,
 			};
 		}
 
-		if (!actionResult.modified) {
-			return {
-				file,
-				status: actionResult.warning ? 'warning' : 'skipped',
-				modified: false,
-				changes: actionResult.changes,
-				originalData,
-				newData: data,
-				warning: actionResult.warning,
-				duration: Date.now() - startTime,
-			};
-		}
+		// With onError 'continue', failed steps are reported as warnings on an otherwise applied file
+		const warning = Array.from(new Set(errors.concat(warnings, linkWarnings()))).join('; ') || undefined;
 
 		return {
 			file,
-			status: actionResult.warning ? 'warning' : 'success',
-			modified: true,
-			changes: actionResult.changes,
+			status: warning ? 'warning' : modified ? 'success' : 'skipped',
+			modified,
+			changes,
 			originalData,
 			newData: data,
-			warning: actionResult.warning,
+			// What the writer will produce, for previews
+			yamlText: modified ? { before: yaml, after: updateYaml(yaml, data) } : undefined,
+			warning,
+			steps,
 			duration: Date.now() - startTime,
 		};
 	} catch (error) {
@@ -128,112 +164,112 @@ export async function executeRule(app: App, rule: Rule, file: TFile): Promise<Fi
 }
 
 /**
- * Convert v2.0 path segments to string path
- * [{ type: 'property', key: 'title' }] -> "title"
- * [{ type: 'property', key: 'tasks' }, { type: 'index', index: 0 }] -> "tasks[0]"
- * [{ type: 'property', key: 'metadata' }, { type: 'property', key: 'author' }] -> "metadata.author"
+ * File metadata for file.* in conditions
+ */
+function getFileFields(file: TFile): FileFields {
+	const toISO = (millis: number | undefined) =>
+		millis === undefined ? null : DateTime.fromMillis(millis).toISO({ suppressMilliseconds: true });
+
+	return {
+		name: file.basename,
+		path: file.path,
+		folder: file.parent?.path === '/' ? '' : file.parent?.path || '',
+		ext: file.extension,
+		ctime: toISO(file.stat?.ctime),
+		mtime: toISO(file.stat?.mtime),
+		size: file.stat?.size ?? null,
+	};
+}
+
+/**
+ * Execute an action program step by step on data
+ *
+ * Templates are resolved per step so each action sees the changes made by
+ * earlier ones. With stopOnError, the first failing step ends the program
+ * and the remaining steps are reported as skipped.
  */
-function segmentsToPath(segments: Array<{ type: string; key?: string; index?: number }>): string {
-	let path = '';
-	for (let i = 0; i < segments.length; i++) {
-		const seg = segments[i];
-		if (seg.type === 'property') {
-			if (path && !path.endsWith(']')) path += '.';  // Add dot before property (except after index)
-			path += seg.key;
-		} else if (seg.type === 'index') {
-			path += `[${seg.index}]`;
+export function executeActionProgram(
+	program: string,
+	data: any,
+	templateContext: TemplateContext,
+	stopOnError: boolean = true
+): StepResult[] {
+	const actions = splitActionProgram(program);
+	if (actions.length === 0) {
+		throw new Error('Action is required');
+	}
+
+	const results: StepResult[] = [];
+	let stopped = false;
+	const context: ExpressionContext = {
+		graph: templateContext.graph && createGraphResolver(templateContext.graph, templateContext.linkResolver),
+		linkResolver: templateContext.linkResolver,
+	};
+
+	for (const action of actions) {
+		if (stopped) {
+			results.push({ action, status: 'skipped', modified: false, changes: [] });
+			continue;
+		}
+
+		let actionResult: ActionResult;
+		try {
+			const resolvedAction = resolveTemplates(action, templateContext);
+			actionResult = executeAction(parseAction(resolvedAction), data, context);
+		} catch (error) {
+			actionResult = {
+				success: false,
+				modified: false,
+				changes: [],
+				error: error instanceof Error ? error.message : 'Unknown error',
+			};
+		}
+
+		results.push({
+			action,
+			status: !actionResult.success ? 'error' : actionResult.warning ? 'warning' : actionResult.modified ? 'success' : 'skipped',
+			modified: actionResult.modified,
+			changes: actionResult.changes,
+			warning: actionResult.warning,
+			error: actionResult.error,
+		});
+
+		if (!actionResult.success && stopOnError) {
+			stopped = true;
 		}
 	}
-	return path;
+
+	return results;
+}
+
+/**
+ * Collect error or warning messages of steps, labelled with the step when the program has several
+ */
+function describeSteps(steps: StepResult[], kind: 'error' | 'warning'): string[] {
+	const messages: string[] = [];
+	steps.forEach((step, index) => {
+		const message = step[kind];
+		if (!message) return;
+		messages.push(steps.length === 1 ? message : `Step ${index + 1} (${step.action}): ${message}`);
+	});
+	return messages;
 }
 
 /**
  * Execute an action AST on data (supports v2.0 Hybrid Grammar AST structure)
+ *
+ * @param context - Note graph and link resolver for expressions (SET total = SUM(backlinks.estimate))
  */
-export function executeAction(ast: ActionAST, data: any): import('../types').ActionResult {
+export function executeAction(ast: ActionAST, data: any, context?: ExpressionContext): ActionResult {
 	// Handle v2.0 AST structure: { type: 'action', target, operation }
 	if ((ast as any).type === 'action') {
 		const v2ast = ast as any;
-		const operation = v2ast.operation;
-		const path = segmentsToPath(v2ast.target.segments);
-
-		switch (operation.type) {
-			case 'SET':
-				// Check if conditional (has 'where' and 'updates')
-				if (operation.where && operation.updates) {
-					// Conditional SET uses UPDATE_WHERE: FOR items WHERE ... SET field value
-					return executeUpdateWhere(data, path, operation.where, operation.updates);
-				}
-				return executeSet(data, path, operation.value);
-			case 'ADD':
-				return executeAdd(data, path, operation.value);
-			case 'DELETE':
-				return executeDelete(data, path);
-			case 'RENAME':
-				return executeRename(data, path, operation.to);
-			case 'INCREMENT':
-				return executeIncrement(data, path, operation.amount || 1);
-			case 'DECREMENT':
-				return executeDecrement(data, path, operation.amount || 1);
-			case 'APPEND':
-				return executeAppend(data, path, operation.value);
-			case 'PREPEND':
-				return executePrepend(data, path, operation.value);
-			case 'INSERT':
-				return executeInsertAt(data, path, operation.value, operation.index);
-			case 'INSERT_AFTER':
-				return executeInsertAfter(data, path, operation.value, operation.referenceValue);
-			case 'INSERT_BEFORE':
-				return executeInsertBefore(data, path, operation.value, operation.referenceValue);
-			case 'REMOVE':
-				// Check if conditional (has 'where')
-				if (operation.where) {
-					// Conditional REMOVE uses special handling - remove items matching WHERE
-					// This is v2.0 behavior: FOR items WHERE ... REMOVE
-					// Execute by iterating array and removing matching items
-					const result = executeUpdateWhere(data, path, operation.where, []);
-					// Empty updates array means "remove the item"
-					// Return with appropriate changes message
-					return {
-						...result,
-						changes: result.changes.map(c => c.replace('UPDATE_WHERE', 'REMOVE WHERE'))
-					};
-				}
-				return executeRemove(data, path, operation.value);
-			case 'REMOVE_ALL':
-				return executeRemoveAll(data, path, operation.value);
-			case 'REMOVE_AT':
-				return executeRemoveAt(data, path, operation.index);
-			case 'REPLACE':
-				return executeReplace(data, path, operation.oldValue, operation.newValue);
-			case 'REPLACE_ALL':
-				return executeReplaceAll(data, path, operation.oldValue, operation.newValue);
-			case 'DEDUPLICATE':
-				return executeDeduplicate(data, path);
-			case 'SORT':
-				// Check if it's SORT BY (has 'by' field)
-				if (operation.by) {
-					return executeSortBy(data, path, operation.by, operation.order || 'ASC');
-				}
-				return executeSort(data, path, operation.order || 'ASC');
-			case 'MOVE':
-				// Check if conditional (has 'where') or index-based (has 'from')
-				if (operation.where) {
-					return executeMoveWhere(data, path, operation.where, operation.to);
-				}
-				return executeMove(data, path, operation.from, operation.to);
-			case 'MERGE':
-				return executeMerge(data, path, operation.value);
-			case 'MERGE_OVERWRITE':
-				return executeMergeOverwrite(data, path, operation.value);
-			default:
-				return {
-					success: false,
-					modified: false,
-					changes: [],
-					error: `Unknown v2.0 operation: ${operation.type}`,
-				};
+		const path = formatPath(v2ast.target.segments);
+
+		if (hasWildcards(path)) {
+			return executeOnEachMatch(v2ast.operation, data, path, context);
 		}
+		return executeOperation(v2ast.operation, data, path, context);
 	}
 
 	// If we get here, AST is invalid
@@ -244,3 +280,150 @@ export function executeAction(ast: ActionAST, data: any): import('../types').Act
 		error: `Invalid AST structure - expected v2.0 format with type='action'`,
 	};
 }
+
+/**
+ * Apply an operation to every location a wildcard/filter path matches
+ *
+ * DELETE runs from the last match backwards so removing array items does
+ * not shift the indices of the matches still to come. The first error stops
+ * the run; warnings of all matches are collected.
+ */
+function executeOnEachMatch(operation: any, data: any, path: string, context?: ExpressionContext): ActionResult {
+	const paths = expandPath(data, path);
+	const ordered = operation.type === 'DELETE' ? [...paths].reverse() : paths;
+
+	const results: ActionResult[] = [];
+	for (const concretePath of ordered) {
+		const result = executeOperation(operation, data, concretePath, context);
+		results.push(result);
+		if (!result.success) break;
+	}
+	if (operation.type === 'DELETE') {
+		results.reverse();
+	}
+
+	const warnings = results.map(result => result.warning).filter(Boolean);
+	const failed = results.find(result => !result.success);
+	return {
+		success: !failed,
+		modified: results.some(result => result.modified),
+		changes: results.flatMap(result => result.changes),
+		warning: warnings.length > 0 ? warnings.join('; ') : undefined,
+		error: failed?.error,
+	};
+}
+
+/**
+ * Run one v2.0 operation on a concrete path
+ */
+function executeOperation(operation: any, data: any, path: string, context?: ExpressionContext): ActionResult {
+	switch (operation.type) {
+		case 'SET':
+			// Check if conditional (has 'where' and 'updates')
+			if (operation.where && operation.updates) {
+				// Conditional SET uses UPDATE_WHERE: FOR items WHERE ... SET field value
+				return executeUpdateWhere(data, path, operation.where, operation.updates);
+			}
+			if (operation.expression) {
+				return executeSetExpression(data, path, operation.expression, context);
+			}
+			return executeSet(data, path, operation.value);
+		case 'ADD':
+			if (operation.expression) {
+				return executeAddExpression(data, path, operation.expression, context);
+			}
+			return executeAdd(data, path, operation.value);
+		case 'DELETE':
+			return executeDelete(data, path);
+		case 'RENAME':
+			return executeRename(data, path, operation.to);
+		case 'INCREMENT':
+			return executeIncrement(data, path, operation.amount || 1);
+		case 'DECREMENT':
+			return executeDecrement(data, path, operation.amount || 1);
+		case 'SHIFT':
+			return executeShift(data, path, operation.duration);
+		case 'FORMAT':
+			return executeFormatDate(data, path, operation.format);
+		case 'TRANSFORM':
+			return executeTransform(data, path, operation.transform);
+		case 'REGEX_REPLACE':
+			return executeRegexReplace(data, path, operation.pattern, operation.replacement);
+		case 'SPLIT':
+			return executeSplit(data, path, operation.separator, operation.regex);
+		case 'JOIN':
+			return executeJoin(data, path, operation.separator);
+		case 'CONVERT':
+			return executeConvert(data, path, operation.to, operation.mode);
+		case 'RENAME_KEYS':
+			return executeRenameKeys(data, path, operation.pattern, operation.replacement, operation.regex);
+		case 'NORMALIZE_KEYS':
+			return executeNormalizeKeys(data, path, operation.style);
+		case 'DELETE_KEYS':
+			return executeDeleteKeys(data, path, operation.pattern, operation.regex);
+		case 'KEEP_ONLY':
+			return executeKeepOnly(data, path, operation.keys);
+		case 'REORDER_KEYS':
+			return executeReorderKeys(data, path, operation.order);
+		case 'SORT_KEYS':
+			return executeSortKeys(data, path, operation.order);
+		case 'APPEND':
+			return executeAppend(data, path, operation.value);
+		case 'PREPEND':
+			return executePrepend(data, path, operation.value);
+		case 'INSERT':
+			return executeInsertAt(data, path, operation.value, operation.index);
+		case 'INSERT_AFTER':
+			return executeInsertAfter(data, path, operation.value, operation.referenceValue);
+		case 'INSERT_BEFORE':
+			return executeInsertBefore(data, path, operation.value, operation.referenceValue);
+		case 'REMOVE':
+			// Check if conditional (has 'where')
+			if (operation.where) {
+				// Conditional REMOVE uses special handling - remove items matching WHERE
+				// This is v2.0 behavior: FOR items WHERE ... REMOVE
+				// Execute by iterating array and removing matching items
+				const result = executeUpdateWhere(data, path, operation.where, []);
+				// Empty updates array means "remove the item"
+				// Return with appropriate changes message
+				return {
+					...result,
+					changes: result.changes.map(c => c.replace('UPDATE_WHERE', 'REMOVE WHERE'))
+				};
+			}
+			return executeRemove(data, path, operation.value);
+		case 'REMOVE_ALL':
+			return executeRemoveAll(data, path, operation.value);
+		case 'REMOVE_AT':
+			return executeRemoveAt(data, path, operation.index);
+		case 'REPLACE':
+			return executeReplace(data, path, operation.oldValue, operation.newValue);
+		case 'REPLACE_ALL':
+			return executeReplaceAll(data, path, operation.oldValue, operation.newValue);
+		case 'DEDUPLICATE':
+			return executeDeduplicate(data, path);
+		case 'SORT':
+			// Check if it's SORT BY (has 'by' field)
+			if (operation.by) {
+				return executeSortBy(data, path, operation.by, operation.order || 'ASC');
+			}
+			return executeSort(data, path, operation.order || 'ASC');
+		case 'MOVE':
+			// Check if conditional (has 'where') or index-based (has 'from')
+			if (operation.where) {
+				return executeMoveWhere(data, path, operation.where, operation.to);
+			}
+			return executeMove(data, path, operation.from, operation.to);
+		case 'MERGE':
+			return executeMerge(data, path, operation.value);
+		case 'MERGE_OVERWRITE':
+			return executeMergeOverwrite(data, path, operation.value);
+		default:
+			return {
+				success: false,
+				modified: false,
+				changes: [],
+				error: `Unknown v2.0 operation: ${operation.type}`,
+			};
+	}
+}
@@ -0,0 +1,108 @@
+/**
+ * Rule Runner - Run saved rules and playbooks end to end
+ *
+ * Flow: Scan scope → Process (preview or apply) → Log → Record last run
+ */
+
+import { Plugin } from 'obsidian';
+import { Playbook, PluginData, Rule } from '../types';
+import { scanFiles, getCurrentFile } from './fileScanner';
+import { processBatch, processPlaybook, BatchResult, PlaybookStep } from './batchProcessor';
+import { createLogger, generateLogPath, pruneLogs, Logger } from './logger';
+import { getPlaybookRules, loadPluginData, updateLastRun, updatePlaybookLastRun } from '../storage/ruleStorage';
+
+/** Plugin instance with its loaded data */
+export type RunnerPlugin = Plugin & { data: PluginData };
+
+export interface RunOptions {
+	/** If true, preview changes without writing to disk (dry-run) */
+	dryRun?: boolean;
+}
+
+/**
+ * Run a saved rule on its stored scope
+ *
+ * @throws Error if the scope cannot be resolved (e.g. no active note for 'current')
+ */
+export async function runRule(plugin: RunnerPlugin, rule: Rule, options: RunOptions = {}): Promise<BatchResult> {
+	const { app } = plugin;
+	const scanResult = await scanFiles(app.vault, rule.scope, {
+		timeout: plugin.data.settings.scanTimeout,
+		currentFile: rule.scope.type === 'current' ? getCurrentFile(app) : undefined,
+	});
+
+	if (options.dryRun) {
+		return processBatch(app, scanResult.matched, rule, undefined, { dryRun: true });
+	}
+
+	const logger = createLogger(app.vault, generateLogPath(app.vault));
+	logger.logStart(rule);
+	logger.logScan(scanResult.scanned, scanResult.matched.length);
+
+	const result = await processBatch(app, scanResult.matched, rule, undefined, { logger });
+
+	await closeLog(plugin, logger);
+	await updateLastRun(plugin, rule.id);
+	plugin.data = await loadPluginData(plugin);
+
+	return result;
+}
+
+/**
+ * Run a playbook: every rule in order, previewed or applied as a single run
+ *
+ * @throws Error if a rule is missing or a scope cannot be resolved (e.g. no active note)
+ */
+export async function runPlaybook(
+	plugin: RunnerPlugin,
+	playbook: Playbook,
+	options: RunOptions = {}
+): Promise<BatchResult> {
+	const { app } = plugin;
+	const rules = getPlaybookRules(plugin.data, playbook);
+	const currentFile = rules.some(rule => rule.scope.type === 'current') ? getCurrentFile(app) : undefined;
+
+	const steps: PlaybookStep[] = [];
+	let scanned = 0;
+	for (const rule of rules) {
+		const scanResult = await scanFiles(app.vault, rule.scope, {
+			timeout: plugin.data.settings.scanTimeout,
+			currentFile,
+		});
+		steps.push({ rule, files: scanResult.matched });
+		scanned += scanResult.scanned;
+	}
+
+	if (options.dryRun) {
+		return processPlaybook(app, playbook, steps, { dryRun: true });
+	}
+
+	const matched = new Set(([] as string[]).concat(...steps.map(step => step.files.map(file => file.path))));
+	const logger = createLogger(app.vault, generateLogPath(app.vault));
+	logger.logPlaybookStart(playbook, rules);
+	logger.logScan(scanned, matched.size);
+
+	const result = await processPlaybook(app, playbook, steps, { logger });
+
+	await closeLog(plugin, logger);
+	await updatePlaybookLastRun(plugin, playbook.id);
+	plugin.data = await loadPluginData(plugin);
+
+	return result;
+}
+
+/**
+ * Write the operation log and apply log retention
+ * Changes are already written - a logging failure must not be reported as a failed run
+ */
+async function closeLog(plugin: RunnerPlugin, logger: Logger): Promise<void> {
+	try {
+		await logger.close();
+		await pruneLogs(plugin.app.vault, {
+			maxCount: plugin.data.settings.logRetentionCount,
+			maxAgeDays: plugin.data.settings.logRetentionDays,
+		});
+	} catch (logError) {
+		console.warn('Failed to write operation log:', logError);
+	}
+}
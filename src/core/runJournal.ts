@@ -0,0 +1,232 @@
+/**
+ * Run Journal - Record applied batch runs so they can be undone
+ *
+ * Every non-dry-run batch stores the original and written content of each
+ * modified file in <plugin folder>/journal/<runId>.json.
+ * A run can later be reverted as a whole; files edited after the run are
+ * reported as conflicts and left alone unless the revert is forced.
+ *
+ * Automatic runs of triggered rules are retained separately, so frequent
+ * edits cannot push manual runs out of the undo history.
+ */
+
+import { App, TFile, Vault } from 'obsidian';
+import { Rule, RunRecord, RunFileEntry, RevertResult } from '../types';
+import { LIMITS } from '../constants';
+import { recordOwnWrite } from './writeTracker';
+import { getPluginDir } from './pluginDir';
+
+/**
+ * Folder of the undo journal
+ */
+export function getJournalDir(vault: Vault): string {
+	return `${getPluginDir(vault)}/journal`;
+}
+
+export interface RunJournal {
+	/** ID of the run being recorded */
+	readonly runId: string;
+	/** Record a file that was modified by this run */
+	recordFile(file: TFile, originalContent: string, newContent: string): void;
+	/** Persist the journal (no-op when no files were recorded) */
+	close(): Promise<RunRecord | null>;
+}
+
+export interface RevertOptions {
+	/** Revert files even if they were changed after the run */
+	force?: boolean;
+}
+
+/**
+ * Generate unique run ID
+ */
+export function generateRunId(): string {
+	return `run-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Create a journal for a batch run of a rule (or playbook)
+ *
+ * @param automatic - The run was started by a trigger, not by the user
+ */
+export function createRunJournal(
+	vault: Vault,
+	rule: Pick<Rule, 'id' | 'name'>,
+	runId: string = generateRunId(),
+	automatic = false
+): RunJournal {
+	const files: RunFileEntry[] = [];
+
+	return {
+		runId,
+
+		recordFile(file: TFile, originalContent: string, newContent: string): void {
+			files.push({ path: file.path, originalContent, newContent });
+		},
+
+		async close(): Promise<RunRecord | null> {
+			if (files.length === 0) {
+				return null;
+			}
+
+			const record: RunRecord = {
+				runId,
+				ruleId: rule.id,
+				ruleName: rule.name,
+				timestamp: new Date().toISOString(),
+				files,
+			};
+			if (automatic) {
+				record.automatic = true;
+			}
+
+			await writeRunRecord(vault, record);
+			await pruneRuns(vault, automatic);
+
+			return record;
+		},
+	};
+}
+
+/**
+ * List recorded runs, newest first
+ */
+export async function listRuns(vault: Vault): Promise<RunRecord[]> {
+	const journalDir = getJournalDir(vault);
+	if (!(await vault.adapter.exists(journalDir))) {
+		return [];
+	}
+
+	const listing = await vault.adapter.list(journalDir);
+	const records: RunRecord[] = [];
+
+	for (const path of listing.files) {
+		if (!path.endsWith('.json')) continue;
+
+		try {
+			records.push(JSON.parse(await vault.adapter.read(path)));
+		} catch (e) {
+			// Skip corrupted journal entries
+			console.warn(`Skipping unreadable run journal ${path}:`, e);
+		}
+	}
+
+	return records.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * Load a single run by ID
+ */
+export async function loadRun(vault: Vault, runId: string): Promise<RunRecord | null> {
+	const path = getRunPath(vault, runId);
+	if (!(await vault.adapter.exists(path))) {
+		return null;
+	}
+	return JSON.parse(await vault.adapter.read(path));
+}
+
+/**
+ * Get the most recent run that has not been reverted yet
+ */
+export async function getLastRun(vault: Vault): Promise<RunRecord | null> {
+	const runs = await listRuns(vault);
+	return runs.find(run => !run.revertedAt) || null;
+}
+
+/**
+ * Revert a run, restoring every file it modified to its original content
+ *
+ * Files whose current content differs from what the run wrote are conflicts.
+ * Without `force`, any conflict aborts the revert and nothing is written.
+ */
+export async function revertRun(app: App, runId: string, options: RevertOptions = {}): Promise<RevertResult> {
+	const record = await loadRun(app.vault, runId);
+	if (!record) {
+		throw new Error(`Run not found: ${runId}`);
+	}
+	if (record.revertedAt) {
+		throw new Error(`Run already reverted: ${runId}`);
+	}
+
+	const result: RevertResult = { runId, reverted: [], conflicts: [], errors: [] };
+
+	// Check every file before touching anything so a refused revert is all-or-nothing
+	for (const entry of record.files) {
+		const current = await readCurrentContent(app.vault, entry.path);
+		if (current !== entry.newContent) {
+			result.conflicts.push(entry.path);
+		}
+	}
+
+	if (result.conflicts.length > 0 && !options.force) {
+		return result;
+	}
+
+	for (const entry of record.files) {
+		try {
+			await restoreContent(app.vault, entry.path, entry.originalContent);
+			result.reverted.push(entry.path);
+		} catch (error) {
+			result.errors.push({
+				path: entry.path,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			});
+		}
+	}
+
+	record.revertedAt = new Date().toISOString();
+	await writeRunRecord(app.vault, record);
+
+	return result;
+}
+
+/**
+ * Journal file path for a run ID
+ */
+function getRunPath(vault: Vault, runId: string): string {
+	if (!/^[\w-]+$/.test(runId)) {
+		throw new Error(`Invalid run ID: ${runId}`);
+	}
+	return `${getJournalDir(vault)}/${runId}.json`;
+}
+
+async function writeRunRecord(vault: Vault, record: RunRecord): Promise<void> {
+	const journalDir = getJournalDir(vault);
+	if (!(await vault.adapter.exists(journalDir))) {
+		try {
+			await vault.adapter.mkdir(journalDir);
+		} catch (e) {
+			// Directory may already exist
+		}
+	}
+	await vault.adapter.write(getRunPath(vault, record.runId), JSON.stringify(record));
+}
+
+/**
+ * Remove the oldest manual or automatic runs beyond their retention limit
+ */
+async function pruneRuns(vault: Vault, automatic: boolean): Promise<void> {
+	const maxRuns = automatic ? LIMITS.MAX_AUTOMATIC_JOURNAL_RUNS : LIMITS.MAX_JOURNAL_RUNS;
+	const runs = (await listRuns(vault)).filter(run => (run.automatic ?? false) === automatic);
+	for (const run of runs.slice(maxRuns)) {
+		await vault.adapter.remove(getRunPath(vault, run.runId));
+	}
+}
+
+async function readCurrentContent(vault: Vault, path: string): Promise<string | null> {
+	const file = vault.getAbstractFileByPath(path);
+	if (!file) {
+		return null;
+	}
+	return vault.read(file as TFile);
+}
+
+async function restoreContent(vault: Vault, path: string, content: string): Promise<void> {
+	const file = vault.getAbstractFileByPath(path);
+	if (file) {
+		await vault.modify(file as TFile, content);
+	} else {
+		await vault.create(path, content);
+	}
+	recordOwnWrite(path, content);
+}
@@ -0,0 +1,141 @@
+/**
+ * Scheduler - Run rules on a schedule
+ *
+ * Due runs are derived from each rule's last run, so a run missed while
+ * Obsidian was closed is caught up once on the next start (not once per
+ * missed occurrence). A failed run counts as an attempt: the rule is retried
+ * at its next scheduled time, not on every check.
+ */
+
+import { Rule, RuleSchedule } from '../types';
+import { LIMITS } from '../constants';
+
+export interface SchedulerOptions {
+	/** Current saved rules */
+	getRules(): Rule[];
+	/** Whether automatic rules are paused */
+	isPaused(): boolean;
+	/** Run a rule on its stored scope (expected to record the run via updateLastRun) */
+	run(rule: Rule): Promise<void>;
+	/** Clock (default: current time) */
+	now?(): Date;
+	/** Check interval in milliseconds (default: LIMITS.SCHEDULE_CHECK_INTERVAL_MS) */
+	checkIntervalMs?: number;
+}
+
+export interface Scheduler {
+	/** Run startup rules, catch up missed runs and start checking periodically */
+	start(): Promise<void>;
+	/** Run every rule that is due now */
+	check(): Promise<void>;
+	/** Stop checking */
+	stop(): void;
+}
+
+/**
+ * Create a scheduler
+ */
+export function createScheduler(options: SchedulerOptions): Scheduler {
+	const now = options.now ?? (() => new Date());
+	const checkIntervalMs = options.checkIntervalMs ?? LIMITS.SCHEDULE_CHECK_INTERVAL_MS;
+	// Rules still running from a previous check are not started again
+	const running = new Set<string>();
+	// Time of the last failed run per rule (a failure records no lastUsed)
+	const failedAt = new Map<string, Date>();
+	let timer: ReturnType<typeof setInterval> | undefined;
+
+	async function runAll(rules: Rule[]): Promise<void> {
+		for (const rule of rules) {
+			if (options.isPaused() || running.has(rule.id)) continue;
+
+			running.add(rule.id);
+			try {
+				await options.run(rule);
+				failedAt.delete(rule.id);
+			} catch (error) {
+				failedAt.set(rule.id, now());
+				console.warn(`Scheduled rule "${rule.name}" failed:`, error);
+			} finally {
+				running.delete(rule.id);
+			}
+		}
+	}
+
+	async function check(): Promise<void> {
+		const time = now();
+		await runAll(options.getRules().filter(rule => rule.schedule && isScheduleDue(rule, time, failedAt.get(rule.id))));
+	}
+
+	return {
+		async start(): Promise<void> {
+			await runAll(options.getRules().filter(rule => rule.schedule?.type === 'startup'));
+			await check();
+			timer = setInterval(() => {
+				check();
+			}, checkIntervalMs);
+		},
+
+		check,
+
+		stop(): void {
+			clearInterval(timer);
+			timer = undefined;
+		},
+	};
+}
+
+/**
+ * Check whether a scheduled rule is due
+ * Startup schedules are never due on a periodic check - they run once per start
+ *
+ * @param lastAttempt - Failed run after the last recorded run, if any
+ */
+export function isScheduleDue(rule: Rule, now: Date, lastAttempt?: Date): boolean {
+	let lastRun = new Date(rule.lastUsed ?? rule.created);
+	if (lastAttempt && lastAttempt.getTime() > lastRun.getTime()) {
+		lastRun = lastAttempt;
+	}
+	const dueAt = getNextRun(rule.schedule, lastRun);
+	return dueAt !== null && dueAt.getTime() <= now.getTime();
+}
+
+/**
+ * First scheduled run after a previous run, or null if the schedule has no next run
+ */
+export function getNextRun(schedule: RuleSchedule | undefined, lastRun: Date): Date | null {
+	if (!schedule || isNaN(lastRun.getTime())) return null;
+
+	switch (schedule.type) {
+		case 'interval':
+			if (!(schedule.hours > 0)) return null;
+			return new Date(lastRun.getTime() + schedule.hours * 60 * 60 * 1000);
+
+		case 'daily': {
+			const time = parseTimeOfDay(schedule.time);
+			if (!time) return null;
+			const next = new Date(lastRun.getTime());
+			next.setHours(time.hours, time.minutes, 0, 0);
+			if (next.getTime() <= lastRun.getTime()) {
+				next.setDate(next.getDate() + 1);
+			}
+			return next;
+		}
+
+		default:
+			return null;
+	}
+}
+
+/**
+ * Parse a local time of day (HH:mm, 24-hour clock)
+ */
+export function parseTimeOfDay(value: string): { hours: number; minutes: number } | null {
+	const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+	if (!match) return null;
+
+	const hours = parseInt(match[1], 10);
+	const minutes = parseInt(match[2], 10);
+	if (hours > 23 || minutes > 59) return null;
+
+	return { hours, minutes };
+}
@@ -2,12 +2,15 @@
  * Template Engine - Resolve template variables in action strings
  * Based on requirements Section 5.2
  *
- * Supports: {{today}}, {{filename}}, {{fm:field}}, {{date:FORMAT}}
+ * Supports: {{today}}, {{filename}}, {{fm:field}}, {{fm:project->client}}, {{date:FORMAT}},
+ * {{links.count}}, {{backlinks}}, {{embeds[0]}}, {{inlineTags}}
  */
 
 import { DateTime } from 'luxon';
 import { TFile, Vault } from 'obsidian';
-import { resolvePath } from '../parser/pathResolver';
+import { resolvePath, parsePathSegments, splitLinkPath } from '../parser/pathResolver';
+import { LinkResolver, NoteGraph } from '../types';
+import { isGraphField, resolveGraphField } from './noteGraph';
 
 /**
  * Sanitize a value for safe use in templates
@@ -28,6 +31,8 @@ export interface TemplateContext {
 	vault: Vault;
 	frontmatter: any;
 	currentDate?: DateTime;
+	graph?: NoteGraph;
+	linkResolver?: LinkResolver;
 }
 
 /**
@@ -118,29 +123,79 @@ function resolveVariable(variable: string, context: TemplateContext, date: DateT
 	// Frontmatter variables
 	if (variable.startsWith('fm:')) {
 		const field = variable.substring(3);
-		const value = resolvePath(context.frontmatter, field);
+		const [first, ...hops] = splitLinkPath(field);
+		const value = hops.length > 0
+			? followLink(context, field, first, hops)
+			: resolvePath(context.frontmatter, field);
 
 		if (value === undefined) {
 			throw new Error(`Frontmatter field not found: ${field}`);
 		}
 
-		// Convert value to string based on type and sanitize
-		let stringValue: string;
-
-		if (typeof value === 'string') {
-			stringValue = value;
-		} else if (typeof value === 'number' || typeof value === 'boolean') {
-			stringValue = String(value);
-		} else if (value === null) {
-			stringValue = 'null';
-		} else {
-			// For arrays and objects, use JSON
-			stringValue = JSON.stringify(value);
-		}
+		return stringifyValue(value);
+	}
 
-		// Sanitize the value for safe use
-		return sanitizeValue(stringValue);
+	// Note graph variables: {{links.count}}, {{backlinks}}, {{links[0]}}
+	if (context.graph) {
+		const segments = parseGraphPath(variable);
+		if (segments && isGraphField(segments)) {
+			const value = resolveGraphField(context.graph, segments, context.linkResolver);
+			if (value === undefined) {
+				throw new Error(`Note graph field not found: ${variable}`);
+			}
+			return stringifyValue(value);
+		}
 	}
 
 	throw new Error(`Unknown template variable: {{${variable}}}`);
 }
+
+/**
+ * Convert a resolved value to template text and sanitize it
+ */
+function stringifyValue(value: any): string {
+	let stringValue: string;
+
+	if (typeof value === 'string') {
+		stringValue = value;
+	} else if (typeof value === 'number' || typeof value === 'boolean') {
+		stringValue = String(value);
+	} else if (value === null) {
+		stringValue = 'null';
+	} else {
+		// For arrays and objects, use JSON
+		stringValue = JSON.stringify(value);
+	}
+
+	// Sanitize the value for safe use
+	return sanitizeValue(stringValue);
+}
+
+/**
+ * Resolve {{fm:project->client}} through the link resolver
+ * (an unresolved link fails with the resolver's warning)
+ */
+function followLink(context: TemplateContext, field: string, first: string, hops: string[]): any {
+	const resolver = context.linkResolver;
+	if (!resolver) {
+		throw new Error(`Cannot follow links without a vault: ${field}`);
+	}
+
+	const warningCount = resolver.warnings.length;
+	const value = resolver.follow(resolvePath(context.frontmatter, first), hops, field);
+	if (value === undefined && resolver.warnings.length > warningCount) {
+		throw new Error(resolver.warnings[resolver.warnings.length - 1]);
+	}
+	return value;
+}
+
+/**
+ * Parse a variable as a path, or null when it is not one
+ */
+function parseGraphPath(variable: string) {
+	try {
+		return parsePathSegments(variable);
+	} catch (e) {
+		return null;
+	}
+}
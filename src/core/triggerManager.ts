@@ -0,0 +1,172 @@
+/**
+ * Trigger Manager - Run rules automatically on vault events
+ *
+ * Events are debounced per note: a note's triggered rules run once the note
+ * has been quiet for LIMITS.TRIGGER_DEBOUNCE_MS, and only on that note.
+ * Modifications that are exactly the plugin's own last write are ignored so
+ * rules cannot trigger themselves.
+ *
+ * Triggered runs are journaled so they can be undone, under their own
+ * retention limit. They are logged only when they changed or failed on the
+ * note: most events leave the note alone, and a log per edit would push
+ * manual runs out of retention.
+ */
+
+import { App, TFile } from 'obsidian';
+import { Rule, RuleScope, TriggerEvent } from '../types';
+import { LIMITS } from '../constants';
+import { processBatch, BatchResult } from './batchProcessor';
+import { createLogger, generateLogPath, pruneLogs, LogRetention } from './logger';
+import { isInFolder } from './fileScanner';
+import { isOwnWrite } from './writeTracker';
+
+export interface TriggerManagerOptions {
+	app: App;
+	/** Current saved rules */
+	getRules(): Rule[];
+	/** Whether automatic rules are paused */
+	isPaused(): boolean;
+	/** Called after a triggered rule ran on a note */
+	onRun?(rule: Rule, result: BatchResult): void;
+	/** Log retention applied after a logged run (default: keep all logs) */
+	getLogRetention?(): LogRetention;
+	/** Quiet period in milliseconds (default: LIMITS.TRIGGER_DEBOUNCE_MS) */
+	debounceMs?: number;
+}
+
+export interface TriggerManager {
+	/** Queue a vault event for a note (oldPath is required for 'rename' and 'move') */
+	handleEvent(event: TriggerEvent, file: TFile, oldPath?: string): void;
+	/** Run all queued notes now instead of waiting for the quiet period */
+	flush(): Promise<void>;
+	/** Drop all queued events */
+	dispose(): void;
+}
+
+interface PendingNote {
+	events: Set<TriggerEvent>;
+	/** Path before the first move in the quiet period */
+	movedFrom?: string;
+	timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Create a trigger manager
+ */
+export function createTriggerManager(options: TriggerManagerOptions): TriggerManager {
+	const { app } = options;
+	const debounceMs = options.debounceMs ?? LIMITS.TRIGGER_DEBOUNCE_MS;
+	// Keyed by TFile: Obsidian keeps the same object across renames
+	const pending = new Map<TFile, PendingNote>();
+
+	async function runNote(file: TFile): Promise<void> {
+		const note = pending.get(file);
+		if (!note) return;
+		pending.delete(file);
+		clearTimeout(note.timer);
+
+		if (options.isPaused() || !app.vault.getAbstractFileByPath(file.path)) {
+			return;
+		}
+
+		if (note.events.has('modify') && isOwnWrite(file.path, await app.vault.read(file))) {
+			note.events.delete('modify');
+		}
+
+		for (const rule of getTriggeredRules(options.getRules(), file.path, note.events, note.movedFrom)) {
+			try {
+				const result = await runRule(rule, file);
+				options.onRun?.(rule, result);
+			} catch (error) {
+				console.warn(`Automatic rule "${rule.name}" failed on ${file.path}:`, error);
+			}
+		}
+	}
+
+	async function runRule(rule: Rule, file: TFile): Promise<BatchResult> {
+		const logger = createLogger(app.vault, generateLogPath(app.vault));
+		logger.logStart(rule);
+		logger.logScan(1, 1);
+
+		const result = await processBatch(app, [file], rule, undefined, { logger, automatic: true });
+
+		if (result.results.some(fileResult => fileResult.modified) || result.summary.errors > 0) {
+			// Changes are already written - a logging failure must not fail the run
+			try {
+				await logger.close();
+				const retention = options.getLogRetention?.();
+				if (retention) {
+					await pruneLogs(app.vault, retention);
+				}
+			} catch (logError) {
+				console.warn('Failed to write operation log:', logError);
+			}
+		}
+		return result;
+	}
+
+	return {
+		handleEvent(event: TriggerEvent, file: TFile, oldPath?: string): void {
+			if (options.isPaused()) return;
+
+			const note: PendingNote = pending.get(file) || { events: new Set() };
+			clearTimeout(note.timer);
+
+			note.events.add(event);
+			if (event === 'move' && note.movedFrom === undefined) {
+				note.movedFrom = oldPath;
+			}
+			note.timer = setTimeout(() => {
+				runNote(file);
+			}, debounceMs);
+			pending.set(file, note);
+		},
+
+		async flush(): Promise<void> {
+			for (const file of Array.from(pending.keys())) {
+				await runNote(file);
+			}
+		},
+
+		dispose(): void {
+			pending.forEach(note => clearTimeout(note.timer));
+			pending.clear();
+		},
+	};
+}
+
+/**
+ * Classify a vault rename: 'move' if the note changed folder, 'rename' otherwise
+ */
+export function getRenameEvent(newPath: string, oldPath: string): TriggerEvent {
+	const folderOf = (path: string) => path.substring(0, Math.max(path.lastIndexOf('/'), 0));
+	return folderOf(newPath) === folderOf(oldPath) ? 'rename' : 'move';
+}
+
+/**
+ * Rules triggered by a set of events on a note, in saved order
+ */
+export function getTriggeredRules(
+	rules: Rule[],
+	path: string,
+	events: Set<TriggerEvent>,
+	movedFrom?: string
+): Rule[] {
+	return rules.filter(rule => {
+		if (!rule.trigger || !isInScope(path, rule.scope)) return false;
+
+		return rule.trigger.events.some(event => {
+			if (!events.has(event)) return false;
+			// Moving only counts when the note arrives from outside the scope
+			if (event === 'move') return movedFrom !== undefined && !isInScope(movedFrom, rule.scope);
+			return true;
+		});
+	});
+}
+
+/**
+ * Check a path against a rule scope ('current' means the triggering note itself)
+ */
+function isInScope(path: string, scope: RuleScope): boolean {
+	return scope.type !== 'folder' || !scope.folder || isInFolder(path, scope.folder);
+}
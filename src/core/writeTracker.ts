@@ -0,0 +1,42 @@
+/**
+ * Write Tracker - Remember what the plugin itself wrote to each file
+ *
+ * Vault 'modify' events do not say who changed a file. Automatic rules check
+ * the current content against the last content written by the plugin so
+ * their own writes do not trigger them again (loop protection).
+ */
+
+/** Hash of the last content written by the plugin, by file path */
+const ownWrites = new Map<string, number>();
+
+/**
+ * Record content written to a file by the plugin
+ */
+export function recordOwnWrite(path: string, content: string): void {
+	ownWrites.set(path, hashContent(content));
+}
+
+/**
+ * Check whether a file's content is exactly what the plugin last wrote to it
+ */
+export function isOwnWrite(path: string, content: string): boolean {
+	return ownWrites.get(path) === hashContent(content);
+}
+
+/**
+ * Forget all recorded writes
+ */
+export function clearOwnWrites(): void {
+	ownWrites.clear();
+}
+
+/**
+ * djb2 string hash - keeps memory flat for large batches
+ */
+function hashContent(content: string): number {
+	let hash = 5381;
+	for (let i = 0; i < content.length; i++) {
+		hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+	}
+	return hash;
+}
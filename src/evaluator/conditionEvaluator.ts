@@ -15,17 +15,71 @@ import {
 	BooleanNode,
 	NotNode,
 	QuantifierNode,
+	InNode,
+	DateExpression,
+	ConditionContext,
 } from '../types';
-import { resolvePath, pathExists } from '../parser/pathResolver';
-import { LIMITS, DANGEROUS_REGEX_PATTERNS } from '../constants';
+import { DateTime } from 'luxon';
+import {
+	resolvePath,
+	parsePathSegments,
+	formatPath,
+	hasWildcards,
+	expandPath,
+	resolveAll,
+	isLinkPath,
+	splitLinkPath,
+} from '../parser/pathResolver';
+import { parseDate, compareDates, resolveDateExpression } from '../utils/dates';
+import { compileSafeRegex, runSafeRegex } from '../utils/regex';
+
+/**
+ * Node field holding the path, for nodes that support wildcard/filter paths
+ * (CONTAINS handles wildcards itself)
+ */
+const PATH_FIELDS: Partial<Record<ConditionAST['type'], string>> = {
+	comparison: 'left',
+	existence: 'path',
+	type_check: 'path',
+	empty_check: 'path',
+	has: 'path',
+	in: 'path',
+	quantifier: 'array',
+};
+
+/** Key of the condition context in the scope, a symbol so wildcards and ** do not see it */
+const CONTEXT = Symbol('conditionContext');
 
 /**
  * Evaluate a condition AST against data
+ *
+ * A condition on a wildcard/filter path (tasks[*].status = "done") matches if
+ * it matches at any of the locations; use NOT for "all" (NOT tasks[*].status != "done").
+ *
+ * With a context, `file`, `body` and the note graph fields (links,
+ * backlinks, embeds, inlineTags) are reserved names: file.mtime,
+ * body.headings, links.count, ... read the context even if the frontmatter
+ * has such keys, and a bare `body` is the note text. With a link resolver,
+ * `project->status` reads status in the note the project field links to.
+ *
  * @param ast - Parsed condition AST
  * @param data - Frontmatter data object
+ * @param context - File metadata and note body of the frontmatter
  * @returns true if condition matches, false otherwise
  */
-export function evaluateCondition(ast: ConditionAST, data: any): boolean {
+export function evaluateCondition(ast: ConditionAST, data: any, context?: ConditionContext): boolean {
+	if (context) {
+		return evaluateCondition(ast, { ...data, [CONTEXT]: context });
+	}
+
+	const pathField = PATH_FIELDS[ast.type];
+	const path = pathField ? (ast as any)[pathField] : undefined;
+	if (typeof path === 'string' && isWildcardPath(data, path)) {
+		return expandPath(data, path).some(concretePath =>
+			evaluateCondition({ ...ast, [pathField as string]: concretePath } as ConditionAST, data)
+		);
+	}
+
 	switch (ast.type) {
 		case 'comparison':
 			return evaluateComparison(ast, data);
@@ -52,11 +106,48 @@ export function evaluateCondition(ast: ConditionAST, data: any): boolean {
 	}
 }
 
+/**
+ * Check for a wildcard/filter path that is matched location by location
+ * (link paths and note graph fields resolve to the values of all matches instead)
+ */
+function isWildcardPath(data: any, path: string): boolean {
+	if (isLinkPath(path) || !hasWildcards(path)) {
+		return false;
+	}
+	const context: ConditionContext | undefined = data?.[CONTEXT];
+	return !context?.graph?.isGraphField(path);
+}
+
+/**
+ * Resolve a path in the data, or in the context for file.*, body(.*), the note graph and link paths
+ */
+function resolveField(data: any, path: string): any {
+	const context: ConditionContext | undefined = data?.[CONTEXT];
+	const [first, ...hops] = splitLinkPath(path);
+	if (hops.length > 0) {
+		return context?.linkResolver?.follow(resolveField(data, first), hops, path);
+	}
+	if (context) {
+		const [head, ...rest] = parsePathSegments(path);
+		const namespace = head?.type === 'property' ? head.key : undefined;
+		if (namespace === 'file' && context.file) {
+			return rest.length === 0 ? context.file : resolvePath(context.file, formatPath(rest));
+		}
+		if (namespace === 'body' && context.body) {
+			return rest.length === 0 ? context.body.text : resolvePath(context.body, formatPath(rest));
+		}
+		if (context.graph?.isGraphField(path)) {
+			return context.graph.resolve(path);
+		}
+	}
+	return resolvePath(data, path);
+}
+
 /**
  * Evaluate comparison: path op value
  */
 function evaluateComparison(node: ComparisonNode, data: any): boolean {
-	const leftValue = resolvePath(data, node.left);
+	const leftValue = resolveField(data, node.left);
 
 	// If path doesn't exist, comparison fails (except for != which returns true)
 	if (leftValue === undefined) {
@@ -65,6 +156,17 @@ function evaluateComparison(node: ComparisonNode, data: any): boolean {
 
 	const rightValue = node.right;
 
+	if (node.operator !== '~') {
+		const order = compareAsDates(leftValue, rightValue, node.operator);
+		if (order === null) {
+			// Compared against a date but the field is not one
+			return node.operator === '!=';
+		}
+		if (order !== undefined) {
+			return matchesOrder(node.operator, order);
+		}
+	}
+
 	switch (node.operator) {
 		case '=':
 			// Use loose equality to handle common type coercions (e.g., "1984" == 1984)
@@ -72,39 +174,13 @@ function evaluateComparison(node: ComparisonNode, data: any): boolean {
 		case '!=':
 			return leftValue != rightValue;
 		case '>':
-			// Support both number and string comparison (for dates)
-			if (typeof leftValue === 'number' && typeof rightValue === 'number') {
-				return leftValue > rightValue;
-			}
-			if (typeof leftValue === 'string' && typeof rightValue === 'string') {
-				return leftValue > rightValue;
-			}
-			return false;
 		case '<':
-			// Support both number and string comparison (for dates)
-			if (typeof leftValue === 'number' && typeof rightValue === 'number') {
-				return leftValue < rightValue;
-			}
-			if (typeof leftValue === 'string' && typeof rightValue === 'string') {
-				return leftValue < rightValue;
-			}
-			return false;
 		case '>=':
-			// Support both number and string comparison (for dates)
-			if (typeof leftValue === 'number' && typeof rightValue === 'number') {
-				return leftValue >= rightValue;
-			}
-			if (typeof leftValue === 'string' && typeof rightValue === 'string') {
-				return leftValue >= rightValue;
-			}
-			return false;
 		case '<=':
-			// Support both number and string comparison (for dates)
-			if (typeof leftValue === 'number' && typeof rightValue === 'number') {
-				return leftValue <= rightValue;
-			}
-			if (typeof leftValue === 'string' && typeof rightValue === 'string') {
-				return leftValue <= rightValue;
+			// Support both number and string comparison
+			if ((typeof leftValue === 'number' && typeof rightValue === 'number') ||
+				(typeof leftValue === 'string' && typeof rightValue === 'string')) {
+				return matchesOrder(node.operator, leftValue < rightValue ? -1 : leftValue > rightValue ? 1 : 0);
 			}
 			return false;
 		case '~':
@@ -115,75 +191,73 @@ function evaluateComparison(node: ComparisonNode, data: any): boolean {
 }
 
 /**
- * Evaluate regex matching with ReDoS protection
+ * Compare both sides as dates when the comparison is about dates
+ *
+ * Dates are compared when the right side is a date expression (2024-02-01,
+ * today - 7d), when either side is a Date value, or, for ordering operators,
+ * when both sides are strings that parse as dates ("2024-2-1" < "2024-01-15").
+ *
+ * @returns order (negative, 0, positive), null if the right side is a date but
+ *          the field is not, or undefined if this is not a date comparison
  */
-function evaluateRegex(value: any, pattern: string): boolean {
-	// Convert value to string for regex matching
-	const strValue = String(value);
-
-	// Parse regex pattern (format: /pattern/flags)
-	const match = pattern.match(/^\/(.+?)\/([gimsuvy]*)$/);
-	if (!match) {
-		throw new Error(`Invalid regex pattern: ${pattern}`);
+function compareAsDates(leftValue: any, rightValue: any, operator: ComparisonNode['operator']): number | null | undefined {
+	if (isDateExpression(rightValue)) {
+		const left = parseDate(leftValue);
+		return left ? compareDates(left, resolveDateExpression(rightValue)) : null;
 	}
 
-	const [, regexPattern, flags] = match;
-
-	// Validate regex pattern length to prevent ReDoS
-	if (regexPattern.length > LIMITS.MAX_REGEX_LENGTH) {
-		throw new Error(
-			`Regex pattern too long (max ${LIMITS.MAX_REGEX_LENGTH} characters): ${regexPattern.substring(0, 50)}...`
-		);
-	}
-
-	// Check for dangerous patterns that could cause ReDoS
-	for (const dangerousPattern of DANGEROUS_REGEX_PATTERNS) {
-		if (dangerousPattern.test(regexPattern)) {
-			throw new Error(
-				`Potentially unsafe regex pattern detected (could cause performance issues): ${regexPattern}`
-			);
-		}
+	const isDateValue = (value: any) => value instanceof Date || DateTime.isDateTime(value);
+	const isOrdering = operator !== '=' && operator !== '!=';
+	if (!isOrdering && !isDateValue(leftValue) && !isDateValue(rightValue)) {
+		return undefined;
 	}
 
-	try {
-		const regex = new RegExp(regexPattern, flags);
-
-		// Execute regex with timeout protection
-		const startTime = Date.now();
-		let timedOut = false;
-
-		// Set timeout handler
-		const timeoutId = setTimeout(() => {
-			timedOut = true;
-		}, LIMITS.REGEX_TIMEOUT_MS);
-
-		try {
-			const result = regex.test(strValue);
+	const left = parseDate(leftValue);
+	const right = parseDate(rightValue);
+	return left && right ? compareDates(left, right) : undefined;
+}
 
-			// Check if we timed out during execution
-			if (timedOut || Date.now() - startTime > LIMITS.REGEX_TIMEOUT_MS) {
-				throw new Error(
-					`Regex execution timeout (exceeded ${LIMITS.REGEX_TIMEOUT_MS}ms). Pattern may be too complex: ${regexPattern}`
-				);
-			}
+function isDateExpression(value: any): value is DateExpression {
+	return typeof value === 'object' && value !== null && value.type === 'date' && Array.isArray(value.offsets);
+}
 
-			return result;
-		} finally {
-			clearTimeout(timeoutId);
-		}
-	} catch (e) {
-		if (e instanceof Error && e.message.includes('timeout')) {
-			throw e;
-		}
-		throw new Error(`Invalid regex: ${pattern}`);
+/**
+ * Apply a comparison operator to an order (negative, 0, positive)
+ */
+function matchesOrder(operator: ComparisonNode['operator'], order: number): boolean {
+	switch (operator) {
+		case '=':
+			return order === 0;
+		case '!=':
+			return order !== 0;
+		case '>':
+			return order > 0;
+		case '<':
+			return order < 0;
+		case '>=':
+			return order >= 0;
+		case '<=':
+			return order <= 0;
+		default:
+			return false;
 	}
 }
 
+/**
+ * Evaluate regex matching with ReDoS protection
+ */
+function evaluateRegex(value: any, pattern: string): boolean {
+	// Convert value to string for regex matching
+	const strValue = String(value);
+	const regex = compileSafeRegex(pattern);
+	return runSafeRegex(regex, r => r.test(strValue));
+}
+
 /**
  * Evaluate existence check: path exists / path !exists
  */
 function evaluateExistence(node: ExistenceNode, data: any): boolean {
-	const exists = pathExists(data, node.path);
+	const exists = resolveField(data, node.path) !== undefined;
 	return node.operator === 'exists' ? exists : !exists;
 }
 
@@ -191,7 +265,7 @@ function evaluateExistence(node: ExistenceNode, data: any): boolean {
  * Evaluate type check: path :type
  */
 function evaluateTypeCheck(node: TypeCheckNode, data: any): boolean {
-	const value = resolvePath(data, node.path);
+	const value = resolveField(data, node.path);
 
 	// Non-existent paths fail type checks
 	if (value === undefined) {
@@ -219,6 +293,9 @@ function evaluateTypeCheck(node: TypeCheckNode, data: any): boolean {
 		case 'null':
 			matches = value === null;
 			break;
+		case 'date':
+			matches = parseDate(value) !== null;
+			break;
 	}
 
 	return node.negated ? !matches : matches;
@@ -235,7 +312,7 @@ function evaluateTypeCheck(node: TypeCheckNode, data: any): boolean {
  * - Empty object {}: empty = true, !empty = false
  */
 function evaluateEmptyCheck(node: EmptyCheckNode, data: any): boolean {
-	const value = resolvePath(data, node.path);
+	const value = resolveField(data, node.path);
 
 	// Non-existent fields: empty = false
 	if (value === undefined) {
@@ -264,7 +341,7 @@ function evaluateEmptyCheck(node: EmptyCheckNode, data: any): boolean {
  * Evaluate has operator: array has value
  */
 function evaluateHas(node: HasNode, data: any): boolean {
-	const array = resolvePath(data, node.path);
+	const array = resolveField(data, node.path);
 
 	// Non-existent or non-array: has = false
 	if (!Array.isArray(array)) {
@@ -281,49 +358,25 @@ function evaluateHas(node: HasNode, data: any): boolean {
  * Evaluate contains: path[*].field CONTAINS value
  * Checks if ANY item in an array has a field containing the value
  * Supports wildcard syntax: tasks[*].assignee CONTAINS "bob"
+ * On text it checks for a substring (case-sensitive): body CONTAINS "meeting"
  */
 function evaluateContains(node: any, data: any): boolean {
 	const path = node.path;
 
-	// Check if path contains [*] wildcard
-	if (path.includes('[*]')) {
-		// Parse path: "tasks[*].assignee" => { arrayPath: "tasks", field: "assignee" }
-		const wildcardMatch = path.match(/^([^[]+)\[\*\]\.(.+)$/);
-
-		if (wildcardMatch) {
-			const [, arrayPath, field] = wildcardMatch;
-			const array = resolvePath(data, arrayPath);
-
-			if (!Array.isArray(array)) {
-				return false;
-			}
-
-			// Check if ANY item in array has the field value matching
-			return array.some(item => {
-				if (typeof item === 'object' && item !== null) {
-					return item[field] === node.value;
-				}
-				return false;
-			});
-		}
-
-		// If no match on the wildcard pattern, just check simple [*] (no field accessor)
-		// e.g., "array[*]" CONTAINS value
-		const simpleWildcard = path.match(/^([^[]+)\[\*\]$/);
-		if (simpleWildcard) {
-			const [, arrayPath] = simpleWildcard;
-			const array = resolvePath(data, arrayPath);
-
-			if (!Array.isArray(array)) {
-				return false;
-			}
-
-			return array.includes(node.value);
-		}
+	// Wildcard/filter path: any matched value equals or (as an array) includes the value
+	if (isWildcardPath(data, path)) {
+		return resolveAll(data, path).some(({ value }) =>
+			value === node.value || (Array.isArray(value) && value.includes(node.value))
+		);
 	}
 
 	// No wildcard - resolve normally
-	const value = resolvePath(data, path);
+	const value = resolveField(data, path);
+
+	// Text: substring check (body CONTAINS "meeting")
+	if (typeof value === 'string') {
+		return typeof node.value === 'string' && value.includes(node.value);
+	}
 
 	// If path doesn't exist or isn't an array, return false
 	if (!Array.isArray(value)) {
@@ -339,14 +392,14 @@ function evaluateContains(node: any, data: any): boolean {
  * Evaluate in: value IN array
  * Checks if value is in the provided array
  */
-function evaluateIn(node: any, data: any): boolean {
-	const leftValue = resolvePath(data, node.path);
-	const arrayValue = node.array;
-	
+function evaluateIn(node: InNode, data: any): boolean {
+	const leftValue = resolveField(data, node.path);
+	const arrayValue = node.values;
+
 	if (!Array.isArray(arrayValue)) {
 		return false;
 	}
-	
+
 	return arrayValue.includes(leftValue);
 }
 
@@ -375,7 +428,7 @@ function evaluateNot(node: NotNode, data: any): boolean {
  * Evaluate quantifier: ANY / ALL
  */
 function evaluateQuantifier(node: QuantifierNode, data: any): boolean {
-	const array = resolvePath(data, node.array);
+	const array = resolveField(data, node.array);
 
 	// Non-existent or non-array: return false
 	if (!Array.isArray(array)) {
@@ -0,0 +1,453 @@
+/**
+ * Expression Evaluator - Compute values for "SET field = expression"
+ *
+ * Expressions read other fields of the same frontmatter and produce typed
+ * values: numbers stay numbers, arrays stay arrays. Dates are computed with
+ * luxon and written back in the shape of the field they came from.
+ *
+ * Typing rules:
+ * - `+` adds numbers, concatenates strings (if either side is a string) and
+ *   arrays (a non-array side is added as an item), and shifts dates by durations
+ * - `-` subtracts numbers, shifts dates back, and gives days between two dates
+ * - `*`, `/`, `%` need numbers
+ * - Comparisons compare numbers, strings and dates and give booleans
+ *
+ * Aggregates (sum, count, min, max, avg, list) take a list, typically values
+ * of linked notes from the expression context: SUM(backlinks.estimate),
+ * COUNT(backlinks[?status!="done"]). Missing values are not counted.
+ */
+
+import { Duration } from 'luxon';
+import { Expression, ExpressionContext, ExpressionOperator } from '../types';
+import { resolvePath, splitLinkPath } from '../parser/pathResolver';
+import { parseDate, parseDuration, resolveAnchor, formatParsedDate, compareDates, ParsedDate } from '../utils/dates';
+import { slugify } from '../utils/strings';
+
+/**
+ * Raised when the data does not fit the expression (missing field, wrong
+ * type, value that is not a date). Actions report it as a warning and leave
+ * the field unchanged.
+ */
+export class ExpressionError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ExpressionError';
+	}
+}
+
+/** Intermediate value: dates keep their source value so the result can be formatted like it */
+type Value =
+	| { kind: 'value'; value: any; label: string; path?: string }
+	| { kind: 'date'; parsed: ParsedDate; original?: unknown }
+	| { kind: 'duration'; duration: Duration; text: string };
+
+/** Function arguments are evaluated on demand, so if() and coalesce() only read what they use */
+type Argument = () => any;
+
+interface ExpressionFunction {
+	minArgs: number;
+	maxArgs: number;
+	call: (args: Argument[]) => any;
+}
+
+/**
+ * Functions available in expressions (names are case-insensitive)
+ */
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+	length: {
+		minArgs: 1,
+		maxArgs: 1,
+		call: ([value]) => {
+			const v = value();
+			if (typeof v === 'string' || Array.isArray(v)) return v.length;
+			if (isObject(v)) return Object.keys(v).length;
+			throw new ExpressionError(`length() needs a string, array or object, got ${describeType(v)}`);
+		},
+	},
+	lower: {
+		minArgs: 1,
+		maxArgs: 1,
+		call: ([value]) => requireString('lower', value()).toLowerCase(),
+	},
+	upper: {
+		minArgs: 1,
+		maxArgs: 1,
+		call: ([value]) => requireString('upper', value()).toUpperCase(),
+	},
+	trim: {
+		minArgs: 1,
+		maxArgs: 1,
+		call: ([value]) => requireString('trim', value()).trim(),
+	},
+	slugify: {
+		minArgs: 1,
+		maxArgs: 1,
+		call: ([value]) => slugify(requireString('slugify', value())),
+	},
+	round: {
+		minArgs: 1,
+		maxArgs: 2,
+		call: ([value, digits]) => {
+			const factor = Math.pow(10, digits ? requireNumber('round()', digits()) : 0);
+			return Math.round(requireNumber('round()', value()) * factor) / factor;
+		},
+	},
+	coalesce: {
+		minArgs: 1,
+		maxArgs: Infinity,
+		call: args => {
+			for (const arg of args) {
+				const v = arg();
+				if (v !== undefined && v !== null) return v;
+			}
+			return null;
+		},
+	},
+	if: {
+		minArgs: 3,
+		maxArgs: 3,
+		call: ([condition, then, otherwise]) => (isTruthy(condition()) ? then() : otherwise()),
+	},
+	sum: {
+		minArgs: 1,
+		maxArgs: 1,
+		call: ([values]) => toList(values()).reduce((total: number, v) => total + requireNumber('sum()', v), 0),
+	},
+	count: {
+		minArgs: 1,
+		maxArgs: 1,
+		call: ([values]) => toList(values()).length,
+	},
+	min: {
+		minArgs: 1,
+		maxArgs: 1,
+		call: ([values]) => extreme('min', toList(values())),
+	},
+	max: {
+		minArgs: 1,
+		maxArgs: 1,
+		call: ([values]) => extreme('max', toList(values())),
+	},
+	avg: {
+		minArgs: 1,
+		maxArgs: 1,
+		call: ([values]) => {
+			const list = toList(values());
+			if (list.length === 0) return null;
+			return list.reduce((total: number, v) => total + requireNumber('avg()', v), 0) / list.length;
+		},
+	},
+	list: {
+		minArgs: 1,
+		maxArgs: 1,
+		call: ([values]) => toList(values()),
+	},
+};
+
+/**
+ * Evaluate an expression against frontmatter data
+ *
+ * @param context - Note graph and link resolver, for links.*, backlinks.* and project->client
+ * @throws ExpressionError if the data does not fit the expression
+ * @throws Error if the expression calls an unknown function
+ */
+export function evaluateExpression(expression: Expression, data: any, context?: ExpressionContext): any {
+	const result = toPlain(evaluate(expression, data, context));
+	if (result === undefined) {
+		throw new ExpressionError('Expression has no value');
+	}
+	return result;
+}
+
+function evaluate(expression: Expression, data: any, context?: ExpressionContext): Value {
+	switch (expression.type) {
+		case 'literal':
+			return { kind: 'value', value: expression.value, label: JSON.stringify(expression.value) };
+		case 'field':
+			return {
+				kind: 'value',
+				value: resolveField(data, expression.path, context),
+				label: `'${expression.path}'`,
+				path: expression.path,
+			};
+		case 'date':
+			if (expression.anchor) {
+				return { kind: 'date', parsed: resolveAnchor(expression.anchor) };
+			}
+			return {
+				kind: 'date',
+				parsed: toDate({ kind: 'value', value: expression.literal, label: String(expression.literal) }),
+				original: expression.literal,
+			};
+		case 'duration': {
+			const duration = parseDuration(expression.value);
+			if (!duration) {
+				throw new Error(`Invalid duration: ${expression.value}`);
+			}
+			return { kind: 'duration', duration, text: expression.value };
+		}
+		case 'unary': {
+			const operand = evaluate(expression.operand, data, context);
+			if (operand.kind === 'duration') {
+				return { kind: 'duration', duration: operand.duration.negate(), text: `-${operand.text}` };
+			}
+			return { kind: 'value', value: -requireNumber("'-'", toPlain(operand), operand), label: '' };
+		}
+		case 'binary':
+			return evaluateBinary(
+				expression.operator,
+				evaluate(expression.left, data, context),
+				evaluate(expression.right, data, context)
+			);
+		case 'call': {
+			const fn = EXPRESSION_FUNCTIONS[expression.name.toLowerCase()];
+			if (!fn) {
+				throw new Error(`Unknown function: ${expression.name}()`);
+			}
+			const args = expression.args.map(arg => () => toPlain(evaluate(arg, data, context)));
+			const value = fn.call(args);
+			return { kind: 'value', value, label: `${expression.name}()` };
+		}
+	}
+}
+
+/**
+ * Resolve a field in the data, or in the context for note graph fields and link paths
+ */
+function resolveField(data: any, path: string, context?: ExpressionContext): any {
+	if (!context) {
+		return resolvePath(data, path);
+	}
+
+	const [first, ...hops] = splitLinkPath(path);
+	if (hops.length > 0) {
+		return context.linkResolver?.follow(resolveField(data, first, context), hops, path);
+	}
+
+	if (context.graph?.isGraphField(path)) {
+		return context.graph.resolve(path);
+	}
+	return resolvePath(data, path);
+}
+
+function evaluateBinary(operator: ExpressionOperator, left: Value, right: Value): Value {
+	// Date arithmetic: date ± duration, duration + date, date - date
+	if (operator === '+' || operator === '-') {
+		if (right.kind === 'duration' && left.kind !== 'duration') {
+			const date = toDate(left);
+			const shifted = operator === '+' ? date.date.plus(right.duration) : date.date.minus(right.duration);
+			return {
+				kind: 'date',
+				parsed: { date: shifted, dateOnly: date.dateOnly },
+				original: left.kind === 'date' ? left.original : left.value,
+			};
+		}
+		if (left.kind === 'duration' && right.kind !== 'duration' && operator === '+') {
+			return evaluateBinary('+', right, left);
+		}
+		if (operator === '-' && left.kind !== 'duration' && right.kind !== 'duration' && isDateDifference(left, right)) {
+			const days = toDate(left).date.diff(toDate(right).date, 'days').days;
+			return { kind: 'value', value: days, label: '' };
+		}
+	}
+
+	if (left.kind === 'duration' || right.kind === 'duration') {
+		throw new Error(`Durations can only be added to or subtracted from dates (e.g. due + 7d), not used with '${operator}'`);
+	}
+
+	if (isComparison(operator)) {
+		return { kind: 'value', value: compare(operator, left, right), label: '' };
+	}
+
+	const a = toPlain(left);
+	const b = toPlain(right);
+	requireDefined(left, a);
+	requireDefined(right, b);
+
+	let value: any;
+	switch (operator) {
+		case '+':
+			if (Array.isArray(a) || Array.isArray(b)) {
+				value = ([] as any[]).concat(a, b);
+			} else if (typeof a === 'string' || typeof b === 'string') {
+				value = `${formatForConcat(a)}${formatForConcat(b)}`;
+			} else {
+				value = requireNumber("'+'", a, left) + requireNumber("'+'", b, right);
+			}
+			break;
+		case '-':
+			value = requireNumber("'-'", a, left) - requireNumber("'-'", b, right);
+			break;
+		case '*':
+			value = requireNumber("'*'", a, left) * requireNumber("'*'", b, right);
+			break;
+		case '/':
+		case '%': {
+			const divisor = requireNumber(`'${operator}'`, b, right);
+			if (divisor === 0) {
+				throw new ExpressionError('Division by zero');
+			}
+			const dividend = requireNumber(`'${operator}'`, a, left);
+			value = operator === '/' ? dividend / divisor : dividend % divisor;
+			break;
+		}
+	}
+
+	return { kind: 'value', value, label: '' };
+}
+
+/**
+ * date - date gives days: one side is a date, or both are date strings
+ */
+function isDateDifference(left: Value, right: Value): boolean {
+	if (left.kind === 'date' || right.kind === 'date') {
+		return true;
+	}
+	return typeof toPlain(left) === 'string' && typeof toPlain(right) === 'string' &&
+		parseDate(toPlain(left)) !== null && parseDate(toPlain(right)) !== null;
+}
+
+function isComparison(operator: ExpressionOperator): boolean {
+	return ['=', '!=', '>', '<', '>=', '<='].includes(operator);
+}
+
+/**
+ * Compare two values: dates by time, everything else strictly
+ */
+function compare(operator: ExpressionOperator, left: Value, right: Value): boolean {
+	let order: number;
+
+	if (left.kind === 'date' || right.kind === 'date') {
+		const a = left.kind === 'date' ? left.parsed : parseDate(toPlain(left));
+		const b = right.kind === 'date' ? right.parsed : parseDate(toPlain(right));
+		if (!a || !b) {
+			// A value that is not a date is never equal to a date
+			return operator === '!=';
+		}
+		order = compareDates(a, b);
+	} else {
+		const a = toPlain(left);
+		const b = toPlain(right);
+		if (operator === '=' || operator === '!=') {
+			const equal = a === b || (a === undefined && b === null) || (a === null && b === undefined);
+			return operator === '=' ? equal : !equal;
+		}
+		if (!(typeof a === 'number' && typeof b === 'number') && !(typeof a === 'string' && typeof b === 'string')) {
+			return false;
+		}
+		order = a < b ? -1 : a > b ? 1 : 0;
+	}
+
+	switch (operator) {
+		case '=': return order === 0;
+		case '!=': return order !== 0;
+		case '>': return order > 0;
+		case '<': return order < 0;
+		case '>=': return order >= 0;
+		default: return order <= 0;
+	}
+}
+
+function toPlain(value: Value): any {
+	switch (value.kind) {
+		case 'date':
+			return formatParsedDate(value.parsed, value.original);
+		case 'duration':
+			return value.text;
+		default:
+			return value.value;
+	}
+}
+
+function toDate(value: Value): ParsedDate {
+	if (value.kind === 'date') {
+		return value.parsed;
+	}
+	if (value.kind === 'value') {
+		requireDefined(value, value.value);
+		const parsed = parseDate(value.value);
+		if (parsed) {
+			return parsed;
+		}
+		throw new ExpressionError(`Cannot use ${value.label} as a date: ${JSON.stringify(value.value)}`);
+	}
+	throw new ExpressionError(`Cannot use duration ${value.text} as a date`);
+}
+
+function requireDefined(source: Value, value: any): void {
+	if (value === undefined && source.kind === 'value' && source.path) {
+		throw new ExpressionError(`Field '${source.path}' not found`);
+	}
+}
+
+/**
+ * @param name - Operator ('*') or function (round()) for the message
+ */
+function requireNumber(name: string, value: any, source?: Value): number {
+	if (source) requireDefined(source, value);
+	if (typeof value === 'number') {
+		return value;
+	}
+	const field = source?.kind === 'value' && source.path ? ` in '${source.path}'` : '';
+	throw new ExpressionError(`${name} needs a number, got ${describeType(value)}${field}: ${JSON.stringify(value)}`);
+}
+
+function requireString(name: string, value: any): string {
+	if (typeof value === 'string') {
+		return value;
+	}
+	throw new ExpressionError(`${name}() needs a string, got ${describeType(value)}`);
+}
+
+function describeType(value: any): string {
+	if (value === undefined) return 'nothing';
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
+
+/**
+ * Values an aggregate runs over: the items of a list without missing values
+ * (a single value is a list of one)
+ */
+function toList(value: any): any[] {
+	const list = Array.isArray(value) ? value : [value];
+	return list.filter(item => item !== undefined && item !== null);
+}
+
+/**
+ * Smallest or largest of numbers or dates (null for an empty list)
+ */
+function extreme(name: 'min' | 'max', list: any[]): any {
+	if (list.length === 0) {
+		return null;
+	}
+
+	const dates = list.map(item => (typeof item === 'string' ? parseDate(item) : null));
+	if (dates.every(date => date !== null)) {
+		const order = (i: number, j: number) => compareDates(dates[i] as ParsedDate, dates[j] as ParsedDate);
+		let best = 0;
+		for (let i = 1; i < list.length; i++) {
+			if (name === 'min' ? order(i, best) < 0 : order(i, best) > 0) best = i;
+		}
+		return list[best];
+	}
+
+	const numbers = list.map(item => requireNumber(`${name}()`, item));
+	return name === 'min' ? Math.min(...numbers) : Math.max(...numbers);
+}
+
+function isObject(value: any): boolean {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTruthy(value: any): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	return Boolean(value);
+}
+
+function formatForConcat(value: any): string {
+	if (value === null) return '';
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value);
+}
@@ -37,7 +37,7 @@ export function initI18n() {
  * @returns Translated string
  */
 export function t(key: string, values?: Record<string, any>): string {
-	return get(_)(key, values);
+	return get(_)(key, { values });
 }
 
 /**
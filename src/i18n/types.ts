@@ -20,12 +20,24 @@ export type TranslationKey =
 	| 'plugin.loading'
 	// Commands
 	| 'commands.openRuleBuilder'
+	| 'commands.undoLastRun'
+	| 'commands.showRunHistory'
+	| 'commands.openLatestLog'
+	| 'commands.openPlaybooks'
+	| 'commands.runRule'
+	| 'commands.toggleAutomaticRules'
 	// Settings
 	| 'settings.title'
 	| 'settings.defaultBackup.name'
 	| 'settings.defaultBackup.description'
 	| 'settings.debugMode.name'
 	| 'settings.debugMode.description'
+	| 'settings.logRetentionCount.name'
+	| 'settings.logRetentionCount.description'
+	| 'settings.logRetentionDays.name'
+	| 'settings.logRetentionDays.description'
+	| 'settings.triggersPaused.name'
+	| 'settings.triggersPaused.description'
 	// Rule Builder
 	| 'ruleBuilder.title'
 	| 'ruleBuilder.savedRules.label'
@@ -53,7 +65,25 @@ export type TranslationKey =
 	| 'ruleBuilder.fields.action.label'
 	| 'ruleBuilder.fields.action.placeholder'
 	| 'ruleBuilder.fields.action.required'
+	| 'ruleBuilder.fields.action.helpText'
 	| 'ruleBuilder.fields.backup.label'
+	| 'ruleBuilder.fields.continueOnError.label'
+	| 'ruleBuilder.fields.command.label'
+	| 'ruleBuilder.fields.command.confirm'
+	| 'ruleBuilder.fields.trigger.label'
+	| 'ruleBuilder.fields.trigger.helpText'
+	| 'ruleBuilder.fields.trigger.create'
+	| 'ruleBuilder.fields.trigger.modify'
+	| 'ruleBuilder.fields.trigger.rename'
+	| 'ruleBuilder.fields.trigger.move'
+	| 'ruleBuilder.fields.schedule.label'
+	| 'ruleBuilder.fields.schedule.helpText'
+	| 'ruleBuilder.fields.schedule.none'
+	| 'ruleBuilder.fields.schedule.startup'
+	| 'ruleBuilder.fields.schedule.interval'
+	| 'ruleBuilder.fields.schedule.daily'
+	| 'ruleBuilder.fields.schedule.hours'
+	| 'ruleBuilder.fields.schedule.time'
 	| 'ruleBuilder.validation.passed'
 	| 'ruleBuilder.validation.invalidCondition'
 	| 'ruleBuilder.validation.invalidAction'
@@ -111,10 +141,48 @@ export type TranslationKey =
 	| 'notices.processing'
 	| 'notices.complete'
 	| 'notices.error'
+	| 'notices.noRunToUndo'
+	| 'notices.runReverted'
+	| 'notices.revertPartial'
+	| 'notices.noLogs'
+	| 'notices.playbookSaved'
+	| 'notices.playbookDeleted'
+	| 'notices.noChanges'
+	| 'notices.triggersPaused'
+	| 'notices.triggersResumed'
 	// Confirm dialogs
 	| 'confirm.applyWithoutPreview.title'
 	| 'confirm.applyWithoutPreview.message'
 	| 'confirm.applyWithoutPreview.question'
+	| 'confirm.revertConflicts.title'
+	| 'confirm.revertConflicts.message'
+	| 'confirm.revertConflicts.question'
+	| 'confirm.runPlaybook.title'
+	| 'confirm.runPlaybook.message'
+	| 'confirm.runPlaybook.question'
+	| 'confirm.runRule.title'
+	| 'confirm.runRule.message'
+	| 'confirm.runRule.question'
+	// Run history
+	| 'runHistory.placeholder'
+	| 'runHistory.empty'
+	| 'runHistory.details'
+	// Log viewer
+	| 'logViewer.title'
+	// Playbooks
+	| 'playbooks.title'
+	| 'playbooks.select'
+	| 'playbooks.new'
+	| 'playbooks.name'
+	| 'playbooks.rules'
+	| 'playbooks.noRules'
+	| 'playbooks.addRule'
+	| 'playbooks.chooseRule'
+	| 'playbooks.moveUp'
+	| 'playbooks.moveDown'
+	| 'playbooks.remove'
+	| 'playbooks.summary'
+	| 'playbooks.noChanges'
 	// Status
 	| 'status.success'
 	| 'status.warning'
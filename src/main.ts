@@ -3,13 +3,18 @@
  * Obsidian plugin for bulk YAML frontmatter manipulation
  */
 
-import { Notice, Plugin, PluginSettingTab, Setting } from 'obsidian';
-import { PluginData, Rule } from './types';
+import { Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile } from 'obsidian';
+import { PluginData, Rule, TriggerEvent } from './types';
 import { DEFAULT_SETTINGS } from './settings';
 import { loadPluginData, savePluginData, saveRule, deleteRule, createNewRule, updateLastRun } from './storage/ruleStorage';
 import { scanFiles } from './core/fileScanner';
 import { processBatch } from './core/batchProcessor';
-import { createLogger, generateLogPath } from './core/logger';
+import { createLogger, generateLogPath, getLatestLogPath } from './core/logger';
+import { getLastRun, listRuns } from './core/runJournal';
+import { setPluginDir } from './core/pluginDir';
+import { runRule } from './core/ruleRunner';
+import { createTriggerManager, getRenameEvent, TriggerManager } from './core/triggerManager';
+import { createScheduler, Scheduler } from './core/scheduler';
 import { initI18n, t } from './i18n';
 
 /**
@@ -18,6 +23,15 @@ import { initI18n, t } from './i18n';
 export default class YamlToolkitPlugin extends Plugin {
 	data: PluginData;
 
+	/** Command name registered for each rule with an enabled command, by rule ID */
+	private ruleCommandNames = new Map<string, string>();
+
+	/** Runs rules with a vault event trigger (created once the layout is ready) */
+	private triggerManager: TriggerManager | null = null;
+
+	/** Runs scheduled rules (started once the layout is ready) */
+	private scheduler: Scheduler | null = null;
+
 	/** Debug logging helper - only logs if debug mode is enabled */
 	debugLog(...args: any[]) {
 		if (this.data?.settings?.debug) {
@@ -32,20 +46,77 @@ export default class YamlToolkitPlugin extends Plugin {
 		// Always log loading (before settings are loaded)
 		console.log(t('plugin.loading'));
 
+		// Journal and logs go into this plugin's folder (the config dir may not be .obsidian)
+		setPluginDir(this.manifest.dir);
+
 		// Load plugin data
 		this.data = await loadPluginData(this);
 
 		// Register commands
 		this.registerCommands();
+		this.syncRuleCommands(this.data);
 
 		// Add settings tab
 		this.addSettingTab(new YamlToolkitSettingTab(this.app, this));
 
+		// Vault 'create' fires for every note while the vault loads - subscribe afterwards
+		this.app.workspace.onLayoutReady(() => {
+			this.registerTriggers();
+			this.startScheduler();
+		});
+
 		this.debugLog('Plugin loaded successfully');
 	}
 
 	onunload() {
 		this.debugLog('Plugin unloading');
+		this.triggerManager?.dispose();
+		this.scheduler?.stop();
+	}
+
+	/**
+	 * Run scheduled rules: startup rules and missed runs now, the rest when due
+	 */
+	startScheduler() {
+		this.scheduler = createScheduler({
+			getRules: () => this.data.rules,
+			isPaused: () => this.data.settings.triggersPaused,
+			run: async rule => {
+				const result = await runRule(this, rule);
+				this.debugLog(`Scheduled rule "${rule.name}"`, result.summary);
+			},
+		});
+		this.scheduler.start();
+	}
+
+	/**
+	 * Subscribe to vault events for automatically triggered rules
+	 */
+	registerTriggers() {
+		const manager = createTriggerManager({
+			app: this.app,
+			getRules: () => this.data.rules,
+			isPaused: () => this.data.settings.triggersPaused,
+			onRun: (rule, result) => {
+				this.debugLog(`Automatic rule "${rule.name}"`, result.results.map(r => `${r.file.path}: ${r.status}`));
+			},
+			getLogRetention: () => ({
+				maxCount: this.data.settings.logRetentionCount,
+				maxAgeDays: this.data.settings.logRetentionDays,
+			}),
+		});
+		this.triggerManager = manager;
+
+		const queue = (event: TriggerEvent, file: TAbstractFile, oldPath?: string) => {
+			// Folders have no extension
+			if ((file as TFile).extension === 'md') {
+				manager.handleEvent(event, file as TFile, oldPath);
+			}
+		};
+
+		this.registerEvent(this.app.vault.on('create', file => queue('create', file)));
+		this.registerEvent(this.app.vault.on('modify', file => queue('modify', file)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => queue(getRenameEvent(file.path, oldPath), file, oldPath)));
 	}
 
 	registerCommands() {
@@ -58,6 +129,146 @@ export default class YamlToolkitPlugin extends Plugin {
 				new RuleBuilderModalWrapper(this).open();
 			},
 		});
+
+		// Command: Manage and run playbooks (saved rules applied in sequence)
+		this.addCommand({
+			id: 'open-playbooks',
+			name: t('commands.openPlaybooks'),
+			callback: async () => {
+				const { PlaybookModal } = await import('./ui/PlaybookModal');
+				new PlaybookModal(this).open();
+			},
+		});
+
+		// Command: Pause or resume all automatically triggered rules
+		this.addCommand({
+			id: 'toggle-automatic-rules',
+			name: t('commands.toggleAutomaticRules'),
+			callback: async () => {
+				this.data.settings.triggersPaused = !this.data.settings.triggersPaused;
+				await this.saveSettings();
+				new Notice(t(this.data.settings.triggersPaused ? 'notices.triggersPaused' : 'notices.triggersResumed'));
+			},
+		});
+
+		// Command: Undo the most recent applied run
+		this.addCommand({
+			id: 'undo-last-run',
+			name: t('commands.undoLastRun'),
+			callback: async () => {
+				const run = await getLastRun(this.app.vault);
+				if (!run) {
+					new Notice(t('notices.noRunToUndo'));
+					return;
+				}
+				const { undoRun } = await import('./ui/RunHistoryModal');
+				await undoRun(this.app, run);
+			},
+		});
+
+		// Command: Pick any past run from the journal and revert it
+		this.addCommand({
+			id: 'show-run-history',
+			name: t('commands.showRunHistory'),
+			callback: async () => {
+				const runs = (await listRuns(this.app.vault)).filter(run => !run.revertedAt);
+				const { RunHistoryModal } = await import('./ui/RunHistoryModal');
+				new RunHistoryModal(this.app, runs).open();
+			},
+		});
+
+		// Command: Show the most recent operation log
+		this.addCommand({
+			id: 'open-latest-log',
+			name: t('commands.openLatestLog'),
+			callback: async () => {
+				const logPath = await getLatestLogPath(this.app.vault);
+				if (!logPath) {
+					new Notice(t('notices.noLogs'));
+					return;
+				}
+				const content = await this.app.vault.adapter.read(logPath);
+				const { LogViewerModal } = await import('./ui/LogViewerModal');
+				new LogViewerModal(this.app, logPath, content).open();
+			},
+		});
+	}
+
+	/**
+	 * Called by ruleStorage after rules are saved or deleted
+	 */
+	onRulesChanged(data: PluginData) {
+		this.syncRuleCommands(data);
+	}
+
+	/**
+	 * Register, rename or remove per-rule commands to match the saved rules
+	 * Command IDs are derived from rule IDs so hotkeys survive renames
+	 *
+	 * removeCommand only exists since Obsidian 1.7.2. Before that a removed
+	 * command stays in the palette until reload and does nothing (see
+	 * runSavedRule); a renamed one is overwritten by addCommand.
+	 */
+	syncRuleCommands(data: PluginData) {
+		const wanted = new Map<string, string>();
+		data.rules
+			.filter(rule => rule.command?.enabled)
+			.forEach(rule => wanted.set(rule.id, t('commands.runRule', { name: rule.name })));
+
+		this.ruleCommandNames.forEach((name, ruleId) => {
+			if (wanted.get(ruleId) !== name) {
+				if (typeof this.removeCommand === 'function') {
+					this.removeCommand(getRuleCommandId(ruleId));
+				}
+				this.ruleCommandNames.delete(ruleId);
+			}
+		});
+
+		wanted.forEach((name, ruleId) => {
+			if (this.ruleCommandNames.has(ruleId)) return;
+			this.addCommand({
+				id: getRuleCommandId(ruleId),
+				name,
+				callback: () => this.runSavedRule(ruleId),
+			});
+			this.ruleCommandNames.set(ruleId, name);
+		});
+	}
+
+	/**
+	 * Run a saved rule from its command, previewing first if the rule asks for confirmation
+	 */
+	async runSavedRule(ruleId: string) {
+		const rule = this.data.rules.find(r => r.id === ruleId);
+		if (!rule?.command?.enabled) return;
+
+		try {
+			if (rule.command?.confirm) {
+				const preview = await runRule(this, rule, { dryRun: true });
+				const changed = preview.results.filter(result => result.modified);
+				if (changed.length === 0) {
+					new Notice(t('notices.noChanges', { rule: rule.name }));
+					return;
+				}
+
+				const confirmed = confirm(
+					t('confirm.runRule.title', { name: rule.name }) + '\n\n' +
+					t('confirm.runRule.message', { count: changed.length }) + '\n' +
+					changed.map(result => result.file.path).join('\n') + '\n\n' +
+					t('confirm.runRule.question')
+				);
+				if (!confirmed) return;
+			}
+
+			const result = await runRule(this, rule);
+			new Notice(t('notices.complete', {
+				success: result.summary.success,
+				warnings: result.summary.warnings,
+				errors: result.summary.errors,
+			}), 5000);
+		} catch (error) {
+			new Notice(t('notices.error', { message: error instanceof Error ? error.message : 'Unknown error' }));
+		}
 	}
 
 	/**
@@ -68,6 +279,13 @@ export default class YamlToolkitPlugin extends Plugin {
 	}
 }
 
+/**
+ * Command ID for a rule's own command
+ */
+function getRuleCommandId(ruleId: string): string {
+	return `run-rule-${ruleId}`;
+}
+
 /**
  * Settings tab
  */
@@ -108,5 +326,45 @@ class YamlToolkitSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					})
 			);
+
+		new Setting(containerEl)
+			.setName(t('settings.triggersPaused.name'))
+			.setDesc(t('settings.triggersPaused.description'))
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.plugin.data.settings.triggersPaused)
+					.onChange(async value => {
+						this.plugin.data.settings.triggersPaused = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t('settings.logRetentionCount.name'))
+			.setDesc(t('settings.logRetentionCount.description'))
+			.addText(text =>
+				text
+					.setValue(String(this.plugin.data.settings.logRetentionCount))
+					.onChange(async value => {
+						const count = parseInt(value, 10);
+						if (isNaN(count) || count < 0) return;
+						this.plugin.data.settings.logRetentionCount = count;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t('settings.logRetentionDays.name'))
+			.setDesc(t('settings.logRetentionDays.description'))
+			.addText(text =>
+				text
+					.setValue(String(this.plugin.data.settings.logRetentionDays))
+					.onChange(async value => {
+						const days = parseInt(value, 10);
+						if (isNaN(days) || days < 0) return;
+						this.plugin.data.settings.logRetentionDays = days;
+						await this.plugin.saveSettings();
+					})
+			);
 	}
 }
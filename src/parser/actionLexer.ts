@@ -5,6 +5,8 @@
  * Simpler than condition lexer because actions have more structured syntax
  */
 
+import { DATE_TOKEN, DURATION_TOKEN } from '../utils/dates';
+
 export enum ActionTokenType {
 	// v2.0 Hybrid Keywords
 	FOR = 'FOR',              // Collection target specifier
@@ -17,6 +19,24 @@ export enum ActionTokenType {
 	INCREMENT = 'INCREMENT',
 	DECREMENT = 'DECREMENT',
 
+	// Date operations
+	SHIFT = 'SHIFT',
+	FORMAT = 'FORMAT',
+
+	// String operations
+	TRANSFORM = 'TRANSFORM',
+	REGEX_REPLACE = 'REGEX_REPLACE',
+	SPLIT = 'SPLIT',
+	JOIN = 'JOIN',
+
+	// Type conversion
+	CONVERT = 'CONVERT',
+
+	// Key operations
+	NORMALIZE = 'NORMALIZE',
+	REORDER = 'REORDER',
+	KEEP = 'KEEP',
+
 	// Array operations
 	APPEND = 'APPEND',
 	PREPEND = 'PREPEND',
@@ -47,6 +67,7 @@ export enum ActionTokenType {
 	DESC = 'DESC',
 	START = 'START',
 	END = 'END',
+	AS = 'AS',
 
 	// Literals
 	IDENTIFIER = 'IDENTIFIER',
@@ -56,12 +77,16 @@ export enum ActionTokenType {
 	NULL = 'NULL',
 	OBJECT = 'OBJECT',       // JSON object
 	ARRAY = 'ARRAY',         // JSON array
+	DATE = 'DATE',           // 2024-01-15, 2024-01-15T10:30Z
+	DURATION = 'DURATION',   // 7d, -2w, +1m
+	REGEX = 'REGEX',         // /pattern/flags
 
 	// Punctuation
 	COMMA = 'COMMA',
 	DOT = 'DOT',
 	LBRACKET = 'LBRACKET',
 	RBRACKET = 'RBRACKET',
+	PATH_SELECTOR = 'PATH_SELECTOR', // [*] or [?key="value"] after a path segment
 
 	// Operators (for embedded conditions in FOR...WHERE operations)
 	EQUALS = 'EQUALS',
@@ -73,6 +98,15 @@ export enum ActionTokenType {
 	REGEX_MATCH = 'REGEX_MATCH',
 	EXCLAMATION = 'EXCLAMATION',
 
+	// Expressions (SET field = expression)
+	PLUS = 'PLUS',
+	MINUS = 'MINUS',
+	STAR = 'STAR',
+	SLASH = 'SLASH',
+	PERCENT = 'PERCENT',
+	LPAREN = 'LPAREN',
+	RPAREN = 'RPAREN',
+
 	// Special
 	EOF = 'EOF',
 }
@@ -134,6 +168,20 @@ class ActionLexer {
 			// Handle [ - could be array indexing or array literal
 			if (char === '[') {
 				const nextChar = this.peek();
+				// Wildcard or filter segment (e.g., tasks[*], authors[?role="editor"])
+				if (nextChar === '*' || nextChar === '?') {
+					this.tokenizePathSelector();
+					continue;
+				}
+
+				// Quoted key attached to a path (e.g., meta["my.key"]); a path that
+				// starts with such a key (SET ["my.key"] 1) is lexed as a one-string
+				// array and read as a key by the parser
+				if ((nextChar === '"' || nextChar === "'") && this.followsPath()) {
+					this.tokenizePathSelector();
+					continue;
+				}
+
 				// If next char is a digit, it's array indexing (e.g., field[0])
 				// Otherwise, it's an array literal (e.g., ["value1", "value2"])
 				const isArrayIndexing = nextChar !== null && this.isDigit(nextChar);
@@ -208,12 +256,68 @@ class ActionLexer {
 				continue;
 			}
 
+			// Backtick-quoted key: `my.key` (kept with backticks, the path resolver unquotes it)
+			if (char === '`') {
+				const end = this.input.indexOf('`', this.position + 1);
+				if (end === -1) {
+					throw new ActionLexerError('Unclosed backtick', this.position);
+				}
+				const raw = this.input.substring(this.position, end + 1);
+				this.tokens.push({ type: ActionTokenType.IDENTIFIER, value: raw, position: this.position, raw });
+				this.position = end + 1;
+				continue;
+			}
+
+			// Dates and durations (before numbers: 2024-01-15 is not 2024 - 1 - 15)
+			if ((this.isDigit(char) || char === '-' || char === '+') &&
+			    (this.tokenizePattern(DATE_TOKEN, ActionTokenType.DATE) ||
+			     this.tokenizePattern(DURATION_TOKEN, ActionTokenType.DURATION))) {
+				continue;
+			}
+
 			// Numbers
 			if (this.isDigit(char) || (char === '-' && this.isDigit(this.peek() || ''))) {
 				this.tokenizeNumber();
 				continue;
 			}
 
+			if (char === '+') {
+				this.tokens.push({ type: ActionTokenType.PLUS, value: '+', position: this.position });
+				this.position++;
+				continue;
+			}
+
+			if (char === '-') {
+				this.tokens.push({ type: ActionTokenType.MINUS, value: '-', position: this.position });
+				this.position++;
+				continue;
+			}
+
+			// Regex /pattern/flags: no space after the opening slash (division is "a / b")
+			if (char === '/' && this.tokenizeRegex()) {
+				continue;
+			}
+
+			// ** path segment (any depth), e.g. **.deprecated
+			if (char === '*' && this.peek() === '*') {
+				this.tokens.push({ type: ActionTokenType.IDENTIFIER, value: '**', position: this.position });
+				this.position += 2;
+				continue;
+			}
+
+			const expressionPunctuation: Record<string, ActionTokenType> = {
+				'*': ActionTokenType.STAR,
+				'/': ActionTokenType.SLASH,
+				'%': ActionTokenType.PERCENT,
+				'(': ActionTokenType.LPAREN,
+				')': ActionTokenType.RPAREN,
+			};
+			if (expressionPunctuation[char]) {
+				this.tokens.push({ type: expressionPunctuation[char], value: char, position: this.position });
+				this.position++;
+				continue;
+			}
+
 			// JSON objects
 			if (char === '{') {
 				this.tokenizeObject();
@@ -293,6 +397,61 @@ class ActionLexer {
 		throw new ActionLexerError(`Unterminated string starting at position ${start}`, start);
 	}
 
+	/**
+	 * Push a token for a pattern match at the current position
+	 * @returns true if the pattern matched
+	 */
+	private tokenizePattern(pattern: RegExp, type: ActionTokenType): boolean {
+		const match = this.input.substring(this.position).match(pattern);
+		if (!match) {
+			return false;
+		}
+
+		this.tokens.push({
+			type,
+			value: match[0],
+			position: this.position,
+			raw: match[0]
+		});
+		this.position += match[0].length;
+		return true;
+	}
+
+	/**
+	 * Tokenize /pattern/flags at the current position
+	 * @returns false if this is not a regex (space after the slash, or no closing slash)
+	 */
+	private tokenizeRegex(): boolean {
+		const start = this.position;
+		const next = this.peek();
+		if (next === null || this.isWhitespace(next) || next === '/') {
+			return false;
+		}
+
+		let end = start + 1;
+		while (end < this.input.length && this.input[end] !== '/') {
+			end += this.input[end] === '\\' ? 2 : 1;
+		}
+		if (end >= this.input.length) {
+			return false;
+		}
+
+		end++; // closing /
+		while (end < this.input.length && /[gimsuvy]/.test(this.input[end])) {
+			end++;
+		}
+
+		const regexStr = this.input.substring(start, end);
+		this.tokens.push({
+			type: ActionTokenType.REGEX,
+			value: regexStr,
+			position: start,
+			raw: regexStr
+		});
+		this.position = end;
+		return true;
+	}
+
 	private tokenizeNumber(): void {
 		const start = this.position;
 		let numStr = '';
@@ -373,18 +532,64 @@ class ActionLexer {
 		}
 	}
 
+	/**
+	 * Whether the previous token is part of a path and directly touches the current position
+	 */
+	private followsPath(): boolean {
+		const previous = this.tokens[this.tokens.length - 1];
+		const pathTokens = [ActionTokenType.IDENTIFIER, ActionTokenType.RBRACKET, ActionTokenType.PATH_SELECTOR];
+		return previous !== undefined && pathTokens.includes(previous.type) && !this.isWhitespace(this.input[this.position - 1]);
+	}
+
+	/**
+	 * Tokenize a [*], [?key="value"] or ["key"] path segment as one token (] inside quotes allowed)
+	 */
+	private tokenizePathSelector(): void {
+		const start = this.position;
+		let quote: string | null = null;
+
+		while (this.position < this.input.length) {
+			const char = this.input[this.position++];
+			if (quote) {
+				if (char === '\\') this.position++;
+				else if (char === quote) quote = null;
+			} else if (char === '"' || char === "'") {
+				quote = char;
+			} else if (char === ']') {
+				const raw = this.input.substring(start, this.position);
+				this.tokens.push({ type: ActionTokenType.PATH_SELECTOR, value: raw, position: start, raw });
+				return;
+			}
+		}
+
+		throw new ActionLexerError('Unclosed bracket in path', start);
+	}
+
 	private tokenizeArray(): void {
 		const start = this.position;
 		let bracketCount = 0;
 		let jsonStr = '';
+		let inString = false;
 
-		// Collect the entire JSON array string
+		// Collect the entire JSON array string (brackets inside strings do not count)
 		while (this.position < this.input.length) {
 			const char = this.input[this.position];
 			jsonStr += char;
 
-			if (char === '[') bracketCount++;
-			if (char === ']') bracketCount--;
+			if (inString) {
+				if (char === '\\') {
+					jsonStr += this.input[this.position + 1] ?? '';
+					this.position++;
+				} else if (char === '"') {
+					inString = false;
+				}
+			} else if (char === '"') {
+				inString = true;
+			} else if (char === '[') {
+				bracketCount++;
+			} else if (char === ']') {
+				bracketCount--;
+			}
 
 			this.position++;
 
@@ -452,6 +657,21 @@ class ActionLexer {
 			'MERGE_OVERWRITE': ActionTokenType.MERGE_OVERWRITE,
 		};
 
+		// Newer operations are only keywords at the start of an action, so common
+		// field names like "format" keep working as paths and values
+		const leadingOperationMap: Record<string, ActionTokenType> = {
+			'SHIFT': ActionTokenType.SHIFT,
+			'FORMAT': ActionTokenType.FORMAT,
+			'TRANSFORM': ActionTokenType.TRANSFORM,
+			'REGEX_REPLACE': ActionTokenType.REGEX_REPLACE,
+			'SPLIT': ActionTokenType.SPLIT,
+			'JOIN': ActionTokenType.JOIN,
+			'CONVERT': ActionTokenType.CONVERT,
+			'NORMALIZE': ActionTokenType.NORMALIZE,
+			'REORDER': ActionTokenType.REORDER,
+			'KEEP': ActionTokenType.KEEP,
+		};
+
 		const keywordMap: Record<string, ActionTokenType> = {
 			'WHERE': ActionTokenType.WHERE,
 			'AT': ActionTokenType.AT,
@@ -465,6 +685,7 @@ class ActionLexer {
 			'DESC': ActionTokenType.DESC,
 			'START': ActionTokenType.START,
 			'END': ActionTokenType.END,
+			'AS': ActionTokenType.AS,
 			'TRUE': ActionTokenType.BOOLEAN,
 			'FALSE': ActionTokenType.BOOLEAN,
 			'NULL': ActionTokenType.NULL,
@@ -476,6 +697,12 @@ class ActionLexer {
 				value: value,
 				position: start
 			});
+		} else if (leadingOperationMap[upper] && this.tokens.length === 0) {
+			this.tokens.push({
+				type: leadingOperationMap[upper],
+				value: value,
+				position: start
+			});
 		} else if (keywordMap[upper]) {
 			if (upper === 'TRUE' || upper === 'FALSE') {
 				this.tokens.push({
@@ -515,11 +742,12 @@ class ActionLexer {
 		return /\d/.test(char);
 	}
 
+	/** Letters, including non-ASCII ones (keys like "größe" or "日付") */
 	private isAlpha(char: string): boolean {
-		return /[a-zA-Z]/.test(char);
+		return /[a-zA-Z\u00C0-\uFFFF]/.test(char);
 	}
 
 	private isAlphaNumeric(char: string): boolean {
-		return /[a-zA-Z0-9]/.test(char);
+		return /[a-zA-Z0-9\u00C0-\uFFFF]/.test(char);
 	}
 }
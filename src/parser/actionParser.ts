@@ -8,6 +8,7 @@
 
 import { ActionToken, ActionTokenType, tokenizeAction } from './actionLexer';
 import { parseCondition } from './conditionParser';
+import { parsePathSegments, joinPath, PathSegment } from './pathResolver';
 import {
 	ActionAST,
 	SetAction,
@@ -35,7 +36,41 @@ import {
 	ConditionAST,
 	IncrementAction,
 	DecrementAction,
+	ShiftAction,
+	FormatDateAction,
+	TransformAction,
+	RegexReplaceAction,
+	SplitAction,
+	JoinAction,
+	StringTransform,
+	ConvertAction,
+	ConvertTarget,
+	RenameKeysAction,
+	NormalizeKeysAction,
+	ReorderKeysAction,
+	SortKeysAction,
+	DeleteKeysAction,
+	KeepOnlyAction,
+	KeyCase,
+	Expression,
+	DateAnchor,
+	ExpressionOperator,
 } from '../types';
+import { isDateAnchor, parseDate } from '../utils/dates';
+import { EXPRESSION_FUNCTIONS } from '../evaluator/expressionEvaluator';
+
+/** Operations on the keys of an object (see getKeysOperation) */
+type KeysOperation = 'RENAME' | 'DELETE' | 'KEEP' | 'NORMALIZE' | 'REORDER' | 'SORT';
+
+/** Example of each key operation, used in error messages */
+const KEYS_OPERATION_SYNTAX: Record<KeysOperation, string> = {
+	RENAME: 'RENAME KEYS /^old-/ TO "new-"',
+	DELETE: 'DELETE KEYS "kanban-*"',
+	KEEP: 'KEEP ONLY title, tags',
+	NORMALIZE: 'NORMALIZE KEYS TO snake_case',
+	REORDER: 'REORDER KEYS title, *',
+	SORT: 'SORT KEYS ASC',
+};
 
 export class ActionParserError extends Error {
 	constructor(message: string, public token?: ActionToken) {
@@ -54,6 +89,111 @@ export function parseAction(input: string): ActionAST {
 	return parser.parse();
 }
 
+/**
+ * Split an action program into individual action strings
+ *
+ * Actions are separated by newlines or `;`. Separators inside quoted
+ * strings, `backtick` keys, /regex/ literals, JSON literals and {{templates}}
+ * are not treated as boundaries. Blank steps are dropped.
+ */
+export function splitActionProgram(input: string): string[] {
+	const steps: string[] = [];
+	let current = '';
+	let quote: string | null = null;
+	let escaped = false;
+	let depth = 0;
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+
+		if (quote) {
+			current += char;
+			if (escaped) {
+				escaped = false;
+			} else if (char === '\\' && quote !== '`') {
+				escaped = true;
+			} else if (char === quote) {
+				quote = null;
+			}
+			continue;
+		}
+
+		const regexEnd = char === '/' ? findRegexEnd(input, i) : -1;
+		if (regexEnd !== -1) {
+			current += input.substring(i, regexEnd);
+			i = regexEnd - 1;
+			continue;
+		}
+
+		if (char === '"' || char === "'" || char === '`') {
+			quote = char;
+		} else if (char === '[' || char === '{') {
+			depth++;
+		} else if ((char === ']' || char === '}') && depth > 0) {
+			depth--;
+		} else if ((char === ';' || char === '\n') && depth === 0) {
+			steps.push(current);
+			current = '';
+			continue;
+		}
+		current += char;
+	}
+	steps.push(current);
+
+	return steps.map(step => step.trim()).filter(step => step.length > 0);
+}
+
+/**
+ * End (exclusive) of a /regex/flags literal starting at start, or -1
+ *
+ * Mirrors the lexer: the slash starts a token, is not followed by whitespace
+ * or another slash, and is closed on the same line (words / 100 and
+ * folder/name are not regexes).
+ */
+function findRegexEnd(input: string, start: number): number {
+	const previous = start > 0 ? input[start - 1] : ' ';
+	const next = input[start + 1];
+	if (!/[\s(,=]/.test(previous) || next === undefined || /[\s/]/.test(next)) {
+		return -1;
+	}
+
+	let end = start + 1;
+	while (end < input.length && input[end] !== '/' && input[end] !== '\n') {
+		end += input[end] === '\\' ? 2 : 1;
+	}
+	if (end >= input.length || input[end] !== '/') {
+		return -1;
+	}
+
+	end++; // closing /
+	while (end < input.length && /[gimsuvy]/.test(input[end])) {
+		end++;
+	}
+	return end;
+}
+
+/**
+ * Parse an action program (one or more actions) into an ordered list of ActionASTs
+ *
+ * @throws ActionParserError prefixed with the step number when a step is invalid
+ */
+export function parseActionProgram(input: string): ActionAST[] {
+	const steps = splitActionProgram(input);
+	if (steps.length === 0) {
+		throw new ActionParserError('Action program is empty');
+	}
+
+	return steps.map((step, index) => {
+		try {
+			return parseAction(step);
+		} catch (error) {
+			if (steps.length === 1) throw error;
+			const message = error instanceof Error ? error.message : String(error);
+			throw new ActionParserError(`Step ${index + 1} (${step}): ${message}`);
+		}
+	});
+}
+
 class ActionParser {
 	private tokens: ActionToken[];
 	private position: number = 0;
@@ -207,6 +347,13 @@ class ActionParser {
 			}
 		}
 
+		// Key operations on a nested object: FOR meta RENAME KEYS ... / FOR meta SORT KEYS ...
+		const keysOperation = this.getKeysOperation();
+		if (keysOperation) {
+			this.validateNoWhere(condition, `${keysOperation} KEYS`);
+			return this.parseKeysOperation(keysOperation, path);
+		}
+
 		// Check for scalar operations with FOR (invalid)
 		// Note: SET can be used with FOR if there's a WHERE clause (conditional update)
 		// So only reject if it's a simple SET without WHERE
@@ -284,6 +431,12 @@ class ActionParser {
 	private parseScalarAction(): ActionAST {
 		const operation = this.current();
 
+		// Key operations on the frontmatter itself: RENAME KEYS ... / SORT KEYS ...
+		const keysOperation = this.getKeysOperation();
+		if (keysOperation) {
+			return this.parseKeysOperation(keysOperation, '');
+		}
+
 		switch (operation.type) {
 			case ActionTokenType.SET:
 				return this.parseScalarSet();
@@ -297,6 +450,26 @@ class ActionParser {
 				return this.parseDecrement();
 			case ActionTokenType.ADD:
 				return this.parseAdd();
+			case ActionTokenType.SHIFT:
+				return this.parseShift();
+			case ActionTokenType.FORMAT:
+				return this.parseFormat();
+			case ActionTokenType.TRANSFORM:
+				return this.parseTransform();
+			case ActionTokenType.REGEX_REPLACE:
+				return this.parseRegexReplace();
+			case ActionTokenType.SPLIT:
+				return this.parseSplit();
+			case ActionTokenType.JOIN:
+				return this.parseJoin();
+			case ActionTokenType.CONVERT:
+				return this.parseConvert();
+			case ActionTokenType.NORMALIZE:
+				return this.parseNormalizeKeys('');
+			case ActionTokenType.REORDER:
+				return this.parseReorderKeys('');
+			case ActionTokenType.KEEP:
+				throw new ActionParserError('Expected ONLY after KEEP. Syntax: KEEP ONLY title, date, tags', this.peek() ?? operation);
 			default:
 				throw new ActionParserError(`Unknown operation: ${operation.type}`, operation);
 		}
@@ -330,6 +503,23 @@ class ActionParser {
 			);
 		}
 
+		// Computed value: SET path = expression
+		if (this.current().type === ActionTokenType.EQUALS) {
+			this.advance(); // consume =
+			const expression = this.parseCompleteExpression();
+			return {
+				type: 'action',
+				target: {
+					type: 'path',
+					segments: this.pathToSegments(path)
+				},
+				operation: {
+					type: 'SET',
+					expression
+				}
+			} as any;
+		}
+
 		const value = this.parseValue();
 
 		// Check for WHERE after value (invalid - wrong position)
@@ -383,7 +573,7 @@ class ActionParser {
 
 		// Check for WHERE (invalid on DELETE)
 		const nextToken = this.current();
-		if (nextToken.type === ActionTokenType.IDENTIFIER) {
+		if (this.isPathStart(nextToken)) {
 			const pathStart = this.position;
 			this.parsePath();
 			if (this.current().type === ActionTokenType.WHERE) {
@@ -506,6 +696,24 @@ class ActionParser {
 	private parseAdd(): AddAction {
 		this.advance(); // consume ADD
 		const path = this.parsePath();
+
+		// Computed value: ADD path = expression
+		if (this.current().type === ActionTokenType.EQUALS) {
+			this.advance(); // consume =
+			const expression = this.parseCompleteExpression();
+			return {
+				type: 'action',
+				target: {
+					type: 'path',
+					segments: this.pathToSegments(path)
+				},
+				operation: {
+					type: 'ADD',
+					expression
+				}
+			} as any;
+		}
+
 		const value = this.parseValue();
 
 		// Return v2.0 AST structure with ADD operation
@@ -522,6 +730,727 @@ class ActionParser {
 		} as any;
 	}
 
+	/**
+	 * SHIFT path BY duration - Move a date by a duration (7d, -2w, 1m)
+	 */
+	private parseShift(): ShiftAction {
+		this.advance(); // consume SHIFT
+		const path = this.parsePath();
+		this.expect(ActionTokenType.BY, 'Expected BY after path in SHIFT. Syntax: SHIFT due BY 7d');
+
+		const token = this.current();
+		if (token.type !== ActionTokenType.DURATION) {
+			throw new ActionParserError('Expected duration for SHIFT (e.g. 7d, -2w, 1m, 1y)', token);
+		}
+		this.advance();
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: this.pathToSegments(path)
+			},
+			operation: {
+				type: 'SHIFT',
+				duration: String(token.value)
+			}
+		} as any;
+	}
+
+	/**
+	 * FORMAT path AS "format" - Rewrite a date in a luxon format
+	 */
+	private parseFormat(): FormatDateAction {
+		this.advance(); // consume FORMAT
+		const path = this.parsePath();
+		this.expect(ActionTokenType.AS, 'Expected AS after path in FORMAT. Syntax: FORMAT date AS "yyyy-MM-dd"');
+
+		const token = this.current();
+		if (token.type !== ActionTokenType.STRING || String(token.value).length === 0) {
+			throw new ActionParserError('Expected quoted date format for FORMAT (e.g. "yyyy-MM-dd")', token);
+		}
+		this.advance();
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: this.pathToSegments(path)
+			},
+			operation: {
+				type: 'FORMAT',
+				format: String(token.value)
+			}
+		} as any;
+	}
+
+	/**
+	 * TRANSFORM path LOWERCASE|UPPERCASE|TITLECASE|TRIM|SLUGIFY
+	 */
+	private parseTransform(): TransformAction {
+		this.advance(); // consume TRANSFORM
+		const path = this.parsePath();
+
+		const transforms: StringTransform[] = ['LOWERCASE', 'UPPERCASE', 'TITLECASE', 'TRIM', 'SLUGIFY'];
+		const token = this.current();
+		const transform = String(token.value).toUpperCase() as StringTransform;
+		if (token.type !== ActionTokenType.IDENTIFIER || !transforms.includes(transform)) {
+			throw new ActionParserError(`Expected transform after path in TRANSFORM: ${transforms.join(', ')}`, token);
+		}
+		this.advance();
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: this.pathToSegments(path)
+			},
+			operation: {
+				type: 'TRANSFORM',
+				transform
+			}
+		} as any;
+	}
+
+	/**
+	 * REGEX_REPLACE path /pattern/flags "replacement"
+	 */
+	private parseRegexReplace(): RegexReplaceAction {
+		this.advance(); // consume REGEX_REPLACE
+		const path = this.parsePath();
+
+		const patternToken = this.current();
+		if (patternToken.type !== ActionTokenType.REGEX) {
+			throw new ActionParserError('Expected /pattern/ after path in REGEX_REPLACE. Syntax: REGEX_REPLACE summary /foo/g "bar"', patternToken);
+		}
+		this.advance();
+
+		const replacementToken = this.current();
+		if (replacementToken.type !== ActionTokenType.STRING) {
+			throw new ActionParserError('Expected quoted replacement after pattern in REGEX_REPLACE', replacementToken);
+		}
+		this.advance();
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: this.pathToSegments(path)
+			},
+			operation: {
+				type: 'REGEX_REPLACE',
+				pattern: String(patternToken.value),
+				replacement: String(replacementToken.value)
+			}
+		} as any;
+	}
+
+	/**
+	 * SPLIT path BY "separator" | /pattern/
+	 */
+	private parseSplit(): SplitAction {
+		this.advance(); // consume SPLIT
+		const path = this.parsePath();
+		this.expect(ActionTokenType.BY, 'Expected BY after path in SPLIT. Syntax: SPLIT keywords BY ","');
+
+		const token = this.current();
+		if ((token.type !== ActionTokenType.STRING && token.type !== ActionTokenType.REGEX) || token.value === '') {
+			throw new ActionParserError('Expected quoted separator or /pattern/ for SPLIT', token);
+		}
+		this.advance();
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: this.pathToSegments(path)
+			},
+			operation: {
+				type: 'SPLIT',
+				separator: String(token.value),
+				regex: token.type === ActionTokenType.REGEX
+			}
+		} as any;
+	}
+
+	/**
+	 * JOIN path WITH "separator"
+	 */
+	private parseJoin(): JoinAction {
+		this.advance(); // consume JOIN
+		const path = this.parsePath();
+		this.expect(ActionTokenType.WITH, 'Expected WITH after path in JOIN. Syntax: JOIN tags WITH ", "');
+
+		const token = this.current();
+		if (token.type !== ActionTokenType.STRING) {
+			throw new ActionParserError('Expected quoted separator for JOIN', token);
+		}
+		this.advance();
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: this.pathToSegments(path)
+			},
+			operation: {
+				type: 'JOIN',
+				separator: String(token.value)
+			}
+		} as any;
+	}
+
+	/**
+	 * CONVERT path TO number|boolean|string|array|date [STRICT|LENIENT]
+	 */
+	private parseConvert(): ConvertAction {
+		this.advance(); // consume CONVERT
+		const path = this.parsePath();
+		this.expect(ActionTokenType.TO, 'Expected TO after path in CONVERT. Syntax: CONVERT priority TO number');
+
+		const targets: ConvertTarget[] = ['number', 'boolean', 'string', 'array', 'date'];
+		const token = this.current();
+		const to = String(token.value).toLowerCase() as ConvertTarget;
+		if (token.type !== ActionTokenType.IDENTIFIER || !targets.includes(to)) {
+			throw new ActionParserError(`Expected type after TO in CONVERT: ${targets.join(', ')}`, token);
+		}
+		this.advance();
+
+		// Optional mode (strict by default)
+		let mode: 'strict' | 'lenient' = 'strict';
+		const modeToken = this.current();
+		if (modeToken.type === ActionTokenType.IDENTIFIER) {
+			const modeName = String(modeToken.value).toLowerCase();
+			if (modeName !== 'strict' && modeName !== 'lenient') {
+				throw new ActionParserError(`Expected STRICT or LENIENT after type in CONVERT, got '${modeToken.value}'`, modeToken);
+			}
+			mode = modeName;
+			this.advance();
+		}
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: this.pathToSegments(path)
+			},
+			operation: {
+				type: 'CONVERT',
+				to,
+				mode
+			}
+		} as any;
+	}
+
+	// ===== KEY OPERATIONS =====
+
+	/**
+	 * Check for a key operation (RENAME/DELETE/NORMALIZE/REORDER/SORT KEYS, KEEP ONLY) at the current token
+	 *
+	 * KEYS and ONLY are only keywords here, so "RENAME keys TO tags" and
+	 * "DELETE keys" still work on a field; anything else after RENAME/DELETE
+	 * KEYS is parsed as a pattern (or rejected). NORMALIZE, REORDER and KEEP are
+	 * identifiers after FOR path (newer operation keywords are leading-only).
+	 */
+	private getKeysOperation(): KeysOperation | null {
+		const token = this.current();
+		const next = this.peek(1);
+		const name = token.type === ActionTokenType.IDENTIFIER ? String(token.value).toUpperCase() : String(token.type);
+		const nextWord = next?.type === ActionTokenType.IDENTIFIER ? String(next.value).toUpperCase() : '';
+
+		if (name === 'KEEP') {
+			return nextWord === 'ONLY' ? 'KEEP' : null;
+		}
+		if (nextWord !== 'KEYS') {
+			return null;
+		}
+
+		switch (name) {
+			case 'RENAME':
+			case 'DELETE': {
+				// "keys" is a field name only in RENAME keys TO newPath / DELETE keys
+				const pattern = this.peek(2);
+				const fieldEnd = name === 'RENAME' ? ActionTokenType.TO : ActionTokenType.EOF;
+				return pattern?.type === fieldEnd ? null : name;
+			}
+			case 'NORMALIZE':
+			case 'REORDER':
+			case 'SORT':
+				return name;
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Parse a key operation that must make up the rest of the action
+	 */
+	private parseKeysOperation(operation: KeysOperation, path: string): ActionAST {
+		const action = this.parseKeysOperationBody(operation, path);
+		this.expectKeysOperationEnd(operation);
+		return action;
+	}
+
+	private parseKeysOperationBody(operation: KeysOperation, path: string): ActionAST {
+		switch (operation) {
+			case 'RENAME':
+				return this.parseRenameKeys(path);
+			case 'DELETE':
+				return this.parseDeleteKeys(path);
+			case 'KEEP':
+				return this.parseKeepOnly(path);
+			case 'NORMALIZE':
+				return this.parseNormalizeKeys(path);
+			case 'REORDER':
+				return this.parseReorderKeys(path);
+			case 'SORT':
+				return this.parseSortKeys(path);
+		}
+	}
+
+	/**
+	 * Reject tokens left after a key operation, e.g. the "meta" in "SORT KEYS meta ASC".
+	 * Key operations on a nested object take the object's path through FOR.
+	 */
+	private expectKeysOperationEnd(operation: KeysOperation): void {
+		const token = this.current();
+		if (token.type !== ActionTokenType.EOF) {
+			throw this.nestedKeysError(operation, token);
+		}
+	}
+
+	private nestedKeysError(
+		operation: KeysOperation,
+		token: ActionToken,
+		path = token.type === ActionTokenType.IDENTIFIER ? String(token.value) : 'meta'
+	): ActionParserError {
+		const name = operation === 'KEEP' ? 'KEEP ONLY' : `${operation} KEYS`;
+		return new ActionParserError(
+			`Unexpected '${token.raw ?? token.value}' after ${name}. ` +
+			`To change the keys of a nested object use FOR: FOR ${path} ${KEYS_OPERATION_SYNTAX[operation]}`,
+			token
+		);
+	}
+
+	/**
+	 * [FOR path] DELETE KEYS /pattern/flags|"glob"
+	 */
+	private parseDeleteKeys(path: string): DeleteKeysAction {
+		this.advance(); // consume DELETE
+		this.advance(); // consume KEYS
+		const { pattern, regex } = this.parseKeyPattern('DELETE');
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: path ? this.pathToSegments(path) : []
+			},
+			operation: {
+				type: 'DELETE_KEYS',
+				pattern,
+				regex
+			}
+		} as any;
+	}
+
+	/**
+	 * [FOR path] KEEP ONLY title, date, tags
+	 */
+	private parseKeepOnly(path: string): KeepOnlyAction {
+		this.advance(); // consume KEEP
+		this.advance(); // consume ONLY
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: path ? this.pathToSegments(path) : []
+			},
+			operation: {
+				type: 'KEEP_ONLY',
+				keys: this.parseKeyList('KEEP ONLY', 'KEEP ONLY title, date, tags', false)
+			}
+		} as any;
+	}
+
+	/**
+	 * [FOR path] RENAME KEYS /pattern/flags|"glob" TO "replacement"
+	 */
+	private parseRenameKeys(path: string): RenameKeysAction {
+		this.advance(); // consume RENAME
+		this.advance(); // consume KEYS
+		const { pattern, regex } = this.parseKeyPattern('RENAME');
+		this.expect(ActionTokenType.TO, 'Expected TO after pattern in RENAME KEYS. Syntax: RENAME KEYS /^date-(.*)$/ TO "$1_date"');
+
+		const replacementToken = this.current();
+		if (replacementToken.type !== ActionTokenType.STRING || replacementToken.value === '') {
+			throw new ActionParserError('Expected quoted new key name after TO in RENAME KEYS', replacementToken);
+		}
+		this.advance();
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: path ? this.pathToSegments(path) : []
+			},
+			operation: {
+				type: 'RENAME_KEYS',
+				pattern,
+				regex,
+				replacement: String(replacementToken.value)
+			}
+		} as any;
+	}
+
+	/**
+	 * [FOR path] NORMALIZE KEYS TO snake_case|camelCase|kebab-case
+	 */
+	private parseNormalizeKeys(path: string): NormalizeKeysAction {
+		this.advance(); // consume NORMALIZE
+		this.expectKeys('NORMALIZE');
+		this.expect(ActionTokenType.TO, 'Expected TO after KEYS in NORMALIZE. Syntax: NORMALIZE KEYS TO snake_case');
+
+		const styles: KeyCase[] = ['snake_case', 'camelCase', 'kebab-case'];
+		const token = this.current();
+		const style = styles.find(s => s.toLowerCase() === String(token.value).toLowerCase());
+		if (token.type !== ActionTokenType.IDENTIFIER || !style) {
+			throw new ActionParserError(`Expected key style after TO in NORMALIZE KEYS: ${styles.join(', ')}`, token);
+		}
+		this.advance();
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: path ? this.pathToSegments(path) : []
+			},
+			operation: {
+				type: 'NORMALIZE_KEYS',
+				style
+			}
+		} as any;
+	}
+
+	/**
+	 * [FOR path] REORDER KEYS title, date, tags, *
+	 *
+	 * * stands for all other keys in their current order (at the end if omitted).
+	 */
+	private parseReorderKeys(path: string): ReorderKeysAction {
+		this.advance(); // consume REORDER
+		this.expectKeys('REORDER');
+		const order = this.parseKeyList('REORDER KEYS', 'REORDER KEYS title, date, tags, *', true);
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: path ? this.pathToSegments(path) : []
+			},
+			operation: {
+				type: 'REORDER_KEYS',
+				order
+			}
+		} as any;
+	}
+
+	/**
+	 * [FOR path] SORT KEYS [ASC|DESC]
+	 */
+	private parseSortKeys(path: string): SortKeysAction {
+		this.advance(); // consume SORT
+		this.expectKeys('SORT');
+
+		let order: 'ASC' | 'DESC' = 'ASC';
+		const orderToken = this.current();
+		if (orderToken.type === ActionTokenType.ASC || orderToken.type === ActionTokenType.DESC) {
+			order = orderToken.type === ActionTokenType.DESC ? 'DESC' : 'ASC';
+			this.advance();
+		}
+
+		return {
+			type: 'action',
+			target: {
+				type: 'path',
+				segments: path ? this.pathToSegments(path) : []
+			},
+			operation: {
+				type: 'SORT_KEYS',
+				order
+			}
+		} as any;
+	}
+
+	/**
+	 * Comma-separated key names (quoted for keys with spaces), optionally one *
+	 */
+	private parseKeyList(operation: string, syntax: string, allowWildcard: boolean): string[] {
+		const keys: string[] = [];
+		while (true) {
+			const token = this.current();
+			if (token.type === ActionTokenType.STAR && allowWildcard) {
+				if (keys.includes('*')) {
+					throw new ActionParserError(`Only one * allowed in ${operation}`, token);
+				}
+				keys.push('*');
+			} else if (token.type === ActionTokenType.IDENTIFIER || token.type === ActionTokenType.STRING) {
+				keys.push(String(token.value));
+			} else {
+				throw new ActionParserError(
+					`Expected key name${allowWildcard ? ' or *' : ''} in ${operation}. Syntax: ${syntax}`,
+					token
+				);
+			}
+			this.advance();
+
+			if (this.current().type !== ActionTokenType.COMMA) break;
+			this.advance(); // consume comma
+		}
+		return keys;
+	}
+
+	/**
+	 * Key pattern after RENAME/DELETE KEYS: /regex/flags, "glob" or an unquoted
+	 * glob such as kanban-* (adjacent tokens up to the next space)
+	 */
+	private parseKeyPattern(operation: 'RENAME' | 'DELETE'): { pattern: string; regex: boolean } {
+		const first = this.current();
+		if (first.type === ActionTokenType.REGEX || first.type === ActionTokenType.STRING) {
+			this.advance();
+			return { pattern: String(first.value), regex: first.type === ActionTokenType.REGEX };
+		}
+
+		const globTokens = [ActionTokenType.IDENTIFIER, ActionTokenType.STAR, ActionTokenType.MINUS, ActionTokenType.NUMBER, ActionTokenType.DOT];
+		let pattern = '';
+		let end = first.position;
+		while (globTokens.includes(this.current().type) && this.current().position === end) {
+			const text = this.current().raw ?? String(this.current().value);
+			pattern += text;
+			end += text.length;
+			this.advance();
+		}
+		if (!pattern) {
+			throw new ActionParserError(
+				`Expected /regex/ or glob after ${operation} KEYS. Syntax: ${KEYS_OPERATION_SYNTAX[operation]}`,
+				first
+			);
+		}
+
+		// RENAME KEYS meta /x/ TO "y": the unquoted word was meant as the object's path
+		const next = this.current();
+		if (next.type === ActionTokenType.REGEX || next.type === ActionTokenType.STRING) {
+			throw this.nestedKeysError(operation, first, pattern);
+		}
+		return { pattern, regex: false };
+	}
+
+	/**
+	 * Consume the KEYS word after a key operation
+	 */
+	private expectKeys(operation: string): void {
+		const token = this.current();
+		if (token.type !== ActionTokenType.IDENTIFIER || String(token.value).toUpperCase() !== 'KEYS') {
+			throw new ActionParserError(`Expected KEYS after ${operation}`, token);
+		}
+		this.advance();
+	}
+
+	/**
+	 * Parse an expression that must make up the rest of the action
+	 */
+	private parseCompleteExpression(): Expression {
+		const expression = this.parseExpression();
+		const token = this.current();
+		if (token.type !== ActionTokenType.EOF) {
+			throw new ActionParserError(
+				`Unexpected '${token.raw ?? token.value}' after expression. Operators need spaces around them: words / 100`,
+				token
+			);
+		}
+		return expression;
+	}
+
+	/**
+	 * Parse expression (lowest precedence first):
+	 *   comparison     := additive (('=' | '!=' | '>' | '<' | '>=' | '<=') additive)?
+	 *   additive       := multiplicative (('+' | '-') multiplicative | signed duration)*
+	 *   multiplicative := unary (('*' | '/' | '%') unary)*
+	 *   unary          := '-' unary | primary
+	 * e.g. last_review + 14d, words / 100, if(length(tags) > 3, "busy", "calm")
+	 */
+	private parseExpression(): Expression {
+		const left = this.parseAdditive();
+
+		const operators: Partial<Record<ActionTokenType, ExpressionOperator>> = {
+			[ActionTokenType.EQUALS]: '=',
+			[ActionTokenType.NOT_EQUALS]: '!=',
+			[ActionTokenType.GREATER_THAN]: '>',
+			[ActionTokenType.LESS_THAN]: '<',
+			[ActionTokenType.GREATER_EQUAL]: '>=',
+			[ActionTokenType.LESS_EQUAL]: '<=',
+		};
+		const operator = operators[this.current().type];
+		if (!operator) {
+			return left;
+		}
+
+		this.advance();
+		return { type: 'binary', operator, left, right: this.parseAdditive() };
+	}
+
+	private parseAdditive(): Expression {
+		let expression = this.parseMultiplicative();
+
+		while (true) {
+			const token = this.current();
+
+			// "due -7d": the sign belongs to the duration
+			if (token.type === ActionTokenType.DURATION && /^[+-]/.test(String(token.value))) {
+				const value = String(token.value);
+				this.advance();
+				expression = {
+					type: 'binary',
+					operator: value[0] as '+' | '-',
+					left: expression,
+					right: { type: 'duration', value: value.substring(1) },
+				};
+				continue;
+			}
+
+			if (token.type === ActionTokenType.PLUS || token.type === ActionTokenType.MINUS) {
+				this.advance();
+				expression = {
+					type: 'binary',
+					operator: token.type === ActionTokenType.PLUS ? '+' : '-',
+					left: expression,
+					right: this.parseMultiplicative(),
+				};
+				continue;
+			}
+
+			// "x -1": the lexer reads a negative number
+			if (token.type === ActionTokenType.NUMBER && (token.value as number) < 0 && token.raw?.startsWith('-')) {
+				this.advance();
+				expression = {
+					type: 'binary',
+					operator: '-',
+					left: expression,
+					right: { type: 'literal', value: -(token.value as number) },
+				};
+				continue;
+			}
+
+			return expression;
+		}
+	}
+
+	private parseMultiplicative(): Expression {
+		let expression = this.parseUnary();
+
+		const operators: Partial<Record<ActionTokenType, ExpressionOperator>> = {
+			[ActionTokenType.STAR]: '*',
+			[ActionTokenType.SLASH]: '/',
+			[ActionTokenType.PERCENT]: '%',
+		};
+
+		let operator = operators[this.current().type];
+		while (operator) {
+			this.advance();
+			expression = { type: 'binary', operator, left: expression, right: this.parseUnary() };
+			operator = operators[this.current().type];
+		}
+
+		return expression;
+	}
+
+	private parseUnary(): Expression {
+		if (this.current().type === ActionTokenType.MINUS) {
+			this.advance();
+			return { type: 'unary', operator: '-', operand: this.parseUnary() };
+		}
+		return this.parseOperand();
+	}
+
+	/**
+	 * Parse function call arguments: '(' (expression (',' expression)*)? ')'
+	 */
+	private parseCall(nameToken: ActionToken): Expression {
+		const name = String(nameToken.value);
+		const fn = EXPRESSION_FUNCTIONS[name.toLowerCase()];
+		if (!fn) {
+			throw new ActionParserError(
+				`Unknown function: ${name}(). Available: ${Object.keys(EXPRESSION_FUNCTIONS).join(', ')}`,
+				nameToken
+			);
+		}
+
+		this.advance(); // consume name
+		this.advance(); // consume (
+
+		const args: Expression[] = [];
+		if (this.current().type !== ActionTokenType.RPAREN) {
+			args.push(this.parseExpression());
+			while (this.current().type === ActionTokenType.COMMA) {
+				this.advance();
+				args.push(this.parseExpression());
+			}
+		}
+		this.expect(ActionTokenType.RPAREN, `Expected ) to close ${name}(`);
+
+		if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+			const expected = fn.minArgs === fn.maxArgs
+				? `${fn.minArgs}`
+				: fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+			throw new ActionParserError(`${name}() takes ${expected} argument(s), got ${args.length}`, nameToken);
+		}
+
+		return { type: 'call', name: name.toLowerCase(), args };
+	}
+
+	/**
+	 * Parse expression operand: parenthesized expression, function call, field
+	 * path, date, date anchor, duration or literal value
+	 */
+	private parseOperand(): Expression {
+		const token = this.current();
+
+		if (token.type === ActionTokenType.LPAREN) {
+			this.advance();
+			const expression = this.parseExpression();
+			this.expect(ActionTokenType.RPAREN, 'Expected closing parenthesis');
+			return expression;
+		}
+
+		if (token.type === ActionTokenType.IDENTIFIER && this.peek()?.type === ActionTokenType.LPAREN) {
+			return this.parseCall(token);
+		}
+
+		if (token.type === ActionTokenType.DURATION) {
+			this.advance();
+			return { type: 'duration', value: String(token.value) };
+		}
+
+		if (token.type === ActionTokenType.DATE) {
+			if (!parseDate(token.value)) {
+				throw new ActionParserError(`Invalid date: ${token.value}`, token);
+			}
+			this.advance();
+			return { type: 'date', literal: String(token.value) };
+		}
+
+		if (token.type === ActionTokenType.IDENTIFIER) {
+			if (isDateAnchor(String(token.value))) {
+				this.advance();
+				return { type: 'date', anchor: token.value as DateAnchor };
+			}
+			return { type: 'field', path: this.parsePath() };
+		}
+
+		return { type: 'literal', value: this.parseValue() };
+	}
+
 	// ===== COLLECTION OPERATIONS (FOR-based) =====
 
 	/**
@@ -1201,12 +2130,18 @@ class ActionParser {
 		let path = '';
 
 		const startToken = this.current();
-		if (startToken.type !== ActionTokenType.IDENTIFIER) {
+		if (!this.isPathStart(startToken)) {
 			throw new ActionParserError('Expected identifier for path', startToken);
 		}
 
-		path = String(startToken.value);
-		this.advance();
+		if (startToken.type === ActionTokenType.ARRAY) {
+			// ["my.key"] where a path is expected is a quoted key, not an array
+			path = joinPath('', (startToken.value as string[])[0]);
+			this.advance();
+		} else if (startToken.type === ActionTokenType.IDENTIFIER) {
+			path = String(startToken.value);
+			this.advance();
+		}
 
 		// Continue building path with dots and brackets
 		while (true) {
@@ -1234,6 +2169,15 @@ class ActionParser {
 				}
 
 				this.expect(ActionTokenType.RBRACKET, 'Expected closing bracket');
+			} else if (token.type === ActionTokenType.PATH_SELECTOR) {
+				// [*] or [?key="value"]: validated here so errors point at the selector
+				try {
+					parsePathSegments(String(token.value));
+				} catch (error) {
+					throw new ActionParserError(error instanceof Error ? error.message : 'Invalid path selector', token);
+				}
+				path += token.value;
+				this.advance();
 			} else {
 				break;
 			}
@@ -1242,32 +2186,28 @@ class ActionParser {
 		return path;
 	}
 
+	/**
+	 * Whether a token can start a path: a name, a [*] or [?...] selector, or a
+	 * quoted key (["my.key"] is lexed as a one-string array)
+	 */
+	private isPathStart(token: ActionToken): boolean {
+		if (token.type === ActionTokenType.ARRAY) {
+			const value = token.value as any[];
+			return value.length === 1 && typeof value[0] === 'string';
+		}
+		return token.type === ActionTokenType.IDENTIFIER || token.type === ActionTokenType.PATH_SELECTOR;
+	}
+
 	/**
 	 * Convert string path to v2.0 path segments structure
 	 * "title" -> [{ type: 'property', key: 'title' }]
 	 * "metadata.author" -> [{ type: 'property', key: 'metadata' }, { type: 'property', key: 'author' }]
 	 * "tasks[0]" -> [{ type: 'property', key: 'tasks' }, { type: 'index', index: 0 }]
+	 * "tasks[*].status" -> [{ type: 'property', key: 'tasks' }, { type: 'wildcard' }, { type: 'property', key: 'status' }]
+	 * "**.deprecated" -> [{ type: 'recursive' }, { type: 'property', key: 'deprecated' }]
 	 */
-	private pathToSegments(path: string): Array<{ type: string; key?: string; index?: number }> {
-		const segments: Array<{ type: string; key?: string; index?: number }> = [];
-
-		// Split by dots, but handle array indices
-		const parts = path.split(/\.(?![^\[]*\])/); // Split on dots not inside brackets
-
-		for (const part of parts) {
-			// Check if this part has an array index
-			const arrayMatch = part.match(/^([^\[]+)\[(\d+)\]$/);
-			if (arrayMatch) {
-				// Property with array index: "tasks[0]"
-				segments.push({ type: 'property', key: arrayMatch[1] });
-				segments.push({ type: 'index', index: parseInt(arrayMatch[2]) });
-			} else {
-				// Simple property: "title" or "author"
-				segments.push({ type: 'property', key: part });
-			}
-		}
-
-		return segments;
+	private pathToSegments(path: string): PathSegment[] {
+		return parsePathSegments(path);
 	}
 
 	/**
@@ -1306,6 +2246,11 @@ class ActionParser {
 			return token.value;
 		}
 
+		if (token.type === ActionTokenType.DATE) {
+			this.advance();
+			return token.value; // Unquoted date: "2024-01-15"
+		}
+
 		throw new ActionParserError('Expected value', token);
 	}
 
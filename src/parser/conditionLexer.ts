@@ -5,6 +5,8 @@
  * Converts condition strings into tokens for parsing
  */
 
+import { DATE_TOKEN, DURATION_TOKEN } from '../utils/dates';
+
 export enum TokenType {
 	// Literals
 	IDENTIFIER = 'IDENTIFIER',
@@ -12,6 +14,8 @@ export enum TokenType {
 	NUMBER = 'NUMBER',
 	BOOLEAN = 'BOOLEAN',
 	NULL = 'NULL',
+	DATE = 'DATE',                        // 2024-01-15, 2024-01-15T10:30Z
+	DURATION = 'DURATION',                // 7d, -2w, +1m
 
 	// Operators
 	EQUALS = 'EQUALS',                    // =
@@ -21,6 +25,8 @@ export enum TokenType {
 	GREATER_EQUAL = 'GREATER_EQUAL',      // >=
 	LESS_EQUAL = 'LESS_EQUAL',            // <=
 	REGEX_MATCH = 'REGEX_MATCH',          // ~
+	PLUS = 'PLUS',                        // + (date offsets)
+	MINUS = 'MINUS',                      // - (date offsets)
 
 	// Boolean operators
 	AND = 'AND',
@@ -45,13 +51,16 @@ export enum TokenType {
 	TYPE_ARRAY = 'TYPE_ARRAY',            // :array
 	TYPE_OBJECT = 'TYPE_OBJECT',          // :object
 	TYPE_NULL = 'TYPE_NULL',              // :null
+	TYPE_DATE = 'TYPE_DATE',              // :date
 
 	// Punctuation
 	LPAREN = 'LPAREN',                    // (
 	RPAREN = 'RPAREN',                    // )
 	LBRACKET = 'LBRACKET',                // [
 	RBRACKET = 'RBRACKET',                // ]
+	PATH_FILTER = 'PATH_FILTER',          // [?key="value"]
 	DOT = 'DOT',                          // .
+	ARROW = 'ARROW',                      // -> (follow a wikilink)
 	COMMA = 'COMMA',                      // ,
 	EXCLAMATION = 'EXCLAMATION',          // !
 
@@ -114,6 +123,11 @@ class ConditionLexer {
 				continue;
 			}
 
+			if (char === '[' && this.peek() === '?') {
+				this.tokenizePathFilter();
+				continue;
+			}
+
 			if (char === '[') {
 				this.tokens.push({ type: TokenType.LBRACKET, value: '[', position: this.position });
 				this.position++;
@@ -196,12 +210,48 @@ class ConditionLexer {
 				continue;
 			}
 
+			// Backtick-quoted key: `my.key` (kept with backticks, the path resolver unquotes it)
+			if (char === '`') {
+				const end = this.input.indexOf('`', this.position + 1);
+				if (end === -1) {
+					throw new LexerError('Unclosed backtick', this.position);
+				}
+				this.tokens.push({ type: TokenType.IDENTIFIER, value: this.input.substring(this.position, end + 1), position: this.position });
+				this.position = end + 1;
+				continue;
+			}
+
+			if (char === '-' && this.peek() === '>') {
+				this.tokens.push({ type: TokenType.ARROW, value: '->', position: this.position });
+				this.position += 2;
+				continue;
+			}
+
+			// Dates and durations (before numbers: 2024-01-15 is not 2024 - 1 - 15)
+			if ((this.isDigit(char) || char === '-' || char === '+') &&
+			    (this.tokenizePattern(DATE_TOKEN, TokenType.DATE) ||
+			     this.tokenizePattern(DURATION_TOKEN, TokenType.DURATION))) {
+				continue;
+			}
+
 			// Numbers
 			if (this.isDigit(char) || (char === '-' && this.isDigit(this.peek() || ''))) {
 				this.tokenizeNumber();
 				continue;
 			}
 
+			if (char === '+') {
+				this.tokens.push({ type: TokenType.PLUS, value: '+', position: this.position });
+				this.position++;
+				continue;
+			}
+
+			if (char === '-') {
+				this.tokens.push({ type: TokenType.MINUS, value: '-', position: this.position });
+				this.position++;
+				continue;
+			}
+
 			// Type checks (:string, :number, etc.)
 			if (char === ':') {
 				this.tokenizeTypeCheck();
@@ -232,6 +282,29 @@ class ConditionLexer {
 		return pos < this.input.length ? this.input[pos] : null;
 	}
 
+	/**
+	 * Tokenize a [?key="value"] path filter as one token (] inside quotes allowed)
+	 */
+	private tokenizePathFilter(): void {
+		const start = this.position;
+		let quote: string | null = null;
+
+		while (this.position < this.input.length) {
+			const char = this.input[this.position++];
+			if (quote) {
+				if (char === '\\') this.position++;
+				else if (char === quote) quote = null;
+			} else if (char === '"' || char === "'") {
+				quote = char;
+			} else if (char === ']') {
+				this.tokens.push({ type: TokenType.PATH_FILTER, value: this.input.substring(start, this.position), position: start });
+				return;
+			}
+		}
+
+		throw new LexerError('Unclosed path filter', start);
+	}
+
 	private tokenizeString(quote: string): void {
 		const start = this.position;
 		this.position++; // Skip opening quote
@@ -282,6 +355,26 @@ class ConditionLexer {
 		throw new LexerError(`Unterminated string starting at position ${start}`, start);
 	}
 
+	/**
+	 * Push a token for a pattern match at the current position
+	 * @returns true if the pattern matched
+	 */
+	private tokenizePattern(pattern: RegExp, type: TokenType): boolean {
+		const match = this.input.substring(this.position).match(pattern);
+		if (!match) {
+			return false;
+		}
+
+		this.tokens.push({
+			type,
+			value: match[0],
+			position: this.position,
+			raw: match[0]
+		});
+		this.position += match[0].length;
+		return true;
+	}
+
 	private tokenizeNumber(): void {
 		const start = this.position;
 		let numStr = '';
@@ -394,6 +487,7 @@ class ConditionLexer {
 			'array': TokenType.TYPE_ARRAY,
 			'object': TokenType.TYPE_OBJECT,
 			'null': TokenType.TYPE_NULL,
+			'date': TokenType.TYPE_DATE,
 		};
 
 		const tokenType = typeMap[typeName];
@@ -412,13 +506,13 @@ class ConditionLexer {
 		const start = this.position;
 		let value = '';
 
-		// Handle * as a special identifier for wildcards
+		// Handle * (array wildcard) and ** (any depth) as special identifiers
 		if (this.input[this.position] === '*') {
-			value = '*';
-			this.position++;
+			value = this.peek() === '*' ? '**' : '*';
+			this.position += value.length;
 			this.tokens.push({
 				type: TokenType.IDENTIFIER,
-				value: '*',
+				value,
 				position: start
 			});
 			return;
@@ -427,7 +521,7 @@ class ConditionLexer {
 		while (this.position < this.input.length &&
 		       (this.isAlphaNumeric(this.input[this.position]) ||
 		        this.input[this.position] === '_' ||
-		        this.input[this.position] === '-' ||
+		        (this.input[this.position] === '-' && this.peek() !== '>') ||
 		        this.input[this.position] === '/')) {
 			value += this.input[this.position];
 			this.position++;
@@ -495,11 +589,12 @@ class ConditionLexer {
 		return /\d/.test(char);
 	}
 
+	/** Letters, including non-ASCII ones (keys like "größe" or "日付") */
 	private isAlpha(char: string): boolean {
-		return /[a-zA-Z]/.test(char);
+		return /[a-zA-Z\u00C0-\uFFFF]/.test(char);
 	}
 
 	private isAlphaNumeric(char: string): boolean {
-		return /[a-zA-Z0-9]/.test(char);
+		return /[a-zA-Z0-9\u00C0-\uFFFF]/.test(char);
 	}
 }
@@ -15,12 +15,17 @@ import {
 	ComparisonNode,
 	ExistenceNode,
 	TypeCheckNode,
+	ValueType,
 	EmptyCheckNode,
 	HasNode,
 	BooleanNode,
 	NotNode,
 	QuantifierNode,
+	DateAnchor,
+	DateExpression,
 } from '../types';
+import { isDateAnchor, parseDate } from '../utils/dates';
+import { parsePathSegments } from './pathResolver';
 
 export class ParserError extends Error {
 	constructor(message: string, public token?: Token) {
@@ -137,8 +142,8 @@ class ConditionParser {
 			return this.parseQuantifier();
 		}
 
-		// Path-based expressions
-		if (token.type === TokenType.IDENTIFIER) {
+		// Path-based expressions (also starting with a quoted key: ["my key"])
+		if (token.type === TokenType.IDENTIFIER || this.isQuotedKey()) {
 			return this.parsePathExpression();
 		}
 
@@ -255,11 +260,10 @@ class ConditionParser {
 		// IN operator: path IN array
 		if (token.type === TokenType.IN) {
 			this.advance();
-			const array = this.parseValue();
 			return {
 				type: 'in',
 				path,
-				values: array,
+				values: this.parseValueList(),
 			};
 		}
 
@@ -267,7 +271,7 @@ class ConditionParser {
 		if (this.isComparisonOperator(token.type)) {
 			const operator = this.parseComparisonOperator(token.type);
 			this.advance();
-			const right = this.parseValue();
+			const right = operator !== '~' && this.isDateStart() ? this.parseDateExpression() : this.parseValue();
 			return {
 				type: 'comparison',
 				left: path,
@@ -280,26 +284,56 @@ class ConditionParser {
 	}
 
 	/**
-	 * Parse path (supports dot notation and array indices)
-	 * Example: items[0].name or metadata.author.length
+	 * Parse path (supports dot notation, array indices and links)
+	 * Example: items[0].name, metadata.author.length or project->status
 	 */
 	private parsePath(): string {
 		let path = '';
 		const startToken = this.current();
 
-		if (startToken.type !== TokenType.IDENTIFIER) {
+		if (this.isQuotedKey()) {
+			path = this.parseQuotedKey();
+		} else if (startToken.type === TokenType.IDENTIFIER) {
+			path = String(startToken.value);
+			this.advance();
+		} else {
 			throw new ParserError('Expected identifier', startToken);
 		}
 
-		path = String(startToken.value);
-		this.advance();
-
 		// Continue building path with dots and brackets
 		while (true) {
 			const token = this.current();
 
+			// Quoted key: ["my.key"]
+			if (this.isQuotedKey()) {
+				path += this.parseQuotedKey();
+				continue;
+			}
+
+			// Link: ->field in the linked note
+			if (token.type === TokenType.ARROW) {
+				this.advance();
+				const next = this.current();
+
+				if (this.isQuotedKey()) {
+					path += '->' + this.parseQuotedKey();
+				} else if (next.type === TokenType.IDENTIFIER) {
+					path += '->' + next.value;
+					this.advance();
+				} else {
+					throw new ParserError('Expected identifier after ->', next);
+				}
+				continue;
+			}
+
 			// Dot notation: .field
 			if (token.type === TokenType.DOT) {
+				// Method style: body.contains "meeting" is body CONTAINS "meeting"
+				if (this.peek()?.type === TokenType.CONTAINS) {
+					this.advance();
+					break;
+				}
+
 				this.advance();
 				const next = this.current();
 
@@ -329,6 +363,16 @@ class ConditionParser {
 				}
 
 				this.expect(TokenType.RBRACKET, 'Expected closing bracket');
+			}
+			// Filter: [?key="value"]
+			else if (token.type === TokenType.PATH_FILTER) {
+				try {
+					parsePathSegments(String(token.value));
+				} catch (error) {
+					throw new ParserError(error instanceof Error ? error.message : 'Invalid path filter', token);
+				}
+				path += token.value;
+				this.advance();
 			} else {
 				break;
 			}
@@ -337,6 +381,26 @@ class ConditionParser {
 		return path;
 	}
 
+	/**
+	 * Check for a quoted key segment: [ STRING ]
+	 */
+	private isQuotedKey(): boolean {
+		return this.current().type === TokenType.LBRACKET &&
+			this.peek()?.type === TokenType.STRING &&
+			this.peek(2)?.type === TokenType.RBRACKET;
+	}
+
+	/**
+	 * Parse a quoted key segment into path syntax: ["my key"]
+	 */
+	private parseQuotedKey(): string {
+		this.advance(); // consume [
+		const key = String(this.current().value);
+		this.advance(); // consume string
+		this.advance(); // consume ]
+		return `[${JSON.stringify(key)}]`;
+	}
+
 	/**
 	 * Parse quantifier expression: ANY/ALL array WHERE condition
 	 */
@@ -505,6 +569,11 @@ class ConditionParser {
 			return token.value;
 		}
 
+		if (token.type === TokenType.DATE) {
+			this.advance();
+			return token.value; // Unquoted date outside comparisons: "2024-01-15"
+		}
+
 		if (token.type === TokenType.BOOLEAN) {
 			this.advance();
 			return token.value;
@@ -523,6 +592,73 @@ class ConditionParser {
 		throw new ParserError('Expected value', token);
 	}
 
+	/**
+	 * Parse value list for IN: ["draft", "review"]
+	 */
+	private parseValueList(): any[] {
+		this.expect(TokenType.LBRACKET, 'Expected [ after IN. Syntax: status IN ["draft", "review"]');
+		const values: any[] = [];
+
+		if (this.current().type !== TokenType.RBRACKET) {
+			values.push(this.parseValue());
+			while (this.current().type === TokenType.COMMA) {
+				this.advance(); // consume ,
+				values.push(this.parseValue());
+			}
+		}
+
+		this.expect(TokenType.RBRACKET, 'Expected ] after IN values');
+		return values;
+	}
+
+	/**
+	 * Check if the current token starts a date: a literal or an anchor like today
+	 */
+	private isDateStart(): boolean {
+		const token = this.current();
+		return token.type === TokenType.DATE ||
+			(token.type === TokenType.IDENTIFIER && isDateAnchor(String(token.value)));
+	}
+
+	/**
+	 * Parse date expression: (date | anchor) (('+' | '-') duration | signed duration)*
+	 * e.g. 2024-02-01, today - 7d, now + 2w, startOfMonth -1m
+	 */
+	private parseDateExpression(): DateExpression {
+		const token = this.current();
+		if (token.type === TokenType.DATE && !parseDate(token.value)) {
+			throw new ParserError(`Invalid date: ${token.value}`, token);
+		}
+		this.advance();
+
+		const expression: DateExpression = token.type === TokenType.DATE
+			? { type: 'date', literal: String(token.value), offsets: [] }
+			: { type: 'date', anchor: token.value as DateAnchor, offsets: [] };
+
+		while (true) {
+			const next = this.current();
+
+			if (next.type === TokenType.DURATION && /^[+-]/.test(String(next.value))) {
+				expression.offsets.push(String(next.value));
+				this.advance();
+				continue;
+			}
+
+			if (next.type === TokenType.PLUS || next.type === TokenType.MINUS) {
+				this.advance();
+				const duration = this.current();
+				if (duration.type !== TokenType.DURATION || /^[+-]/.test(String(duration.value))) {
+					throw new ParserError('Expected duration after date (e.g. 7d, 2w, 1m, 1y)', duration);
+				}
+				expression.offsets.push(`${next.value}${duration.value}`);
+				this.advance();
+				continue;
+			}
+
+			return expression;
+		}
+	}
+
 	/**
 	 * Check if token is a comparison operator
 	 */
@@ -565,20 +701,22 @@ class ConditionParser {
 			TokenType.TYPE_ARRAY,
 			TokenType.TYPE_OBJECT,
 			TokenType.TYPE_NULL,
+			TokenType.TYPE_DATE,
 		].includes(type);
 	}
 
 	/**
 	 * Parse type check operator to string
 	 */
-	private parseTypeCheckOperator(type: TokenType): 'string' | 'number' | 'boolean' | 'array' | 'object' | 'null' {
-		const map: Record<string, 'string' | 'number' | 'boolean' | 'array' | 'object' | 'null'> = {
+	private parseTypeCheckOperator(type: TokenType): ValueType {
+		const map: Record<string, ValueType> = {
 			[TokenType.TYPE_STRING]: 'string',
 			[TokenType.TYPE_NUMBER]: 'number',
 			[TokenType.TYPE_BOOLEAN]: 'boolean',
 			[TokenType.TYPE_ARRAY]: 'array',
 			[TokenType.TYPE_OBJECT]: 'object',
 			[TokenType.TYPE_NULL]: 'null',
+			[TokenType.TYPE_DATE]: 'date',
 		};
 		return map[type];
 	}
@@ -593,8 +731,8 @@ class ConditionParser {
 	/**
 	 * Peek at next token
 	 */
-	private peek(): Token | null {
-		return this.position + 1 < this.tokens.length ? this.tokens[this.position + 1] : null;
+	private peek(offset: number = 1): Token | null {
+		return this.position + offset < this.tokens.length ? this.tokens[this.position + offset] : null;
 	}
 
 	/**
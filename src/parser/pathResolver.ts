@@ -2,6 +2,21 @@
  * Path resolution utilities for dot notation paths
  * Handles nested object access like "metadata.author" or "items[0].name"
  * Based on requirements Section 3.1
+ *
+ * Paths may also select several locations at once:
+ * - `tasks[*].status` - every item of an array (or every value of an object)
+ * - `authors[?role="editor"].name` - array items whose field matches (= or !=)
+ * - `**.deprecated` - the key at any depth
+ *
+ * Such paths are expanded with expandPath/resolveAll into concrete paths;
+ * resolvePath returns the list of matched values for them.
+ *
+ * Keys with dots, spaces, brackets or quotes are quoted: `["aliases.old"]`,
+ * `meta["my key"]` or with backticks `` `aliases.old` ``. formatPath and
+ * joinPath quote such keys, so paths in messages can be pasted back into rules.
+ *
+ * `project->status` is a link path: it reads status in the note the project
+ * field links to. splitLinkPath splits it into its hops.
  */
 
 import { LIMITS } from '../constants';
@@ -12,12 +27,14 @@ import { LIMITS } from '../constants';
  * @param data - Object to traverse
  * @param path - Dot notation path (e.g., "metadata.author" or "items[0]")
  * @returns Value at path, or undefined if path doesn't exist
+ *          (for wildcard/filter paths: array of all matched values)
  *
  * @example
  * const data = { metadata: { author: "John" } };
  * resolvePath(data, "metadata.author")  // => "John"
  * resolvePath(data, "metadata.version") // => undefined
  * resolvePath(data, "items[0].name")    // => value at items[0].name
+ * resolvePath(data, "items[*].name")    // => names of all items
  */
 export function resolvePath(data: any, path: string): any {
 	if (!data || !path) {
@@ -25,6 +42,10 @@ export function resolvePath(data: any, path: string): any {
 	}
 
 	const segments = parsePathSegments(path);
+	if (segments.some(isSelector)) {
+		return matchSegments(data, segments, false).map(match => match.value);
+	}
+
 	let current = data;
 
 	for (const segment of segments) {
@@ -92,6 +113,7 @@ export function setPath(data: any, path: string, value: any): void {
 	if (segments.length === 0) {
 		return;
 	}
+	requireConcrete(segments, path);
 
 	let current = data;
 
@@ -188,6 +210,7 @@ export function deletePath(data: any, path: string): boolean {
 	if (segments.length === 0) {
 		return false;
 	}
+	requireConcrete(segments, path);
 
 	if (segments.length === 1) {
 		// Top-level delete
@@ -268,10 +291,349 @@ export function pathExists(data: any, path: string): boolean {
 /**
  * Path segment types
  */
-interface PathSegment {
-	type: 'property' | 'index';
-	key?: string;    // For property access
-	index?: number;  // For array index access
+export interface PathSegment {
+	type: 'property' | 'index' | 'wildcard' | 'filter' | 'recursive';
+	key?: string;        // For property access
+	index?: number;      // For array index access
+	filter?: PathFilter; // For [?key="value"]
+}
+
+/**
+ * Item filter of a [?key="value"] segment
+ */
+export interface PathFilter {
+	key: string;
+	operator: '=' | '!=';
+	value: string | number | boolean | null;
+}
+
+/**
+ * A concrete location matched by a path
+ */
+export interface PathMatch {
+	path: string;
+	value: any;
+}
+
+/**
+ * Check if a path selects several locations ([*], [?...] or ** segments)
+ *
+ * @example
+ * hasWildcards("tasks[*].status")  // => true
+ * hasWildcards("tasks[0].status")  // => false
+ */
+export function hasWildcards(path: string): boolean {
+	return parsePathSegments(path).some(isSelector);
+}
+
+/** Separator between the hops of a link path */
+export const LINK_ARROW = '->';
+
+/**
+ * Split a path into its hops at -> (outside quotes and brackets)
+ *
+ * @example
+ * splitLinkPath('project->client.name') // => ['project', 'client.name']
+ * splitLinkPath('["a->b"]')             // => ['["a->b"]']
+ */
+export function splitLinkPath(path: string): string[] {
+	const hops: string[] = [];
+	let quote: string | null = null;
+	let depth = 0;
+	let start = 0;
+
+	for (let i = 0; i < path.length; i++) {
+		const char = path[i];
+		if (quote) {
+			if (char === '\\' && quote !== '`') i++;
+			else if (char === quote) quote = null;
+		} else if (char === '"' || char === "'" || char === '`') {
+			quote = char;
+		} else if (char === '[') {
+			depth++;
+		} else if (char === ']') {
+			depth--;
+		} else if (depth === 0 && path.startsWith(LINK_ARROW, i)) {
+			hops.push(path.substring(start, i));
+			start = i + LINK_ARROW.length;
+			i++;
+		}
+	}
+
+	hops.push(path.substring(start));
+	return hops;
+}
+
+/**
+ * Check if a path follows links (project->status)
+ */
+export function isLinkPath(path: string): boolean {
+	return splitLinkPath(path).length > 1;
+}
+
+/**
+ * Resolve every existing location a path matches
+ *
+ * @param data - Object to traverse
+ * @param path - Path, possibly with [*], [?key="value"] or ** segments
+ * @returns Concrete paths (with numeric indices) and their values, in document order
+ *
+ * @example
+ * const data = { tasks: [{ status: "open" }, { status: "done" }] };
+ * resolveAll(data, "tasks[*].status")
+ * // => [{ path: "tasks[0].status", value: "open" }, { path: "tasks[1].status", value: "done" }]
+ */
+export function resolveAll(data: any, path: string): PathMatch[] {
+	if (!data || !path) {
+		return [];
+	}
+	return matchSegments(data, parsePathSegments(path), false);
+}
+
+/**
+ * Expand a path into the concrete paths an action should write to
+ *
+ * Like resolveAll, but a final key that is missing on a matched object is
+ * included too, so `SET tasks[*].status "open"` also reaches tasks without a
+ * status. Keys after `**` must exist (there is no single place to create them).
+ *
+ * @example
+ * const data = { tasks: [{ status: "done" }, { title: "B" }] };
+ * expandPath(data, "tasks[*].status")  // => ["tasks[0].status", "tasks[1].status"]
+ */
+export function expandPath(data: any, path: string): string[] {
+	if (!data || !path) {
+		return [];
+	}
+	return matchSegments(data, parsePathSegments(path), true).map(match => match.path);
+}
+
+/**
+ * Format path segments as a path string
+ *
+ * @example
+ * formatPath([{ type: 'property', key: 'tasks' }, { type: 'index', index: 0 }, { type: 'property', key: 'name' }])
+ * // => "tasks[0].name"
+ */
+export function formatPath(segments: PathSegment[]): string {
+	let path = '';
+	for (const segment of segments) {
+		switch (segment.type) {
+			case 'property':
+				path = joinPath(path, segment.key ?? '');
+				break;
+			case 'recursive':
+				path = path ? `${path}.**` : '**';
+				break;
+			case 'index':
+				path += `[${segment.index}]`;
+				break;
+			case 'wildcard':
+				path += '[*]';
+				break;
+			case 'filter': {
+				const filter = segment.filter as PathFilter;
+				const value = typeof filter.value === 'string' ? JSON.stringify(filter.value) : String(filter.value);
+				path += `[?${filter.key}${filter.operator}${value}]`;
+				break;
+			}
+		}
+	}
+	return path;
+}
+
+function isSelector(segment: PathSegment): boolean {
+	return segment.type === 'wildcard' || segment.type === 'filter' || segment.type === 'recursive';
+}
+
+function requireConcrete(segments: PathSegment[], path: string): void {
+	if (segments.some(isSelector)) {
+		throw new Error(`Cannot write to '${path}' directly: expand wildcards and filters with expandPath first`);
+	}
+}
+
+/** Keys that can be written in a path without quotes */
+const PLAIN_KEY = /^[^\s.[\]"'`]+$/;
+
+/**
+ * Append a key to a path, quoting it if it is not a plain name
+ *
+ * @example
+ * joinPath("meta", "author")     // => "meta.author"
+ * joinPath("meta", "my.key")     // => 'meta["my.key"]'
+ * joinPath("", "[draft]")        // => '["[draft]"]'
+ */
+export function joinPath(path: string, key: string): string {
+	if (!PLAIN_KEY.test(key) || key === '**') {
+		return `${path}[${JSON.stringify(key)}]`;
+	}
+	return path ? `${path}.${key}` : key;
+}
+
+function isContainer(value: any): boolean {
+	return typeof value === 'object' && value !== null;
+}
+
+function isPlainObject(value: any): boolean {
+	return isContainer(value) && !Array.isArray(value);
+}
+
+/**
+ * Walk the segments breadth-first, keeping every location matched so far
+ *
+ * @param includeMissing - Also match a missing final key on a matched object
+ */
+function matchSegments(data: any, segments: PathSegment[], includeMissing: boolean): PathMatch[] {
+	let matches: PathMatch[] = [{ path: '', value: data }];
+	let afterRecursive = false;
+
+	segments.forEach((segment, i) => {
+		const isLast = i === segments.length - 1;
+		const next = new Map<string, PathMatch>();
+		const add = (path: string, value: any) => {
+			if (!next.has(path)) next.set(path, { path, value });
+		};
+
+		for (const { path, value } of matches) {
+			switch (segment.type) {
+				case 'property': {
+					const key = segment.key as string;
+					if (isContainer(value) && Object.prototype.hasOwnProperty.call(value, key)) {
+						add(joinPath(path, key), value[key]);
+					} else if (includeMissing && isLast && !afterRecursive && isPlainObject(value)) {
+						add(joinPath(path, key), undefined);
+					}
+					break;
+				}
+				case 'index':
+					if (Array.isArray(value) && segment.index !== undefined) {
+						const index = segment.index < 0 ? value.length + segment.index : segment.index;
+						if (index >= 0 && index < value.length) {
+							add(`${path}[${index}]`, value[index]);
+						}
+					}
+					break;
+				case 'wildcard':
+					if (Array.isArray(value)) {
+						value.forEach((item, index) => add(`${path}[${index}]`, item));
+					} else if (isPlainObject(value)) {
+						Object.keys(value).forEach(key => add(joinPath(path, key), value[key]));
+					}
+					break;
+				case 'filter':
+					if (Array.isArray(value)) {
+						value.forEach((item, index) => {
+							if (matchesFilter(item, segment.filter as PathFilter)) {
+								add(`${path}[${index}]`, item);
+							}
+						});
+					}
+					break;
+				case 'recursive':
+					collectDescendants(path, value, add, new Set());
+					break;
+			}
+		}
+
+		matches = Array.from(next.values());
+		if (segment.type === 'recursive') {
+			afterRecursive = true;
+		}
+	});
+
+	return matches.filter(match => match.path !== '');
+}
+
+/**
+ * Add a location and everything below it (for **), skipping repeated YAML aliases
+ */
+function collectDescendants(path: string, value: any, add: (path: string, value: any) => void, seen: Set<any>): void {
+	add(path, value);
+	if (!isContainer(value) || seen.has(value)) {
+		return;
+	}
+	seen.add(value);
+
+	if (Array.isArray(value)) {
+		value.forEach((item, index) => collectDescendants(`${path}[${index}]`, item, add, seen));
+	} else {
+		Object.keys(value).forEach(key => collectDescendants(joinPath(path, key), value[key], add, seen));
+	}
+}
+
+/**
+ * Check an array item against a [?key="value"] filter
+ * Uses loose equality like condition comparisons ("3" matches 3)
+ */
+function matchesFilter(item: any, filter: PathFilter): boolean {
+	if (!isPlainObject(item)) {
+		return false;
+	}
+	const value = resolvePath(item, filter.key);
+	return filter.operator === '=' ? value == filter.value : value != filter.value;
+}
+
+/**
+ * Parse the inside of a [?key="value"] segment
+ *
+ * @throws Error if the filter is not key = value or key != value with a
+ *         quoted string, number, true, false or null
+ */
+function parseFilter(text: string, path: string): PathFilter {
+	const match = text.match(/^\s*([^=!\s][^=!]*?)\s*(!=|=)\s*(.*?)\s*$/);
+	const invalid = () => new Error(`Invalid filter in path: [?${text}] in ${path}. Expected [?key="value"]`);
+	if (!match || match[3].length === 0) {
+		throw invalid();
+	}
+
+	const [, key, operator, raw] = match;
+	let value: PathFilter['value'];
+	if (/^"[^"]*"$|^'[^']*'$/.test(raw)) {
+		value = raw.slice(1, -1);
+	} else if (raw === 'true' || raw === 'false') {
+		value = raw === 'true';
+	} else if (raw === 'null') {
+		value = null;
+	} else if (/^-?\d+(\.\d+)?$/.test(raw)) {
+		value = Number(raw);
+	} else {
+		throw invalid();
+	}
+
+	return { key, operator: operator as PathFilter['operator'], value };
+}
+
+/**
+ * Find the ] closing the bracket at start, skipping ] inside quotes
+ */
+function findClosingBracket(path: string, start: number): number {
+	let quote: string | null = null;
+	for (let i = start + 1; i < path.length; i++) {
+		const char = path[i];
+		if (quote) {
+			if (char === '\\') i++;
+			else if (char === quote) quote = null;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === ']') {
+			return i;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Parse a quoted key from ["my.key"] or ['my key'] (backslash escapes allowed)
+ */
+function parseQuotedKey(text: string, path: string): string {
+	if (text.startsWith('"')) {
+		try {
+			return JSON.parse(text);
+		} catch {
+			throw new Error(`Invalid quoted key in path: ${text} in ${path}`);
+		}
+	}
+	return text.slice(1, -1).replace(/\\(.)/g, '$1');
 }
 
 /**
@@ -287,6 +649,12 @@ interface PathSegment {
  *
  * parsePathSegments("items[0].name")
  * // => [{ type: 'property', key: 'items' }, { type: 'index', index: 0 }, { type: 'property', key: 'name' }]
+ *
+ * parsePathSegments('meta["my.key"]')  // or meta.`my.key`
+ * // => [{ type: 'property', key: 'meta' }, { type: 'property', key: 'my.key' }]
+ *
+ * parsePathSegments('authors[?role="editor"]')
+ * // => [{ type: 'property', key: 'authors' }, { type: 'filter', filter: { key: 'role', operator: '=', value: 'editor' } }]
  */
 export function parsePathSegments(path: string): PathSegment[] {
 	if (!path || path.trim().length === 0) {
@@ -315,36 +683,53 @@ export function parsePathSegments(path: string): PathSegment[] {
 
 		const char = path[i];
 
-		if (char === '.') {
+		if (char === '`' && current.length === 0) {
+			// Backtick-quoted key: `my.key`
+			const closeIndex = path.indexOf('`', i + 1);
+			if (closeIndex === -1) {
+				throw new Error(`Unclosed backtick in path: ${path}`);
+			}
+			segments.push({ type: 'property', key: path.substring(i + 1, closeIndex) });
+			depth++;
+			i = closeIndex + 1;
+		} else if (char === '.') {
 			// End of property segment
 			if (current.length > 0) {
-				segments.push({ type: 'property', key: current });
+				segments.push(propertySegment(current));
 				current = '';
 				depth++;
 			}
 			i++;
 		} else if (char === '[') {
-			// Start of index segment
+			// Start of index, wildcard or filter segment
 			if (current.length > 0) {
-				segments.push({ type: 'property', key: current });
+				segments.push(propertySegment(current));
 				current = '';
 				depth++;
 			}
 
 			// Find closing ]
-			const closeIndex = path.indexOf(']', i);
+			const closeIndex = findClosingBracket(path, i);
 			if (closeIndex === -1) {
 				throw new Error(`Unclosed bracket in path: ${path}`);
 			}
 
 			const indexStr = path.substring(i + 1, closeIndex);
-			const index = parseInt(indexStr, 10);
+			if (/^(["'])[\s\S]*\1$/.test(indexStr)) {
+				segments.push({ type: 'property', key: parseQuotedKey(indexStr, path) });
+			} else if (indexStr === '*') {
+				segments.push({ type: 'wildcard' });
+			} else if (indexStr.startsWith('?')) {
+				segments.push({ type: 'filter', filter: parseFilter(indexStr.substring(1), path) });
+			} else {
+				const index = parseInt(indexStr, 10);
 
-			if (isNaN(index)) {
-				throw new Error(`Invalid array index: ${indexStr}`);
-			}
+				if (isNaN(index)) {
+					throw new Error(`Invalid array index: ${indexStr}`);
+				}
 
-			segments.push({ type: 'index', index });
+				segments.push({ type: 'index', index });
+			}
 			depth++;
 			i = closeIndex + 1;
 		} else {
@@ -356,8 +741,12 @@ export function parsePathSegments(path: string): PathSegment[] {
 
 	// Add final segment
 	if (current.length > 0) {
-		segments.push({ type: 'property', key: current });
+		segments.push(propertySegment(current));
 	}
 
 	return segments;
 }
+
+function propertySegment(key: string): PathSegment {
+	return key === '**' ? { type: 'recursive' } : { type: 'property', key };
+}
@@ -22,4 +22,13 @@ export const DEFAULT_SETTINGS: YamlToolkitSettings = {
 	 * Useful for troubleshooting but disabled by default
 	 */
 	debug: false,
+
+	/** Keep the 50 most recent operation logs */
+	logRetentionCount: 50,
+
+	/** Delete operation logs after 30 days */
+	logRetentionDays: 30,
+
+	/** Automatic rules are active unless paused */
+	triggersPaused: false,
 };
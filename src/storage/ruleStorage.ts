@@ -6,9 +6,17 @@
  */
 
 import { Plugin } from 'obsidian';
-import { PluginData, Rule, YamlToolkitSettings } from '../types';
+import { PluginData, Playbook, Rule, YamlToolkitSettings } from '../types';
 import { DEFAULT_SETTINGS } from '../settings';
 
+/**
+ * Implemented by plugins that need to react when saved rules change
+ * (e.g. to keep per-rule commands in sync)
+ */
+export interface RulesChangedListener {
+	onRulesChanged(data: PluginData): void;
+}
+
 /**
  * Load plugin data (rules and settings)
  */
@@ -20,6 +28,7 @@ export async function loadPluginData(plugin: Plugin): Promise<PluginData> {
 		return {
 			version: '1.0',
 			rules: [],
+			playbooks: [],
 			settings: DEFAULT_SETTINGS,
 		};
 	}
@@ -51,17 +60,81 @@ export async function saveRule(plugin: Plugin, rule: Rule): Promise<void> {
 	}
 
 	await savePluginData(plugin, data);
+	notifyRulesChanged(plugin, data);
 }
 
 /**
- * Delete a rule by ID
+ * Delete a rule by ID (also removes it from any playbook that references it)
  */
 export async function deleteRule(plugin: Plugin, ruleId: string): Promise<void> {
 	const data = await loadPluginData(plugin);
 	data.rules = data.rules.filter(r => r.id !== ruleId);
+	data.playbooks.forEach(playbook => {
+		playbook.ruleIds = playbook.ruleIds.filter(id => id !== ruleId);
+	});
+	await savePluginData(plugin, data);
+	notifyRulesChanged(plugin, data);
+}
+
+/**
+ * Save a single playbook
+ */
+export async function savePlaybook(plugin: Plugin, playbook: Playbook): Promise<void> {
+	const data = await loadPluginData(plugin);
+
+	const existingIndex = data.playbooks.findIndex(p => p.id === playbook.id);
+
+	if (existingIndex !== -1) {
+		data.playbooks[existingIndex] = playbook;
+	} else {
+		data.playbooks.push(playbook);
+	}
+
 	await savePluginData(plugin, data);
 }
 
+/**
+ * Delete a playbook by ID
+ */
+export async function deletePlaybook(plugin: Plugin, playbookId: string): Promise<void> {
+	const data = await loadPluginData(plugin);
+	data.playbooks = data.playbooks.filter(p => p.id !== playbookId);
+	await savePluginData(plugin, data);
+}
+
+/**
+ * Update playbook's lastUsed timestamp
+ */
+export async function updatePlaybookLastRun(plugin: Plugin, playbookId: string): Promise<void> {
+	const data = await loadPluginData(plugin);
+	const playbook = data.playbooks.find(p => p.id === playbookId);
+
+	if (playbook) {
+		playbook.lastUsed = new Date().toISOString();
+		data.lastRun = new Date().toISOString();
+		await savePluginData(plugin, data);
+	}
+}
+
+/**
+ * Resolve the rules of a playbook, in playbook order
+ *
+ * @throws Error if the playbook is empty or references a rule that no longer exists
+ */
+export function getPlaybookRules(data: PluginData, playbook: Playbook): Rule[] {
+	if (playbook.ruleIds.length === 0) {
+		throw new Error(`Playbook "${playbook.name}" has no rules`);
+	}
+
+	return playbook.ruleIds.map(ruleId => {
+		const rule = data.rules.find(r => r.id === ruleId);
+		if (!rule) {
+			throw new Error(`Playbook "${playbook.name}" references a missing rule: ${ruleId}`);
+		}
+		return rule;
+	});
+}
+
 /**
  * Update rule's lastUsed timestamp
  */
@@ -99,6 +172,35 @@ export function createNewRule(defaultBackup = true): Rule {
 	};
 }
 
+/**
+ * Generate unique playbook ID
+ */
+export function generatePlaybookId(): string {
+	return `playbook-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Create new playbook with defaults
+ */
+export function createNewPlaybook(): Playbook {
+	return {
+		id: generatePlaybookId(),
+		name: 'New Playbook',
+		ruleIds: [],
+		created: new Date().toISOString(),
+	};
+}
+
+/**
+ * Let the plugin know that saved rules were added, changed or deleted
+ */
+function notifyRulesChanged(plugin: Plugin, data: PluginData): void {
+	const listener = plugin as Partial<RulesChangedListener>;
+	if (typeof listener.onRulesChanged === 'function') {
+		listener.onRulesChanged(data);
+	}
+}
+
 /**
  * Validate and migrate plugin data
  */
@@ -108,6 +210,7 @@ function validateAndMigrate(rawData: any): PluginData {
 		return {
 			version: '1.0',
 			rules: [],
+			playbooks: [],
 			settings: DEFAULT_SETTINGS,
 		};
 	}
@@ -116,6 +219,7 @@ function validateAndMigrate(rawData: any): PluginData {
 	const data: PluginData = {
 		version: rawData.version || '1.0',
 		rules: Array.isArray(rawData.rules) ? rawData.rules : [],
+		playbooks: Array.isArray(rawData.playbooks) ? rawData.playbooks : [],
 		lastRun: rawData.lastRun,
 		settings: { ...DEFAULT_SETTINGS, ...rawData.settings },
 	};
@@ -123,9 +227,29 @@ function validateAndMigrate(rawData: any): PluginData {
 	// Validate each rule
 	data.rules = data.rules.filter(rule => validateRule(rule));
 
+	// Validate each playbook
+	data.playbooks = data.playbooks.filter(playbook => validatePlaybook(playbook));
+
 	return data;
 }
 
+/**
+ * Validate a single playbook
+ */
+function validatePlaybook(playbook: any): boolean {
+	if (typeof playbook !== 'object' || playbook === null) {
+		return false;
+	}
+
+	if (!playbook.id || typeof playbook.id !== 'string') return false;
+	if (!playbook.name || typeof playbook.name !== 'string') return false;
+	if (!Array.isArray(playbook.ruleIds)) return false;
+	if (!playbook.ruleIds.every((id: any) => typeof id === 'string')) return false;
+	if (!playbook.created || typeof playbook.created !== 'string') return false;
+
+	return true;
+}
+
 /**
  * Validate a single rule
  */
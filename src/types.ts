@@ -13,6 +13,8 @@ export interface FrontmatterData {
 	data: any;
 	/** Body content (everything after frontmatter) */
 	content: string;
+	/** Frontmatter YAML text as written in the file, without delimiters ('' if none) */
+	yaml?: string;
 }
 
 /**
@@ -47,14 +49,36 @@ export interface FileResult {
 	originalData?: any;
 	/** New frontmatter data (after changes) */
 	newData?: any;
+	/** Frontmatter YAML text before and after the changes, exactly as the writer produces it */
+	yamlText?: { before: string; after: string };
 	/** Error message if processing failed */
 	error?: string;
 	/** Warning message if processing succeeded with caveats */
 	warning?: string;
+	/** Per-action results, in program order (only for rules that reached the action stage) */
+	steps?: StepResult[];
 	/** Processing duration in milliseconds */
 	duration: number;
 }
 
+/**
+ * Result of a single action within a rule's action program
+ */
+export interface StepResult {
+	/** Action string as written in the rule (before template resolution) */
+	action: string;
+	/** Step status ('skipped' when the step made no changes or was not run) */
+	status: 'success' | 'warning' | 'error' | 'skipped';
+	/** Whether this step modified the frontmatter */
+	modified: boolean;
+	/** Changes made by this step */
+	changes: string[];
+	/** Warning message if the step succeeded with caveats */
+	warning?: string;
+	/** Error message if the step failed */
+	error?: string;
+}
+
 /**
  * Result of processing multiple files in batch
  */
@@ -70,6 +94,54 @@ export interface BatchResult {
 		duration: number;
 		backupsCreated: number;
 	};
+	/** Journal ID of the run (only set when files were written) */
+	runId?: string;
+}
+
+/**
+ * Original and written content of a file modified by a run
+ */
+export interface RunFileEntry {
+	/** Vault path of the file */
+	path: string;
+	/** File content before the run */
+	originalContent: string;
+	/** File content written by the run */
+	newContent: string;
+}
+
+/**
+ * Journal of an applied batch run (used for undo)
+ */
+export interface RunRecord {
+	/** Unique run identifier */
+	runId: string;
+	/** ID of the rule that was applied */
+	ruleId: string;
+	/** Name of the rule at the time of the run */
+	ruleName: string;
+	/** ISO 8601 timestamp of the run */
+	timestamp: string;
+	/** Files modified by the run */
+	files: RunFileEntry[];
+	/** ISO 8601 timestamp of when the run was reverted */
+	revertedAt?: string;
+	/** Run of a triggered rule (kept under its own retention limit) */
+	automatic?: boolean;
+}
+
+/**
+ * Result of reverting a run
+ */
+export interface RevertResult {
+	/** ID of the reverted run */
+	runId: string;
+	/** Paths restored to their original content */
+	reverted: string[];
+	/** Paths changed since the run (revert refused unless forced) */
+	conflicts: string[];
+	/** Paths that could not be restored */
+	errors: Array<{ path: string; error: string }>;
 }
 
 /**
@@ -83,7 +155,7 @@ export interface Rule {
 	name: string;
 	/** Condition string (empty if unconditional) */
 	condition: string;
-	/** Action string */
+	/** Action program: one or more actions, separated by newlines or `;` */
 	action: string;
 	/** Scope of rule application */
 	scope: RuleScope;
@@ -93,6 +165,64 @@ export interface Rule {
 	created: string;
 	/** ISO 8601 timestamp of last use */
 	lastUsed?: string;
+	/** Opt-in Obsidian command that runs this rule on its stored scope */
+	command?: RuleCommandOptions;
+	/** Vault events that run this rule automatically on the affected note */
+	trigger?: RuleTrigger;
+	/** Time-based automatic runs on the rule's stored scope */
+	schedule?: RuleSchedule;
+}
+
+/**
+ * Vault event that can trigger a rule
+ * 'move' is a rename that changes the note's folder, 'rename' one that keeps it
+ */
+export type TriggerEvent = 'create' | 'modify' | 'rename' | 'move';
+
+/**
+ * Automatic trigger for a rule
+ * The rule runs on just the affected note, which must be inside the rule's scope
+ * (for 'move', the note must have been moved into the scope from outside it)
+ */
+export interface RuleTrigger {
+	/** Events that run the rule */
+	events: TriggerEvent[];
+}
+
+/**
+ * Schedule for a rule
+ * Runs are due relative to the rule's last run (lastUsed, or created if never run);
+ * runs missed while Obsidian was closed are caught up once on the next start
+ */
+export type RuleSchedule =
+	| { type: 'startup' }
+	| { type: 'interval'; /** Hours between runs */ hours: number }
+	| { type: 'daily'; /** Local time of day, HH:mm */ time: string };
+
+/**
+ * Options for a rule's own command
+ */
+export interface RuleCommandOptions {
+	/** Whether the command is registered */
+	enabled: boolean;
+	/** Preview the changes and ask for confirmation before applying */
+	confirm: boolean;
+}
+
+/**
+ * Ordered sequence of saved rules that is previewed, applied and undone as one run
+ */
+export interface Playbook {
+	/** Unique identifier */
+	id: string;
+	/** User-friendly name */
+	name: string;
+	/** IDs of the rules to run, in order */
+	ruleIds: string[];
+	/** ISO 8601 timestamp of creation */
+	created: string;
+	/** ISO 8601 timestamp of last use */
+	lastUsed?: string;
 }
 
 /**
@@ -111,6 +241,8 @@ export interface RuleScope {
 export interface RuleOptions {
 	/** Whether to create backups before modifying */
 	backup: boolean;
+	/** What to do when an action fails: abort the file (default) or run the remaining actions */
+	onError?: 'stop' | 'continue';
 }
 
 /**
@@ -123,6 +255,12 @@ export interface YamlToolkitSettings {
 	scanTimeout: number;
 	/** Show debug information */
 	debug: boolean;
+	/** Maximum number of operation logs to keep (0 = unlimited) */
+	logRetentionCount: number;
+	/** Delete operation logs older than this many days (0 = never) */
+	logRetentionDays: number;
+	/** Pause all automatic rules (vault event triggers and schedules) */
+	triggersPaused: boolean;
 }
 
 /**
@@ -133,6 +271,8 @@ export interface PluginData {
 	version: string;
 	/** Saved rules */
 	rules: Rule[];
+	/** Saved playbooks (rule sequences) */
+	playbooks: Playbook[];
 	/** ISO 8601 timestamp of last run */
 	lastRun?: string;
 	/** Plugin settings */
@@ -158,7 +298,35 @@ export interface ComparisonNode {
 	type: 'comparison';
 	left: string; // path
 	operator: '=' | '!=' | '>' | '<' | '>=' | '<=' | '~';
-	right: any; // value or regex pattern
+	right: any; // value, regex pattern or DateExpression
+}
+
+/**
+ * Named reference point for relative dates (resolved when the condition is evaluated)
+ */
+export type DateAnchor =
+	| 'now'
+	| 'today'
+	| 'yesterday'
+	| 'tomorrow'
+	| 'startOfWeek'
+	| 'endOfWeek'
+	| 'startOfMonth'
+	| 'endOfMonth'
+	| 'startOfYear'
+	| 'endOfYear';
+
+/**
+ * Date value in a condition: a literal (2024-02-01) or an anchor (today),
+ * optionally shifted by durations (today - 7d)
+ */
+export interface DateExpression {
+	type: 'date';
+	/** Date literal as written (mutually exclusive with anchor) */
+	literal?: string;
+	anchor?: DateAnchor;
+	/** Signed durations applied in order, e.g. "-7d", "+2w" */
+	offsets: string[];
 }
 
 export interface ExistenceNode {
@@ -167,10 +335,15 @@ export interface ExistenceNode {
 	operator: 'exists' | '!exists';
 }
 
+/**
+ * Types checked by `path :type` (date: a value that parses as a date)
+ */
+export type ValueType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'null' | 'date';
+
 export interface TypeCheckNode {
 	type: 'type_check';
 	path: string;
-	typeCheck: 'string' | 'number' | 'boolean' | 'array' | 'object' | 'null';
+	typeCheck: ValueType;
 	negated?: boolean; // For !:type
 }
 
@@ -218,6 +391,108 @@ export interface QuantifierNode {
 	condition: ConditionAST;
 }
 
+/**
+ * File metadata available to conditions as file.* (file.name, file.mtime, ...)
+ */
+export interface FileFields {
+	/** File name without extension */
+	name: string;
+	/** Vault-relative path */
+	path: string;
+	/** Parent folder path ('' for the vault root) */
+	folder: string;
+	/** Extension without the dot */
+	ext: string;
+	/** Creation time (ISO 8601 with offset) */
+	ctime: string | null;
+	/** Last modification time (ISO 8601 with offset) */
+	mtime: string | null;
+	/** Size in bytes */
+	size: number | null;
+}
+
+/**
+ * Note body available to conditions as body (the text) and body.*
+ */
+export interface BodyFields {
+	/** Markdown below the frontmatter */
+	text: string;
+	/** Heading texts without the leading #s */
+	headings: string[];
+	wordcount: number;
+	/** Checkbox counts: open is - [ ], done is any other mark */
+	tasks: { open: number; done: number; total: number };
+}
+
+/**
+ * Links of a note from the metadataCache, available as links, backlinks, embeds and inlineTags
+ */
+export interface NoteGraph {
+	/** Outgoing links: "[[Project X]]" */
+	links: string[];
+	/** Notes linking to this one, one per note: "[[Weekly review]]" */
+	readonly backlinks: string[];
+	/** Vault paths of the notes in backlinks, in the same order */
+	readonly backlinkPaths: string[];
+	/** Embedded notes and attachments: "[[diagram.png]]" */
+	embeds: string[];
+	/** Tags in the body: "#meeting" */
+	inlineTags: string[];
+}
+
+/**
+ * Reads note graph fields for conditions and expressions (links.count,
+ * backlinks.estimate, links[?status="open"])
+ */
+export interface GraphResolver {
+	/** Check if a path starts with a note graph field */
+	isGraphField(path: string): boolean;
+	/** Value of a note graph field path (see isGraphField) */
+	resolve(path: string): any;
+}
+
+/**
+ * Data a condition can read besides the frontmatter (reserved names file,
+ * body, links, backlinks, embeds and inlineTags)
+ */
+export interface ConditionContext {
+	file?: FileFields;
+	body?: BodyFields;
+	/** Reads links.*, backlinks.*, embeds.* and inlineTags.* */
+	graph?: GraphResolver;
+	/** Follows wikilink values for project->status paths */
+	linkResolver?: LinkResolver;
+}
+
+/**
+ * Follows wikilink values into the frontmatter of linked notes (project->status)
+ */
+export interface LinkResolver {
+	/**
+	 * Resolve the remaining hops of a link path
+	 *
+	 * @param value - Value of the first hop (a wikilink or a list of them)
+	 * @param hops - Paths to read in each linked note, in order
+	 * @param path - Full path, for warnings
+	 * @returns The value, a list of values for a list of links, or undefined
+	 */
+	follow(value: any, hops: string[], path: string): any;
+	/**
+	 * Frontmatter of the note a wikilink points to ({} without frontmatter),
+	 * or undefined if it does not resolve
+	 *
+	 * @param path - Path the link was read from, for warnings
+	 */
+	frontmatter(link: any, path: string): any;
+	/**
+	 * Frontmatter of the note at a vault path ({} without frontmatter), for
+	 * notes found without a link to resolve (backlinks)
+	 */
+	frontmatterAt(notePath: string): any;
+	/** Unresolved links, non-link values and cycles met so far */
+	warnings: string[];
+}
+
 /**
  * Action Abstract Syntax Tree (AST) node types
  */
@@ -245,12 +520,27 @@ export type ActionAST =
 	| MoveWhereAction
 	| UpdateWhereAction
 	| MergeAction
-	| MergeOverwriteAction;
+	| MergeOverwriteAction
+	| ShiftAction
+	| FormatDateAction
+	| TransformAction
+	| RegexReplaceAction
+	| SplitAction
+	| JoinAction
+	| ConvertAction
+	| RenameKeysAction
+	| NormalizeKeysAction
+	| ReorderKeysAction
+	| SortKeysAction
+	| DeleteKeysAction
+	| KeepOnlyAction;
 
 export interface SetAction {
 	op: 'SET';
 	path: string;
 	value: any;
+	// Optional: computed value for "SET field = expression" (instead of value)
+	expression?: Expression;
 	// Optional: for multi-field SET commands like "SET field1 val1, field2 val2"
 	fields?: Array<{ path: string; value: any }>;
 }
@@ -259,6 +549,8 @@ export interface AddAction {
 	op: 'ADD';
 	path: string;
 	value: any;
+	// Optional: computed value for "ADD field = expression" (instead of value)
+	expression?: Expression;
 }
 
 export interface DeleteAction {
@@ -406,3 +698,116 @@ export interface MergeOverwriteAction {
 	path: string;
 	value: object;
 }
+
+export interface ShiftAction {
+	op: 'SHIFT';
+	path: string;
+	duration: string; // signed duration, e.g. "7d", "-2w"
+}
+
+export interface FormatDateAction {
+	op: 'FORMAT';
+	path: string;
+	format: string; // luxon format, e.g. "yyyy-MM-dd"
+}
+
+export type StringTransform = 'LOWERCASE' | 'UPPERCASE' | 'TITLECASE' | 'TRIM' | 'SLUGIFY';
+
+export interface TransformAction {
+	op: 'TRANSFORM';
+	path: string;
+	transform: StringTransform;
+}
+
+export interface RegexReplaceAction {
+	op: 'REGEX_REPLACE';
+	path: string;
+	pattern: string; // "/pattern/flags"
+	replacement: string; // may use $1, $<name>
+}
+
+export interface SplitAction {
+	op: 'SPLIT';
+	path: string;
+	separator: string; // literal text, or "/pattern/flags" if regex
+	regex?: boolean;
+}
+
+export interface JoinAction {
+	op: 'JOIN';
+	path: string;
+	separator: string;
+}
+
+export interface RenameKeysAction {
+	op: 'RENAME_KEYS';
+	path: string; // object whose keys are renamed ('' = top level)
+	pattern: string; // "/pattern/flags" if regex, otherwise a glob like "date-*"
+	regex?: boolean;
+	replacement: string; // may use $1 (glob wildcards are groups too)
+}
+
+export type KeyCase = 'snake_case' | 'camelCase' | 'kebab-case';
+
+export interface NormalizeKeysAction {
+	op: 'NORMALIZE_KEYS';
+	path: string; // object whose keys are normalized ('' = top level)
+	style: KeyCase;
+}
+
+export interface DeleteKeysAction {
+	op: 'DELETE_KEYS';
+	path: string; // object whose keys are deleted ('' = top level)
+	pattern: string; // "/pattern/flags" if regex, otherwise a glob like "kanban-*"
+	regex?: boolean;
+}
+
+export interface KeepOnlyAction {
+	op: 'KEEP_ONLY';
+	path: string;
+	keys: string[]; // all other keys are deleted
+}
+
+export interface ReorderKeysAction {
+	op: 'REORDER_KEYS';
+	path: string; // object whose keys are reordered ('' = top level)
+	order: string[]; // key names; '*' = all other keys in their current order
+}
+
+export interface SortKeysAction {
+	op: 'SORT_KEYS';
+	path: string;
+	order: 'ASC' | 'DESC';
+}
+
+/**
+ * Target types of CONVERT (the :type checks that can be fixed by converting)
+ */
+export type ConvertTarget = Extract<ValueType, 'number' | 'boolean' | 'string' | 'array' | 'date'>;
+
+export interface ConvertAction {
+	op: 'CONVERT';
+	path: string;
+	to: ConvertTarget;
+	mode: 'strict' | 'lenient'; // lenient also accepts "3 items", "yes", "15.01.2024", "a, b"
+}
+
+/**
+ * Expression on the right of "SET field = ..." / "ADD field = ..." (evaluated against the frontmatter)
+ */
+export type Expression =
+	| { type: 'literal'; value: any }
+	| { type: 'field'; path: string }
+	| { type: 'date'; literal?: string; anchor?: DateAnchor }
+	| { type: 'duration'; value: string }
+	| { type: 'unary'; operator: '-'; operand: Expression }
+	| { type: 'binary'; operator: ExpressionOperator; left: Expression; right: Expression }
+	| { type: 'call'; name: string; args: Expression[] };
+
+export type ExpressionOperator = '+' | '-' | '*' | '/' | '%' | '=' | '!=' | '>' | '<' | '>=' | '<=';
+
+/**
+ * Note graph and links an expression can read besides the frontmatter
+ * (SET total = SUM(backlinks.estimate), SET client = project->client)
+ */
+export type ExpressionContext = Pick<ConditionContext, 'graph' | 'linkResolver'>;
@@ -0,0 +1,38 @@
+/**
+ * Log Viewer Modal
+ * Displays an operation log file (logs live in the plugin folder, outside the vault index)
+ */
+
+import { App, Modal } from 'obsidian';
+import { t } from '../i18n';
+
+export class LogViewerModal extends Modal {
+	private logPath: string;
+	private logContent: string;
+
+	constructor(app: App, logPath: string, logContent: string) {
+		super(app);
+		this.logPath = logPath;
+		this.logContent = logContent;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: t('logViewer.title') });
+		contentEl.createEl('div', { text: this.logPath, cls: 'yaml-toolkit-log-path' });
+
+		const pre = contentEl.createEl('pre', { cls: 'yaml-toolkit-log-content' });
+		pre.style.backgroundColor = 'var(--background-secondary)';
+		pre.style.padding = '12px';
+		pre.style.borderRadius = '4px';
+		pre.style.maxHeight = '500px';
+		pre.style.overflow = 'auto';
+		pre.textContent = this.logContent;
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
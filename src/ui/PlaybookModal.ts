@@ -0,0 +1,223 @@
+/**
+ * Playbook Modal
+ * Create, order, preview and run playbooks (sequences of saved rules)
+ */
+
+import { Modal, Notice, Setting } from 'obsidian';
+import type YamlToolkitPlugin from '../main';
+import { Playbook } from '../types';
+import { BatchResult } from '../core/batchProcessor';
+import { runPlaybook } from '../core/ruleRunner';
+import { createNewPlaybook, deletePlaybook, loadPluginData, savePlaybook } from '../storage/ruleStorage';
+import { t } from '../i18n';
+
+export class PlaybookModal extends Modal {
+	private plugin: YamlToolkitPlugin;
+	private playbook: Playbook;
+	private isSaved = false;
+	private previewResult: BatchResult | null = null;
+
+	constructor(plugin: YamlToolkitPlugin) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.playbook = createNewPlaybook();
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: t('playbooks.title') });
+
+		new Setting(contentEl)
+			.setName(t('playbooks.select'))
+			.addDropdown(dropdown => {
+				dropdown.addOption('', t('playbooks.new'));
+				this.plugin.data.playbooks.forEach(playbook => dropdown.addOption(playbook.id, playbook.name));
+				dropdown.setValue(this.isSaved ? this.playbook.id : '');
+				dropdown.onChange(id => {
+					const playbook = this.plugin.data.playbooks.find(p => p.id === id);
+					this.playbook = playbook ? { ...playbook, ruleIds: [...playbook.ruleIds] } : createNewPlaybook();
+					this.isSaved = !!playbook;
+					this.previewResult = null;
+					this.render();
+				});
+			});
+
+		new Setting(contentEl)
+			.setName(t('playbooks.name'))
+			.addText(text =>
+				text.setValue(this.playbook.name).onChange(value => {
+					this.playbook.name = value;
+				})
+			);
+
+		contentEl.createEl('h3', { text: t('playbooks.rules') });
+		this.renderRuleList(contentEl);
+
+		const buttons = new Setting(contentEl);
+		if (this.isSaved) {
+			buttons.addButton(button =>
+				button.setButtonText(t('ruleBuilder.buttons.delete')).setWarning().onClick(() => this.delete())
+			);
+		}
+		buttons
+			.addButton(button => button.setButtonText(t('ruleBuilder.buttons.save')).onClick(() => this.save()))
+			.addButton(button => button.setButtonText(t('ruleBuilder.buttons.preview')).onClick(() => this.preview()))
+			.addButton(button =>
+				button.setButtonText(t('ruleBuilder.buttons.apply')).setCta().onClick(() => this.apply())
+			);
+
+		if (this.previewResult) {
+			this.renderResult(contentEl, this.previewResult);
+		}
+	}
+
+	private renderRuleList(containerEl: HTMLElement) {
+		const ruleIds = this.playbook.ruleIds;
+
+		if (ruleIds.length === 0) {
+			containerEl.createEl('p', { text: t('playbooks.noRules') });
+		}
+
+		ruleIds.forEach((ruleId, index) => {
+			const rule = this.plugin.data.rules.find(r => r.id === ruleId);
+			new Setting(containerEl)
+				.setName(`${index + 1}. ${rule ? rule.name : ruleId}`)
+				.setDesc(rule ? rule.action : '')
+				.addExtraButton(button =>
+					button
+						.setIcon('arrow-up')
+						.setTooltip(t('playbooks.moveUp'))
+						.setDisabled(index === 0)
+						.onClick(() => this.moveRule(index, index - 1))
+				)
+				.addExtraButton(button =>
+					button
+						.setIcon('arrow-down')
+						.setTooltip(t('playbooks.moveDown'))
+						.setDisabled(index === ruleIds.length - 1)
+						.onClick(() => this.moveRule(index, index + 1))
+				)
+				.addExtraButton(button =>
+					button
+						.setIcon('x')
+						.setTooltip(t('playbooks.remove'))
+						.onClick(() => {
+							ruleIds.splice(index, 1);
+							this.previewResult = null;
+							this.render();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.setName(t('playbooks.addRule'))
+			.addDropdown(dropdown => {
+				dropdown.addOption('', t('playbooks.chooseRule'));
+				this.plugin.data.rules.forEach(rule => dropdown.addOption(rule.id, rule.name));
+				dropdown.onChange(ruleId => {
+					if (!ruleId) return;
+					ruleIds.push(ruleId);
+					this.previewResult = null;
+					this.render();
+				});
+			});
+	}
+
+	private renderResult(containerEl: HTMLElement, result: BatchResult) {
+		const { summary } = result;
+		containerEl.createEl('p', {
+			text: t('playbooks.summary', {
+				files: result.results.length,
+				success: summary.success,
+				warnings: summary.warnings,
+				errors: summary.errors,
+				skipped: summary.skipped,
+			}),
+		});
+
+		const list = containerEl.createEl('ul', { cls: 'yaml-toolkit-playbook-results' });
+		result.results
+			.filter(fileResult => fileResult.status !== 'skipped')
+			.forEach(fileResult => {
+				const item = list.createEl('li');
+				item.createEl('strong', { text: `${fileResult.file.path} (${t(`status.${fileResult.status}`)})` });
+				const details = fileResult.error || fileResult.warning;
+				if (details) {
+					item.createEl('div', { text: details, cls: 'yaml-toolkit-playbook-message' });
+				}
+				const changes = item.createEl('ul');
+				if (fileResult.changes.length === 0) {
+					changes.createEl('li', { text: t('playbooks.noChanges') });
+				}
+				fileResult.changes.forEach(change => changes.createEl('li', { text: change }));
+			});
+	}
+
+	private moveRule(from: number, to: number) {
+		const [ruleId] = this.playbook.ruleIds.splice(from, 1);
+		this.playbook.ruleIds.splice(to, 0, ruleId);
+		this.previewResult = null;
+		this.render();
+	}
+
+	private async save() {
+		this.playbook.name = this.playbook.name.trim() || createNewPlaybook().name;
+		await savePlaybook(this.plugin, this.playbook);
+		this.plugin.data = await loadPluginData(this.plugin);
+		this.isSaved = true;
+		new Notice(t('notices.playbookSaved'));
+		this.render();
+	}
+
+	private async delete() {
+		await deletePlaybook(this.plugin, this.playbook.id);
+		this.plugin.data = await loadPluginData(this.plugin);
+		this.playbook = createNewPlaybook();
+		this.isSaved = false;
+		this.previewResult = null;
+		new Notice(t('notices.playbookDeleted'));
+		this.render();
+	}
+
+	private async preview() {
+		try {
+			this.previewResult = await runPlaybook(this.plugin, this.playbook, { dryRun: true });
+			this.render();
+		} catch (error) {
+			new Notice(t('notices.error', { message: error instanceof Error ? error.message : 'Unknown error' }));
+		}
+	}
+
+	private async apply() {
+		const confirmed = confirm(
+			t('confirm.runPlaybook.title', { name: this.playbook.name }) + '\n\n' +
+			t('confirm.runPlaybook.message', { count: this.playbook.ruleIds.length }) + '\n\n' +
+			t('confirm.runPlaybook.question')
+		);
+		if (!confirmed) return;
+
+		try {
+			const result = await runPlaybook(this.plugin, this.playbook);
+			new Notice(t('notices.complete', {
+				success: result.summary.success,
+				warnings: result.summary.warnings,
+				errors: result.summary.errors,
+			}), 5000);
+			this.previewResult = result;
+			this.render();
+		} catch (error) {
+			new Notice(t('notices.error', { message: error instanceof Error ? error.message : 'Unknown error' }));
+		}
+	}
+}
@@ -0,0 +1,72 @@
+/**
+ * Run History Modal
+ * Lists applied runs from the undo journal and reverts the selected one
+ */
+
+import { App, Notice, SuggestModal } from 'obsidian';
+import { RunRecord } from '../types';
+import { revertRun } from '../core/runJournal';
+import { t } from '../i18n';
+
+export class RunHistoryModal extends SuggestModal<RunRecord> {
+	private runs: RunRecord[];
+
+	constructor(app: App, runs: RunRecord[]) {
+		super(app);
+		this.runs = runs;
+		this.setPlaceholder(t('runHistory.placeholder'));
+		this.emptyStateText = t('runHistory.empty');
+	}
+
+	getSuggestions(query: string): RunRecord[] {
+		const lowerQuery = query.toLowerCase();
+		return this.runs.filter(run => run.ruleName.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(run: RunRecord, el: HTMLElement) {
+		el.createEl('div', { text: run.ruleName });
+		el.createEl('small', {
+			text: t('runHistory.details', {
+				date: new Date(run.timestamp).toLocaleString(),
+				count: run.files.length,
+			}),
+		});
+	}
+
+	onChooseSuggestion(run: RunRecord) {
+		// undoRun reports revert failures itself; this only catches the unexpected
+		undoRun(this.app, run).catch(error => console.error('Failed to undo run:', error));
+	}
+}
+
+/**
+ * Revert a run, asking for confirmation before overwriting files edited since the run
+ */
+export async function undoRun(app: App, run: RunRecord): Promise<void> {
+	try {
+		let result = await revertRun(app, run.runId);
+
+		if (result.conflicts.length > 0 && result.reverted.length === 0) {
+			const confirmed = confirm(
+				t('confirm.revertConflicts.title', { count: result.conflicts.length }) + '\n\n' +
+				result.conflicts.join('\n') + '\n\n' +
+				t('confirm.revertConflicts.message') + '\n\n' +
+				t('confirm.revertConflicts.question')
+			);
+			if (!confirmed) return;
+
+			result = await revertRun(app, run.runId, { force: true });
+		}
+
+		if (result.errors.length > 0) {
+			new Notice(t('notices.revertPartial', {
+				count: result.reverted.length,
+				errors: result.errors.length,
+			}), 5000);
+		} else {
+			new Notice(t('notices.runReverted', { count: result.reverted.length, rule: run.ruleName }));
+		}
+	} catch (error) {
+		new Notice(t('notices.error', { message: error instanceof Error ? error.message : 'Unknown error' }));
+	}
+}
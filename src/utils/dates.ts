@@ -0,0 +1,244 @@
+/**
+ * Date utilities - lenient date parsing and relative date expressions
+ *
+ * Frontmatter dates are strings after YAML parsing (see yamlSchema), written in
+ * many shapes: 2024-01-15, 2024-1-5, 2024-01-15T10:30, 2024-01-15 10:30:00+02:00.
+ * Conditions and actions compare and shift them as luxon DateTimes instead.
+ */
+
+import { DateTime, Duration, DurationLikeObject } from 'luxon';
+import { DateAnchor, DateExpression } from '../types';
+
+/**
+ * A parsed date and whether it had a time of day
+ *
+ * Date-only values (2024-01-15, today) compare at day granularity.
+ */
+export interface ParsedDate {
+	date: DateTime;
+	dateOnly: boolean;
+}
+
+/** Date part with optional time: yyyy-M-d[Thh:mm[:ss[.SSS]]][Z|±hh:mm] */
+const DATE_PATTERN =
+	/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/** Signed duration like 7d, -2w, +1m (h = hours, m = months) */
+const DURATION_PATTERN = /^([+-]?)(\d+)([hdwmy])$/;
+
+/** Date literal at the start of lexer input (T separator only: spaces separate tokens) */
+export const DATE_TOKEN = /^\d{4}-\d{1,2}-\d{1,2}(?:T\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?(?![\w:.-])/i;
+
+/** Duration at the start of lexer input */
+export const DURATION_TOKEN = /^[+-]?\d+[hdwmy](?![\w.])/;
+
+const DURATION_UNITS: Record<string, keyof DurationLikeObject> = {
+	h: 'hours',
+	d: 'days',
+	w: 'weeks',
+	m: 'months',
+	y: 'years',
+};
+
+export const DATE_ANCHORS: DateAnchor[] = [
+	'now',
+	'today',
+	'yesterday',
+	'tomorrow',
+	'startOfWeek',
+	'endOfWeek',
+	'startOfMonth',
+	'endOfMonth',
+	'startOfYear',
+	'endOfYear',
+];
+
+/**
+ * Check if text is a date anchor name (case-sensitive, like the docs)
+ */
+export function isDateAnchor(text: string): text is DateAnchor {
+	return (DATE_ANCHORS as string[]).includes(text);
+}
+
+/**
+ * Check if text looks like a date literal (2024-01-15, 2024-1-5T10:30Z)
+ */
+export function isDateLiteral(text: string): boolean {
+	return DATE_PATTERN.test(text);
+}
+
+/**
+ * Parse a value as a date
+ *
+ * Accepts Date objects, luxon DateTimes and strings in the shapes listed in
+ * DATE_PATTERN. Strings without an offset are local time; strings with one
+ * keep it, so shifted values are written back in their own zone. Numbers are
+ * not treated as dates (too ambiguous).
+ *
+ * @returns ParsedDate, or null if the value is not a valid date
+ */
+export function parseDate(value: unknown): ParsedDate | null {
+	if (value instanceof Date) {
+		const date = DateTime.fromJSDate(value);
+		return date.isValid ? { date, dateOnly: false } : null;
+	}
+
+	if (DateTime.isDateTime(value)) {
+		return value.isValid ? { date: value, dateOnly: false } : null;
+	}
+
+	if (typeof value !== 'string') {
+		return null;
+	}
+
+	const match = value.trim().match(DATE_PATTERN);
+	if (!match) {
+		return null;
+	}
+
+	const [, year, month, day, hour, minute, second, fraction, offset] = match;
+	const pad = (part: string | undefined) => (part ?? '0').padStart(2, '0');
+
+	let iso = `${year}-${pad(month)}-${pad(day)}`;
+	if (hour !== undefined) {
+		iso += `T${pad(hour)}:${minute}:${pad(second)}${fraction ?? ''}`;
+		if (offset) {
+			iso += offset.toUpperCase() === 'Z' ? 'Z' : offset.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2');
+		}
+	}
+
+	const date = DateTime.fromISO(iso, { setZone: true });
+	return date.isValid ? { date, dateOnly: hour === undefined } : null;
+}
+
+/**
+ * Parse a signed duration (7d, -2w, +1y)
+ *
+ * @returns luxon Duration, or null if the text is not a duration
+ */
+export function parseDuration(text: string): Duration | null {
+	const match = text.trim().match(DURATION_PATTERN);
+	if (!match) {
+		return null;
+	}
+
+	const [, sign, amount, unit] = match;
+	const value = sign === '-' ? -Number(amount) : Number(amount);
+	return Duration.fromObject({ [DURATION_UNITS[unit]]: value });
+}
+
+/**
+ * Resolve a date anchor relative to now
+ *
+ * Weeks start on Monday (ISO weeks, luxon's default).
+ */
+export function resolveAnchor(anchor: DateAnchor, now: DateTime = DateTime.now()): ParsedDate {
+	const today = now.startOf('day');
+
+	switch (anchor) {
+		case 'now':
+			return { date: now, dateOnly: false };
+		case 'today':
+			return { date: today, dateOnly: true };
+		case 'yesterday':
+			return { date: today.minus({ days: 1 }), dateOnly: true };
+		case 'tomorrow':
+			return { date: today.plus({ days: 1 }), dateOnly: true };
+		case 'startOfWeek':
+			return { date: now.startOf('week'), dateOnly: true };
+		case 'endOfWeek':
+			return { date: now.endOf('week').startOf('day'), dateOnly: true };
+		case 'startOfMonth':
+			return { date: now.startOf('month'), dateOnly: true };
+		case 'endOfMonth':
+			return { date: now.endOf('month').startOf('day'), dateOnly: true };
+		case 'startOfYear':
+			return { date: now.startOf('year'), dateOnly: true };
+		case 'endOfYear':
+			return { date: now.endOf('year').startOf('day'), dateOnly: true };
+	}
+}
+
+/**
+ * Resolve a condition date expression (literal or anchor plus offsets)
+ *
+ * @throws Error if the literal or an offset is invalid
+ */
+export function resolveDateExpression(expression: DateExpression, now: DateTime = DateTime.now()): ParsedDate {
+	let parsed: ParsedDate | null;
+
+	if (expression.anchor) {
+		parsed = resolveAnchor(expression.anchor, now);
+	} else {
+		parsed = parseDate(expression.literal);
+		if (!parsed) {
+			throw new Error(`Invalid date: ${expression.literal}`);
+		}
+	}
+
+	for (const offset of expression.offsets) {
+		const duration = parseDuration(offset);
+		if (!duration) {
+			throw new Error(`Invalid duration: ${offset}`);
+		}
+		parsed = { date: parsed.date.plus(duration), dateOnly: parsed.dateOnly };
+	}
+
+	return parsed;
+}
+
+/**
+ * Compare two dates: negative if a < b, 0 if equal, positive if a > b
+ *
+ * If either side is date-only, both are compared by calendar day in local time,
+ * so `due = today` matches a due datetime anywhere in today.
+ */
+export function compareDates(a: ParsedDate, b: ParsedDate): number {
+	if (a.dateOnly || b.dateOnly) {
+		const dayA = a.date.toLocal().startOf('day');
+		const dayB = b.date.toLocal().startOf('day');
+		return dayA.toMillis() - dayB.toMillis();
+	}
+	return a.date.toMillis() - b.date.toMillis();
+}
+
+/**
+ * Format a date in the shape of the value it came from
+ *
+ * 2024-1-5 stays date-only, 2024-01-15 10:30 keeps its separator and minute
+ * precision, and an offset or Z is written back. Values that were not date
+ * strings (Date objects, anchors) are written as ISO 8601.
+ */
+export function formatDateLike(date: DateTime, original: unknown): string {
+	const match = typeof original === 'string' ? original.trim().match(DATE_PATTERN) : null;
+	if (!match) {
+		return date.toISO({ suppressMilliseconds: true }) ?? '';
+	}
+
+	const [, , , , hour, , second, fraction, offset] = match;
+	if (hour === undefined) {
+		return date.toISODate() ?? '';
+	}
+
+	const separator = /^\S+ /.test(original as string) ? ' ' : "'T'";
+	let format = `yyyy-MM-dd${separator}HH:mm`;
+	if (second !== undefined) format += ':ss';
+	if (fraction !== undefined) format += '.SSS';
+	if (offset) {
+		format += offset.toUpperCase() === 'Z' ? "'Z'" : offset.includes(':') ? 'ZZ' : 'ZZZ';
+	}
+	return date.toFormat(format);
+}
+
+/**
+ * Format the result of a date expression: date-only anchors and literals as
+ * yyyy-MM-dd, everything else as ISO 8601
+ */
+export function formatParsedDate(parsed: ParsedDate, original?: unknown): string {
+	if (original !== undefined) {
+		return formatDateLike(parsed.date, original);
+	}
+	return parsed.dateOnly
+		? parsed.date.toISODate() ?? ''
+		: parsed.date.toISO({ suppressMilliseconds: true }) ?? '';
+}
@@ -0,0 +1,63 @@
+/**
+ * Note body analysis for body.* in conditions
+ *
+ * Headings and tasks inside fenced code blocks are ignored. A task is open
+ * when its checkbox is empty (- [ ]); any other mark (x, -, /, ...) counts as
+ * done, like Obsidian's checkbox rendering.
+ */
+
+import { BodyFields } from '../types';
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const HEADING = /^#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+const TASK = /^\s*(?:[-*+]|\d+[.)])\s+\[(.)\]/;
+
+/**
+ * Analyze the markdown body of a note
+ *
+ * @example
+ * analyzeBody("# Summary\n- [ ] call Bob\n- [x] send notes")
+ * // => { text: "...", headings: ["Summary"], wordcount: 9, tasks: { open: 1, done: 1, total: 2 } }
+ */
+export function analyzeBody(text: string): BodyFields {
+	const headings: string[] = [];
+	const tasks = { open: 0, done: 0, total: 0 };
+	let fence: string | null = null;
+
+	for (const line of text.split(/\r?\n/)) {
+		const fenceMatch = line.match(FENCE);
+		if (fenceMatch) {
+			const marker = fenceMatch[1];
+			if (fence === null) {
+				fence = marker;
+			} else if (marker[0] === fence[0] && marker.length >= fence.length) {
+				fence = null;
+			}
+			continue;
+		}
+		if (fence !== null) continue;
+
+		const heading = line.match(HEADING);
+		if (heading) {
+			headings.push(heading[1]);
+			continue;
+		}
+
+		const task = line.match(TASK);
+		if (task) {
+			tasks.total++;
+			if (task[1] === ' ') tasks.open++;
+			else tasks.done++;
+		}
+	}
+
+	return { text, headings, wordcount: countWords(text), tasks };
+}
+
+/**
+ * Count words: whitespace-separated runs containing a letter or digit
+ * (markdown markers like "#", "-" or "[ ]" are not words)
+ */
+function countWords(text: string): number {
+	return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
@@ -0,0 +1,76 @@
+/**
+ * Regex utilities - ReDoS-guarded regular expressions from user input
+ * Based on requirements Section 3.2 (regex matching)
+ *
+ * Used for `field ~ /pattern/` conditions and regex actions (REGEX_REPLACE,
+ * SPLIT BY /pattern/), so every user-supplied pattern passes the same checks.
+ */
+
+import { LIMITS, DANGEROUS_REGEX_PATTERNS } from '../constants';
+
+/**
+ * Compile a /pattern/flags literal after the length and dangerous-pattern checks
+ *
+ * @throws Error if the literal is malformed, too long, potentially unsafe or invalid
+ */
+export function compileSafeRegex(literal: string): RegExp {
+	// Parse regex pattern (format: /pattern/flags)
+	const match = literal.match(/^\/(.+?)\/([gimsuvy]*)$/);
+	if (!match) {
+		throw new Error(`Invalid regex pattern: ${literal}`);
+	}
+
+	const [, regexPattern, flags] = match;
+
+	// Validate regex pattern length to prevent ReDoS
+	if (regexPattern.length > LIMITS.MAX_REGEX_LENGTH) {
+		throw new Error(
+			`Regex pattern too long (max ${LIMITS.MAX_REGEX_LENGTH} characters): ${regexPattern.substring(0, 50)}...`
+		);
+	}
+
+	// Check for dangerous patterns that could cause ReDoS
+	for (const dangerousPattern of DANGEROUS_REGEX_PATTERNS) {
+		if (dangerousPattern.test(regexPattern)) {
+			throw new Error(
+				`Potentially unsafe regex pattern detected (could cause performance issues): ${regexPattern}`
+			);
+		}
+	}
+
+	try {
+		return new RegExp(regexPattern, flags);
+	} catch (e) {
+		throw new Error(`Invalid regex: ${literal}`);
+	}
+}
+
+/**
+ * Run a regex operation with timeout protection
+ *
+ * @throws Error if the operation took longer than LIMITS.REGEX_TIMEOUT_MS
+ */
+export function runSafeRegex<T>(regex: RegExp, operation: (regex: RegExp) => T): T {
+	const startTime = Date.now();
+	let timedOut = false;
+
+	// Set timeout handler
+	const timeoutId = setTimeout(() => {
+		timedOut = true;
+	}, LIMITS.REGEX_TIMEOUT_MS);
+
+	try {
+		const result = operation(regex);
+
+		// Check if we timed out during execution
+		if (timedOut || Date.now() - startTime > LIMITS.REGEX_TIMEOUT_MS) {
+			throw new Error(
+				`Regex execution timeout (exceeded ${LIMITS.REGEX_TIMEOUT_MS}ms). Pattern may be too complex: ${regex.source}`
+			);
+		}
+
+		return result;
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
@@ -0,0 +1,66 @@
+/**
+ * String utilities shared by expressions, string actions and key actions
+ */
+
+import { KeyCase } from '../types';
+
+/**
+ * Make a URL/file-name friendly slug
+ *
+ * @example
+ * slugify("Café Notes: Q1 2024!") // => "cafe-notes-q1-2024"
+ */
+export function slugify(text: string): string {
+	return text
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, '-')
+		.replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Capitalize the first letter of every word, lowercase the rest
+ *
+ * @example
+ * toTitleCase("the GREAT gatsby") // => "The Great Gatsby"
+ */
+export function toTitleCase(text: string): string {
+	return text.toLowerCase().replace(/(^|[\s\-_])(\p{L})/gu, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+}
+
+/**
+ * Split an identifier into lowercase words at separators and case changes
+ *
+ * @example
+ * splitWords("dateCreated_at") // => ["date", "created", "at"]
+ * splitWords("URLPath")        // => ["url", "path"]
+ */
+export function splitWords(text: string): string[] {
+	return text
+		.replace(/(\p{Ll}|\p{N})(\p{Lu})/gu, '$1 $2')
+		.replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, '$1 $2')
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(word => word.length > 0)
+		.map(word => word.toLowerCase());
+}
+
+/**
+ * Write an identifier in snake_case, camelCase or kebab-case
+ *
+ * @example
+ * toKeyCase("Date Created", "camelCase") // => "dateCreated"
+ */
+export function toKeyCase(text: string, style: KeyCase): string {
+	const words = splitWords(text);
+	switch (style) {
+		case 'snake_case':
+			return words.join('_');
+		case 'kebab-case':
+			return words.join('-');
+		case 'camelCase':
+			return words
+				.map((word, i) => (i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+				.join('');
+	}
+}
@@ -1,13 +1,16 @@
 /**
- * YAML frontmatter processing using gray-matter
+ * YAML frontmatter processing
  * Based on requirements Section 13.8
  *
- * Handles reading/writing frontmatter while preserving content and field order
+ * Handles reading/writing frontmatter while preserving content and field order.
+ * Reading and writing find the frontmatter block the same way (splitFrontmatter)
+ * and all YAML goes through the shared schema (see yamlSchema).
  */
 
-import matter from 'gray-matter';
 import { App, TFile } from 'obsidian';
 import { FrontmatterData } from '../types';
+import { parseYaml, stringifyYaml } from './yamlSchema';
+import { splitFrontmatter, stringifyFrontmatter, updateFrontmatter } from './yamlWriter';
 
 /**
  * Read YAML frontmatter from a file
@@ -30,27 +33,16 @@ export async function readFrontmatter(
 		// Read file content
 		const fileContent = await app.vault.read(file);
 
-		// Parse with gray-matter
-		const parsed = matter(fileContent, {
-			// Preserve field order (Section 13.8.1)
-			engines: {
-				yaml: {
-					parse: (str: string) => {
-						// Use safe YAML parser to prevent code execution
-						// SAFE_SCHEMA prevents dangerous YAML tags like !!js/function
-						const yaml = require('js-yaml');
-						return yaml.load(str, {
-							schema: yaml.CORE_SCHEMA,  // Use CORE_SCHEMA (safer than DEFAULT_SCHEMA)
-							json: false                 // Disable JSON schema extensions
-						});
-					},
-				},
-			},
-		});
+		const frontmatter = splitFrontmatter(fileContent);
+		if (!frontmatter) {
+			return { data: {}, content: fileContent, yaml: '' };
+		}
 
+		// Core schema: no code execution, no implicit dates; field order is preserved (Section 13.8.1)
 		return {
-			data: parsed.data || {},
-			content: parsed.content || '',
+			data: parseYaml(frontmatter.yaml) || {},
+			content: frontmatter.body,
+			yaml: frontmatter.yaml,
 		};
 	} catch (error) {
 		if (error instanceof Error) {
@@ -65,16 +57,19 @@ export async function readFrontmatter(
 /**
  * Write YAML frontmatter to a file
  *
+ * Only the fields that differ from the frontmatter in `content` are rewritten;
+ * comments, quoting and layout of everything else are kept (see yamlWriter).
+ *
  * @param app - Obsidian App instance
  * @param file - File to write
  * @param data - Frontmatter data object
- * @param content - Body content
+ * @param content - Original file content to update, or just the body for a new frontmatter block
  * @throws Error if file cannot be written
  *
  * @example
+ * const original = await app.vault.read(file);
  * const data = { title: "My Note", status: "published" };
- * const content = "Note body content";
- * await writeFrontmatter(app, file, data, content);
+ * await writeFrontmatter(app, file, data, original);
  */
 export async function writeFrontmatter(
 	app: App,
@@ -83,8 +78,8 @@ export async function writeFrontmatter(
 	content: string
 ): Promise<void> {
 	try {
-		// Generate file content with frontmatter
-		const fileContent = matter.stringify(content, data);
+		// Patch the changed fields into the original frontmatter
+		const fileContent = updateFrontmatter(content, data);
 
 		// Write to file
 		await app.vault.modify(file, fileContent);
@@ -147,7 +142,7 @@ export function hasFrontmatter(fileContent: string): boolean {
  * // This is the note body
  */
 export function createFrontmatter(data: any, content: string): string {
-	return matter.stringify(content, data);
+	return stringifyFrontmatter(data, content);
 }
 
 /**
@@ -165,8 +160,7 @@ export function createFrontmatter(data: any, content: string): string {
  */
 export function parseYamlString(yamlString: string): any {
 	try {
-		const parsed = matter(`---\n${yamlString}\n---\n`);
-		return parsed.data;
+		return parseYaml(yamlString) ?? {};
 	} catch (error) {
 		if (error instanceof Error) {
 			throw new Error(`Malformed YAML: ${error.message}`);
@@ -188,7 +182,5 @@ export function parseYamlString(yamlString: string): any {
  * // Returns: "title: My Note\ntags:\n  - work\n  - urgent\n"
  */
 export function objectToYamlString(data: any): string {
-	const full = matter.stringify('', data);
-	// Remove delimiters and trailing newlines
-	return full.replace(/^---\n/, '').replace(/\n---\n$/, '');
+	return stringifyYaml(data);
 }
@@ -0,0 +1,49 @@
+/**
+ * YAML schema - the one YAML configuration used everywhere
+ *
+ * Reading, writing, the preview diff and the test sample all go through these
+ * helpers, so a value has the same type wherever it is shown or written.
+ *
+ * YAML 1.2 core schema (yaml package):
+ * - No timestamp type: `2024-01-15` and `2024-01-15T10:30:00Z` are strings
+ * - Only true/false are booleans: `on`, `yes`, `off` are strings
+ * - `0012` is the number 12, `1e3` the number 1000 (the writer keeps their
+ *   source text as long as an action does not change them)
+ * - No language-specific tags (e.g. !!js/function): nothing is executed
+ */
+
+import { Document, DocumentOptions, ParseOptions, parseDocument, SchemaOptions, ToStringOptions } from 'yaml';
+
+/** Options for every YAML document the plugin parses or creates */
+export const YAML_OPTIONS: DocumentOptions & ParseOptions & SchemaOptions = {
+	version: '1.2',
+	schema: 'core',
+};
+
+/** Default output formatting (block style, 2-space indent, no line folding) */
+export const YAML_OUTPUT: ToStringOptions = {
+	indent: 2,
+	indentSeq: true,
+	lineWidth: 0,
+	flowCollectionPadding: false,
+};
+
+/**
+ * Parse YAML text to data
+ *
+ * @throws Error with the first syntax error if the YAML is malformed
+ */
+export function parseYaml(text: string): any {
+	const doc = parseDocument(text, YAML_OPTIONS);
+	if (doc.errors.length > 0) {
+		throw new Error(doc.errors[0].message);
+	}
+	return doc.toJS();
+}
+
+/**
+ * Serialize data to YAML text (trailing newline included)
+ */
+export function stringifyYaml(data: any, options: ToStringOptions = {}): string {
+	return new Document(data, YAML_OPTIONS).toString({ ...YAML_OUTPUT, ...options });
+}
@@ -0,0 +1,428 @@
+/**
+ * Format-preserving YAML frontmatter writer
+ *
+ * Instead of re-dumping the whole block, the original frontmatter is parsed
+ * into a document model (yaml package) with source ranges, compared with the
+ * new data, and only the changed nodes are re-serialized and spliced into the
+ * original text. Untouched lines (comments, quoting, flow-style arrays, blank
+ * lines, key formatting) stay byte-identical.
+ *
+ * Granularity:
+ * - Changed scalars on a key line are replaced in place (trailing comments kept)
+ * - Changed block maps are patched recursively, key by key
+ * - Other changed values (sequences, multi-line scalars, type changes) are
+ *   re-serialized as a whole pair, keeping flow style and quoting where possible
+ * - Removed keys drop their lines; comments above them are kept
+ * - New keys are inserted after the preceding key in the data's key order
+ *
+ * Frontmatter the document model cannot patch safely (syntax errors, aliases,
+ * non-scalar or duplicate keys) is re-serialized as a whole.
+ */
+
+import {
+	Document,
+	isAlias,
+	isMap,
+	isScalar,
+	isSeq,
+	parseDocument,
+	visit,
+	Node,
+	Pair,
+	Scalar,
+	ToStringOptions,
+	YAMLMap,
+} from 'yaml';
+import { stringifyYaml, YAML_OPTIONS, YAML_OUTPUT } from './yamlSchema';
+
+/** Frontmatter block: opening delimiter, YAML lines, closing delimiter */
+const FRONTMATTER_PATTERN = /^(---[ \t]*\r?\n)([\s\S]*?\r?\n)?(---[ \t]*(?:\r?\n|$))/;
+
+/** Formatting detected from the original frontmatter */
+interface YamlStyle {
+	/** Spaces per nesting level */
+	indent: number;
+	/** Whether block sequences under a key are indented (`key:\n  - a` vs `key:\n- a`) */
+	indentSeq: boolean;
+	/** Line ending */
+	eol: string;
+}
+
+/** Thrown when a map cannot be patched in place */
+class UnpatchableError extends Error {}
+
+/**
+ * Update the frontmatter of a file, changing only what differs from `data`
+ *
+ * @param source - Original file content (frontmatter and body)
+ * @param data - New frontmatter data
+ * @returns New file content; the body is kept as is
+ *
+ * @example
+ * updateFrontmatter('---\ntitle: "A"  # keep\ntags: [a]\n---\nBody', { title: 'B', tags: ['a'] });
+ * // '---\ntitle: "B"  # keep\ntags: [a]\n---\nBody'
+ */
+export function updateFrontmatter(source: string, data: Record<string, any>): string {
+	const frontmatter = splitFrontmatter(source);
+	if (!frontmatter) {
+		return stringifyFrontmatter(data, source);
+	}
+
+	const { open, yaml, close, body } = frontmatter;
+	const updated = updateYaml(yaml, data);
+	if (updated === yaml) {
+		return source;
+	}
+	if (updated.trim() === '') {
+		return body;
+	}
+	return open + updated + close + body;
+}
+
+/**
+ * Update frontmatter YAML text (without delimiters), changing only what differs from `data`
+ * Text that cannot be patched safely is re-serialized as a whole
+ */
+export function updateYaml(yaml: string, data: Record<string, any>): string {
+	const patched = patchYaml(yaml, data);
+	if (patched !== null) {
+		return patched;
+	}
+	return Object.keys(data).length > 0 ? stringifyYaml(data) : '';
+}
+
+/**
+ * Split a file into its frontmatter delimiters, YAML text and body
+ * Returns null if the file has no frontmatter block
+ */
+export function splitFrontmatter(source: string): { open: string; yaml: string; close: string; body: string } | null {
+	const match = FRONTMATTER_PATTERN.exec(source);
+	if (!match) return null;
+
+	const [block, open, yaml = '', close] = match;
+	return { open, yaml, close, body: source.slice(block.length) };
+}
+
+/**
+ * Create a complete frontmatter block for data, followed by the body
+ * Mirrors gray-matter: no block for empty data, body always ends with a newline
+ */
+export function stringifyFrontmatter(data: Record<string, any>, body: string): string {
+	const ensureNewline = (text: string) => (text.endsWith('\n') ? text : text + '\n');
+	if (Object.keys(data).length === 0) {
+		return ensureNewline(body);
+	}
+	return `---\n${stringifyYaml(data)}---\n${ensureNewline(body)}`;
+}
+
+/**
+ * Apply data to a YAML mapping text, changing only what differs
+ * Returns null if the text cannot be patched safely
+ */
+function patchYaml(text: string, data: Record<string, any>): string | null {
+	const doc = parseDocument(text, YAML_OPTIONS);
+	if (doc.errors.length > 0 || hasAliases(doc)) {
+		return null;
+	}
+	// Same parse as the reader (parseYaml), so unchanged values compare equal
+	const original: unknown = doc.toJS();
+
+	const style = detectStyle(text);
+
+	// Empty or comment-only frontmatter: append the new keys
+	if (doc.contents === null || (isScalar(doc.contents) && doc.contents.value === null)) {
+		return text + Object.keys(data).map(key => serializePair(key, data[key], '', style)).join('');
+	}
+
+	if (!isMap(doc.contents) || doc.contents.flow || !isPlainObject(original)) {
+		return null;
+	}
+
+	try {
+		const map = doc.contents;
+		const region = getMapRegion(text, map);
+		return text.slice(0, region.start) + patchMap(text, map, original, data, '', style) + text.slice(region.end);
+	} catch (error) {
+		if (error instanceof UnpatchableError) return null;
+		throw error;
+	}
+}
+
+/**
+ * Produce the new text of a block map's region (from its first key line to the end of its last value)
+ */
+function patchMap(
+	text: string,
+	map: YAMLMap,
+	oldObj: Record<string, any>,
+	newObj: Record<string, any>,
+	indent: string,
+	style: YamlStyle
+): string {
+	const region = getMapRegion(text, map);
+	const items = map.items.map((pair, index) => {
+		const key = getKeyName(pair);
+		const pairStart = lineStart(text, (pair.key as Node).range![0]);
+		const pairEnd = getPairEnd(text, pair);
+		const chunkStart = index === 0 ? region.start : getPairEnd(text, map.items[index - 1]);
+		return { key, pair, pairStart, pairEnd, trivia: text.slice(chunkStart, pairStart) };
+	});
+
+	const oldKeys = items.map(item => item.key);
+	if (new Set(oldKeys).size !== oldKeys.length || !sameKeys(oldKeys, Object.keys(oldObj))) {
+		throw new UnpatchableError();
+	}
+
+	const newKeys = Object.keys(newObj);
+	const renderItem = (item: typeof items[number]) =>
+		item.trivia + renderPair(text, item.pair, item.pairStart, item.pairEnd, oldObj[item.key], newObj[item.key], indent, style);
+	const renderNew = (key: string) => serializePair(key, newObj[key], indent, style);
+
+	const keptInSourceOrder = oldKeys.filter(key => key in newObj);
+	const keptInNewOrder = newKeys.filter(key => key in oldObj);
+	let output = '';
+
+	if (keptInSourceOrder.join('\u0000') === keptInNewOrder.join('\u0000')) {
+		// Same order: walk the source, inserting new keys where they belong
+		let next = 0;
+		for (const item of items) {
+			if (!(item.key in newObj)) {
+				output += item.trivia;
+				continue;
+			}
+			const position = newKeys.indexOf(item.key);
+			for (; next < position; next++) {
+				output += renderNew(newKeys[next]);
+			}
+			next = position + 1;
+			output += renderItem(item);
+		}
+		for (; next < newKeys.length; next++) {
+			output += renderNew(newKeys[next]);
+		}
+	} else {
+		// Reordered: each key moves together with the comments above it
+		for (const key of newKeys) {
+			const item = items.find(candidate => candidate.key === key);
+			output += item ? renderItem(item) : renderNew(key);
+		}
+		output += items.filter(item => !(item.key in newObj)).map(item => item.trivia).join('');
+	}
+
+	return output;
+}
+
+/**
+ * Render one existing pair with its new value
+ */
+function renderPair(
+	text: string,
+	pair: Pair,
+	pairStart: number,
+	pairEnd: number,
+	oldValue: any,
+	newValue: any,
+	indent: string,
+	style: YamlStyle
+): string {
+	const source = text.slice(pairStart, pairEnd);
+	if (isEqual(oldValue, newValue)) {
+		return source;
+	}
+
+	const node = pair.value as Node | null;
+	const keyNode = pair.key as Scalar;
+
+	// Nested block map: patch key by key
+	if (
+		isMap(node) && !node.flow && node.items.length > 0 &&
+		isPlainObject(oldValue) && isPlainObject(newValue) && Object.keys(newValue).length > 0
+	) {
+		const nested = getMapRegion(text, node);
+		const nestedIndent = text.slice(nested.start, (node.items[0].key as Node).range![0]);
+		if (/^[ ]+$/.test(nestedIndent)) {
+			return text.slice(pairStart, nested.start) +
+				patchMap(text, node, oldValue, newValue, nestedIndent, style) +
+				text.slice(nested.end, pairEnd);
+		}
+	}
+
+	// Scalar on the key line: replace just the value, keeping any trailing comment
+	if (isScalar(node) && isScalarValue(newValue) && !node.tag && !node.anchor && node.range) {
+		const [valueStart, valueEnd] = node.range;
+		const isBlockScalar = node.type === Scalar.BLOCK_LITERAL || node.type === Scalar.BLOCK_FOLDED;
+		const valueText = formatScalar(newValue, node.type);
+		if (
+			valueEnd > valueStart && !isBlockScalar && !valueText.includes('\n') &&
+			!text.slice(keyNode.range![0], valueEnd).includes('\n')
+		) {
+			return text.slice(pairStart, valueStart) + valueText + text.slice(valueEnd, pairEnd);
+		}
+	}
+
+	return serializePair(getKeyName(pair), newValue, indent, style, {
+		keyType: keyNode.type,
+		flow: (isMap(node) || isSeq(node)) && node.flow,
+		scalarType: isScalar(node) ? node.type : undefined,
+	});
+}
+
+/**
+ * Serialize a key/value pair at an indentation, ending with a line break
+ */
+function serializePair(
+	key: string,
+	value: any,
+	indent: string,
+	style: YamlStyle,
+	hints: { keyType?: Scalar.Type; flow?: boolean; scalarType?: Scalar.Type } = {}
+): string {
+	const doc = new Document(new YAMLMap(), YAML_OPTIONS);
+	const pair = doc.createPair(key, value);
+	if (hints.keyType && isScalar(pair.key)) {
+		pair.key.type = hints.keyType;
+	}
+	if (hints.flow && (isMap(pair.value) || isSeq(pair.value))) {
+		pair.value.flow = true;
+	}
+	if (hints.scalarType && isScalar(pair.value) && typeof value === 'string') {
+		pair.value.type = hints.scalarType;
+	}
+	(doc.contents as YAMLMap).items.push(pair);
+
+	const lines = doc.toString(getToStringOptions(style)).replace(/\n$/, '').split('\n');
+	return lines.map(line => (line === '' ? line : indent + line) + style.eol).join('');
+}
+
+/**
+ * Format a scalar value in a given source style (falls back if the style cannot represent it)
+ */
+function formatScalar(value: string | number | boolean | null, type?: Scalar.Type): string {
+	const doc = new Document(value, YAML_OPTIONS);
+	if (isScalar(doc.contents) && typeof value === 'string' && type) {
+		doc.contents.type = type;
+	}
+	return doc.toString(YAML_OUTPUT).replace(/\n$/, '');
+}
+
+function getToStringOptions(style: YamlStyle): ToStringOptions {
+	return { ...YAML_OUTPUT, indent: style.indent, indentSeq: style.indentSeq };
+}
+
+/**
+ * Text range of a block map: start of its first key line to the end of its last value line
+ */
+function getMapRegion(text: string, map: YAMLMap): { start: number; end: number } {
+	const first = map.items[0];
+	const last = map.items[map.items.length - 1];
+	return {
+		start: lineStart(text, (first.key as Node).range![0]),
+		end: getPairEnd(text, last),
+	};
+}
+
+/**
+ * End of a pair: after the line break ending its last value line
+ */
+function getPairEnd(text: string, pair: Pair): number {
+	const key = pair.key as Node;
+	const value = pair.value as Node | null;
+	let end = Math.max(key.range![1], value?.range ? value.range[1] : 0);
+	// Collection ranges include the line breaks (and blank lines) after them
+	while (end > key.range![1] && /\s/.test(text[end - 1])) {
+		end--;
+	}
+	const lineBreak = text.indexOf('\n', end);
+	return lineBreak === -1 ? text.length : lineBreak + 1;
+}
+
+function lineStart(text: string, offset: number): number {
+	return text.lastIndexOf('\n', offset - 1) + 1;
+}
+
+function getKeyName(pair: Pair): string {
+	if (!isScalar(pair.key) || pair.key.value === null || typeof pair.key.value === 'object') {
+		throw new UnpatchableError();
+	}
+	return String(pair.key.value);
+}
+
+function hasAliases(doc: Document): boolean {
+	let found = false;
+	visit(doc, {
+		Alias() {
+			found = true;
+			return visit.BREAK;
+		},
+		Node(_, node) {
+			if (!isAlias(node) && (node as Node & { anchor?: string }).anchor) {
+				found = true;
+				return visit.BREAK;
+			}
+		},
+	});
+	return found;
+}
+
+/**
+ * Detect indentation, sequence indentation and line endings
+ * Based on the first nested map and the first block sequence under a key
+ */
+function detectStyle(text: string): YamlStyle {
+	const eol = text.includes('\r\n') ? '\r\n' : '\n';
+	const lines = text.split(/\r?\n/);
+	const linePattern = /^( *)([^\s#].*)$/;
+
+	let mapIndent = 0;
+	let seqOffset = -1;
+	for (let i = 0; i < lines.length - 1; i++) {
+		const line = linePattern.exec(lines[i]);
+		const next = linePattern.exec(lines[i + 1]);
+		// Only `key:` lines with the value on the following lines
+		if (!line || !next || !/:\s*(#.*)?$/.test(line[2])) continue;
+
+		const offset = next[1].length - line[1].length;
+		if (next[2].startsWith('- ')) {
+			if (seqOffset < 0) seqOffset = offset;
+		} else if (offset > 0 && mapIndent === 0) {
+			mapIndent = offset;
+		}
+	}
+
+	const indent = Math.min(Math.max(mapIndent || seqOffset, 2), 8);
+	// The yaml package places unindented sequence items at indent - 2
+	return { indent, indentSeq: seqOffset < 0 || seqOffset >= indent, eol };
+}
+
+function isScalarValue(value: any): value is string | number | boolean | null {
+	return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function sameKeys(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every(key => b.includes(key));
+}
+
+/**
+ * Structural equality for YAML data (scalars, arrays, plain objects, dates)
+ *
+ * Key order counts, so a reordered nested map is written in its new order.
+ */
+function isEqual(a: any, b: any): boolean {
+	if (a === b) return true;
+	if (typeof a === 'number' && typeof b === 'number') return isNaN(a) && isNaN(b);
+	if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+	}
+	if (isPlainObject(a) && isPlainObject(b)) {
+		const keys = Object.keys(a);
+		const otherKeys = Object.keys(b);
+		return keys.length === otherKeys.length &&
+			keys.every((key, index) => key === otherKeys[index] && isEqual(a[key], b[key]));
+	}
+	return false;
+}
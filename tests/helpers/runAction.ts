@@ -0,0 +1,18 @@
+/**
+ * Parse an action and run it on plain frontmatter data (no App or file needed)
+ */
+
+import { executeAction } from '../../src/core/ruleEngine';
+import { parseAction } from '../../src/parser/actionParser';
+import { ActionResult } from '../../src/types';
+
+/**
+ * Run a single action on data in place
+ *
+ * @example
+ * const data = { title: 'Note' };
+ * runAction('SET status "done"', data); // data.status === 'done'
+ */
+export function runAction(action: string, data: any): ActionResult {
+	return executeAction(parseAction(action), data);
+}
@@ -17,6 +17,7 @@ beforeAll(() => {
 
 // Mock the async functions
 vi.mock('../../src/core/fileScanner', () => ({
+	getCurrentFile: vi.fn().mockReturnValue(null),
 	scanFiles: vi.fn().mockResolvedValue({
 		matched: [
 			{ path: 'test1.md', basename: 'test1', name: 'test1.md', extension: 'md' },
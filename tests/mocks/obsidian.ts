@@ -10,6 +10,8 @@ export class Plugin {
 	app: any;
 	async loadData() { return null; }
 	async saveData(data: any) {}
+	addCommand(command: any) { return command; }
+	removeCommand(commandId: string) {}
 }
 
 export class Modal {
@@ -49,9 +51,50 @@ export interface TFile {
 	path: string;
 	basename: string;
 	name: string;
+	extension: string;
 	parent: any;
+	stat: { ctime: number; mtime: number; size: number };
 }
 
 export function normalizePath(path: string): string {
 	return path.replace(/\\/g, '/');
 }
+
+export interface CachedMetadata {
+	links?: { link: string; original: string }[];
+	embeds?: { link: string; original: string }[];
+	tags?: { tag: string }[];
+	frontmatter?: Record<string, any>;
+}
+
+/**
+ * Mock metadataCache: per-file caches and the vault-wide resolvedLinks
+ * (source path → target path → link count). Links resolve to files with a
+ * cache, by path or by name.
+ */
+export class MetadataCache {
+	resolvedLinks: Record<string, Record<string, number>> = {};
+	private caches = new Map<string, CachedMetadata>();
+
+	setFileCache(path: string, cache: CachedMetadata) {
+		this.caches.set(path, cache);
+	}
+
+	getFileCache(file: { path: string }): CachedMetadata | null {
+		return this.caches.get(file.path) ?? null;
+	}
+
+	getCache(path: string): CachedMetadata | null {
+		return this.caches.get(path) ?? null;
+	}
+
+	getFirstLinkpathDest(linkpath: string, sourcePath: string): { path: string; basename: string } | null {
+		for (const path of Array.from(this.caches.keys())) {
+			const basename = path.split('/').pop()!.replace(/\.md$/, '');
+			if (path === linkpath || path === `${linkpath}.md` || basename === linkpath) {
+				return { path, basename };
+			}
+		}
+		return null;
+	}
+}
@@ -0,0 +1,143 @@
+/**
+ * Tests for type conversion (CONVERT)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { executeConvert } from '../../../src/actions/convertActions';
+import { executeRule } from '../../../src/core/ruleEngine';
+import { Rule } from '../../../src/types';
+
+describe('Convert Actions', () => {
+	describe('number', () => {
+		it('should convert numeric strings', () => {
+			const data = { priority: '3', ratio: ' -1.5 ', big: '1e3' };
+			const result = executeConvert(data, 'priority', 'number');
+			executeConvert(data, 'ratio', 'number');
+			executeConvert(data, 'big', 'number');
+
+			expect(data).toEqual({ priority: 3, ratio: -1.5, big: 1000 });
+			expect(result.changes[0]).toBe('CONVERT priority TO number: "3" → 3');
+		});
+
+		it('should only accept number prefixes, decimal commas and booleans when lenient', () => {
+			const strict = executeConvert({ estimate: '3 hours' }, 'estimate', 'number');
+			expect(strict).toMatchObject({ success: true, modified: false });
+			expect(strict.warning).toBe('Cannot convert \'estimate\' to number: "3 hours" (CONVERT ... LENIENT would accept it)');
+
+			const data = { estimate: '3 hours', price: '2,50', flag: true };
+			executeConvert(data, 'estimate', 'number', 'lenient');
+			executeConvert(data, 'price', 'number', 'lenient');
+			executeConvert(data, 'flag', 'number', 'lenient');
+			expect(data).toEqual({ estimate: 3, price: 2.5, flag: 1 });
+		});
+
+		it('should warn without a hint when lenient mode would not help', () => {
+			expect(executeConvert({ p: 'high' }, 'p', 'number').warning).toBe('Cannot convert \'p\' to number: "high"');
+		});
+	});
+
+	describe('boolean', () => {
+		it('should convert true/false strings', () => {
+			const data = { done: 'true', draft: 'FALSE' };
+			executeConvert(data, 'done', 'boolean');
+			executeConvert(data, 'draft', 'boolean');
+
+			expect(data).toEqual({ done: true, draft: false });
+		});
+
+		it('should accept yes/no, on/off and 1/0 when lenient', () => {
+			expect(executeConvert({ done: 'yes' }, 'done', 'boolean').warning).toContain('LENIENT would accept it');
+
+			const data = { a: 'yes', b: 'off', c: 1, d: 'N' };
+			for (const key of Object.keys(data)) {
+				executeConvert(data, key, 'boolean', 'lenient');
+			}
+			expect(data).toEqual({ a: true, b: false, c: true, d: false });
+		});
+	});
+
+	describe('string', () => {
+		it('should convert numbers and booleans', () => {
+			const data = { code: 12, flag: false };
+			executeConvert(data, 'code', 'string');
+			executeConvert(data, 'flag', 'string');
+
+			expect(data).toEqual({ code: '12', flag: 'false' });
+		});
+
+		it('should join arrays only when lenient and never convert objects', () => {
+			expect(executeConvert({ tags: ['a'] }, 'tags', 'string').warning).toContain('LENIENT would accept it');
+
+			const data = { tags: ['a', 'b'] };
+			executeConvert(data, 'tags', 'string', 'lenient');
+			expect(data.tags).toBe('a, b');
+
+			expect(executeConvert({ meta: { a: 1 } }, 'meta', 'string', 'lenient').warning).toContain("Cannot convert 'meta' to string");
+		});
+	});
+
+	describe('array', () => {
+		it('should wrap scalars', () => {
+			const data = { tags: 'work', count: 3 };
+			executeConvert(data, 'tags', 'array');
+			executeConvert(data, 'count', 'array');
+
+			expect(data).toEqual({ tags: ['work'], count: [3] });
+		});
+
+		it('should split comma lists when lenient', () => {
+			const data = { tags: 'work, home,,' };
+			executeConvert(data, 'tags', 'array', 'lenient');
+
+			expect(data.tags).toEqual(['work', 'home']);
+		});
+	});
+
+	describe('date', () => {
+		it('should normalize dates and keep datetimes in their shape', () => {
+			const data = { due: '2024-1-5', created: '2024-01-15 10:30', done: '2024-01-15' };
+			executeConvert(data, 'due', 'date');
+			executeConvert(data, 'created', 'date');
+
+			expect(data).toEqual({ due: '2024-01-05', created: '2024-01-15 10:30', done: '2024-01-15' });
+			expect(executeConvert(data, 'done', 'date').modified).toBe(false);
+		});
+
+		it('should accept day-first and written-out dates when lenient', () => {
+			const data = { a: '15.01.2024', b: 'January 5, 2024', c: '5 Mar 2024' };
+			for (const key of Object.keys(data)) {
+				executeConvert(data, key, 'date', 'lenient');
+			}
+
+			expect(data).toEqual({ a: '2024-01-15', b: '2024-01-05', c: '2024-03-05' });
+			expect(executeConvert({ d: '01/15/2024' }, 'd', 'date', 'lenient').warning).toContain("Cannot convert 'd' to date");
+		});
+	});
+
+	it('should skip missing and null fields and leave matching types alone', () => {
+		expect(executeConvert({}, 'priority', 'number')).toEqual({ success: true, modified: false, changes: [] });
+		expect(executeConvert({ priority: null }, 'priority', 'number')).toEqual({ success: true, modified: false, changes: [] });
+		expect(executeConvert({ priority: 3 }, 'priority', 'number').modified).toBe(false);
+	});
+
+	it('should report failed conversions as file warnings', async () => {
+		const app: any = {
+			vault: { read: async () => '---\npriority: high\n---\n' },
+		};
+		const rule: Rule = {
+			id: 'rule-1',
+			name: 'Fix priority',
+			condition: 'priority :string',
+			action: 'CONVERT priority TO number',
+			scope: { type: 'vault' },
+			options: { backup: false },
+			created: '2025-01-01T00:00:00.000Z',
+		};
+
+		const result = await executeRule(app, rule, { path: 'note.md' } as any);
+
+		expect(result.status).toBe('warning');
+		expect(result.modified).toBe(false);
+		expect(result.warning).toBe('Cannot convert \'priority\' to number: "high"');
+	});
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for date actions (SHIFT, FORMAT) and date expressions in SET
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { executeShift, executeFormatDate } from '../../../src/actions/dateActions';
+import { runAction } from '../../helpers/runAction';
+
+describe('Date Actions', () => {
+	describe('executeShift', () => {
+		it('should shift date-only values and keep them date-only', () => {
+			const data = { due: '2024-01-31' };
+			const result = executeShift(data, 'due', '1m');
+
+			expect(result).toMatchObject({ success: true, modified: true });
+			expect(data.due).toBe('2024-02-29');
+			expect(result.changes[0]).toBe('SHIFT due by 1m: 2024-01-31 → 2024-02-29');
+		});
+
+		it('should shift backwards', () => {
+			const data = { due: '2024-3-1' };
+			executeShift(data, 'due', '-1d');
+
+			expect(data.due).toBe('2024-02-29');
+		});
+
+		it('should keep time, separator and offset of datetimes', () => {
+			const data = {
+				a: '2024-01-15T10:30:00+02:00',
+				b: '2024-01-15 23:00',
+				c: '2024-01-15T10:30Z',
+			};
+
+			executeShift(data, 'a', '1w');
+			executeShift(data, 'b', '2h');
+			executeShift(data, 'c', '1d');
+
+			expect(data).toEqual({
+				a: '2024-01-22T10:30:00+02:00',
+				b: '2024-01-16 01:00',
+				c: '2024-01-16T10:30Z',
+			});
+		});
+
+		it('should warn and leave values that are not dates', () => {
+			const data = { due: 'next week' };
+			const result = executeShift(data, 'due', '7d');
+
+			expect(result).toMatchObject({ success: true, modified: false });
+			expect(result.warning).toBe('Field \'due\' is not a date: "next week"');
+			expect(data.due).toBe('next week');
+		});
+
+		it('should skip missing and null fields silently', () => {
+			expect(executeShift({}, 'due', '7d')).toEqual({ success: true, modified: false, changes: [] });
+			expect(executeShift({ due: null }, 'due', '7d')).toEqual({ success: true, modified: false, changes: [] });
+		});
+	});
+
+	describe('executeFormatDate', () => {
+		it('should normalize mixed date formats', () => {
+			const notes = [{ date: '2024-1-5' }, { date: '2024-01-05T09:00' }, { date: '2024-01-05' }];
+			const results = notes.map(data => executeFormatDate(data, 'date', 'yyyy-MM-dd'));
+
+			expect(notes.map(data => data.date)).toEqual(['2024-01-05', '2024-01-05', '2024-01-05']);
+			expect(results.map(result => result.modified)).toEqual([true, true, false]);
+		});
+
+		it('should support any luxon format', () => {
+			const data = { date: '2024-03-15T14:05' };
+			executeFormatDate(data, 'date', 'dd.MM.yyyy HH:mm');
+
+			expect(data.date).toBe('15.03.2024 14:05');
+		});
+
+		it('should warn for values that are not dates', () => {
+			const data = { date: 42 };
+			const result = executeFormatDate(data, 'date', 'yyyy-MM-dd');
+
+			expect(result.warning).toBe('Field \'date\' is not a date: 42');
+			expect(data.date).toBe(42);
+		});
+	});
+
+	describe('SET field = date expression', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date(2024, 2, 15, 14, 30));
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should compute a date from another field', () => {
+			const data: any = { last_review: '2024-01-15' };
+			const result = runAction('SET next_review = last_review + 14d', data);
+
+			expect(result).toMatchObject({ success: true, modified: true });
+			expect(data.next_review).toBe('2024-01-29');
+		});
+
+		it('should compute from anchors', () => {
+			const data: any = {};
+
+			runAction('SET reviewed = today', data);
+			runAction('SET follow_up = today + 2w', data);
+			runAction('SET due = startOfMonth - 1d', data);
+
+			expect(data).toEqual({ reviewed: '2024-03-15', follow_up: '2024-03-29', due: '2024-02-29' });
+		});
+
+		it('should warn when the source field is missing or not a date', () => {
+			const missing: any = {};
+			const invalid: any = { last_review: 'soon' };
+
+			expect(runAction('SET next_review = last_review + 14d', missing).warning)
+				.toBe("SET next_review skipped: Field 'last_review' not found");
+			expect(runAction('SET next_review = last_review + 14d', invalid).warning)
+				.toBe('SET next_review skipped: Cannot use \'last_review\' as a date: "soon"');
+			expect(invalid).toEqual({ last_review: 'soon' });
+		});
+
+		it('should reject durations outside date arithmetic', () => {
+			const result = runAction('SET x = a * 7d', { a: '2024-01-01' });
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain('Durations can only be added to or subtracted from dates');
+		});
+	});
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for computed values: SET/ADD field = expression
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runAction } from '../../helpers/runAction';
+
+/** Evaluate an expression and return the value it sets */
+function compute(expression: string, data: any = {}): any {
+	const copy = JSON.parse(JSON.stringify(data));
+	const result = runAction(`SET result = ${expression}`, copy);
+	if (!result.success || result.warning) {
+		throw new Error(result.error ?? result.warning);
+	}
+	return copy.result;
+}
+
+describe('Expressions', () => {
+	describe('arithmetic', () => {
+		it('should produce numbers', () => {
+			expect(compute('words / 100', { words: 1250 })).toBe(12.5);
+			expect(compute('a * 2 + b', { a: 3, b: 1 })).toBe(7);
+			expect(compute('a * (2 + b)', { a: 3, b: 1 })).toBe(9);
+			expect(compute('count % 3', { count: 10 })).toBe(1);
+			expect(compute('-a - 1', { a: 2 })).toBe(-3);
+			expect(compute('a -1', { a: 2 })).toBe(1);
+		});
+
+		it('should round', () => {
+			expect(compute('round(words / 3)', { words: 10 })).toBe(3);
+			expect(compute('round(words / 3, 2)', { words: 10 })).toBe(3.33);
+		});
+	});
+
+	describe('strings', () => {
+		it('should concatenate when either side is a string', () => {
+			expect(compute('"Week " + week', { week: 12 })).toBe('Week 12');
+			expect(compute('title + " (draft)"', { title: 'Plan' })).toBe('Plan (draft)');
+		});
+
+		it('should apply string functions', () => {
+			expect(compute('lower(title)', { title: 'My Note' })).toBe('my note');
+			expect(compute('upper(trim(title))', { title: '  a  ' })).toBe('A');
+			expect(compute('slugify(title)', { title: 'Café Notes: Q1 2024!' })).toBe('cafe-notes-q1-2024');
+		});
+	});
+
+	describe('arrays and objects', () => {
+		it('should count items', () => {
+			expect(compute('length(tags)', { tags: ['a', 'b', 'c'] })).toBe(3);
+			expect(compute('length(meta)', { meta: { a: 1 } })).toBe(1);
+			expect(compute('length(title)', { title: 'abc' })).toBe(3);
+		});
+
+		it('should concatenate arrays as real arrays', () => {
+			expect(compute('tags + ["new"]', { tags: ['a'] })).toEqual(['a', 'new']);
+			expect(compute('tags + "new"', { tags: ['a'] })).toEqual(['a', 'new']);
+		});
+
+		it('should copy arrays and objects with their types', () => {
+			expect(compute('meta', { meta: { tags: ['a'], n: 1 } })).toEqual({ tags: ['a'], n: 1 });
+		});
+	});
+
+	describe('coalesce and if', () => {
+		it('should take the first value that exists', () => {
+			expect(compute('coalesce(alias, title, "Untitled")', { title: 'Plan' })).toBe('Plan');
+			expect(compute('coalesce(alias, title, "Untitled")', {})).toBe('Untitled');
+			expect(compute('coalesce(alias, title)', { alias: null })).toBeNull();
+		});
+
+		it('should choose a branch and only evaluate that branch', () => {
+			expect(compute('if(words > 500, "long", "short")', { words: 800 })).toBe('long');
+			expect(compute('if(length(tags) = 0, "untagged", tags)', { tags: [] })).toBe('untagged');
+			expect(compute('if(done, 1, missing * 2)', { done: true })).toBe(1);
+		});
+
+		it('should compare dates in conditions', () => {
+			expect(compute('if(due < 2024-02-01, "early", "late")', { due: '2024-1-5' })).toBe('early');
+		});
+	});
+
+	describe('dates', () => {
+		it('should give days between dates', () => {
+			expect(compute('due - created', { due: '2024-03-01', created: '2024-02-01' })).toBe(29);
+		});
+	});
+
+	describe('aggregates', () => {
+		const data = { tasks: [{ estimate: 3, due: '2025-03-01' }, { estimate: 5, due: '2025-01-15' }, { title: 'no estimate' }] };
+
+		it('should aggregate lists', () => {
+			expect(compute('SUM(tasks[*].estimate)', data)).toBe(8);
+			expect(compute('COUNT(tasks[*].estimate)', data)).toBe(2);
+			expect(compute('AVG(tasks[*].estimate)', data)).toBe(4);
+			expect(compute('MAX(tasks[*].estimate) - MIN(tasks[*].estimate)', data)).toBe(2);
+			expect(compute('LIST(tasks[*].estimate)', data)).toEqual([3, 5]);
+		});
+
+		it('should compare dates in MIN and MAX', () => {
+			expect(compute('MIN(tasks[*].due)', data)).toBe('2025-01-15');
+			expect(compute('MAX(tasks[*].due)', data)).toBe('2025-03-01');
+		});
+
+		it('should handle empty lists', () => {
+			expect(compute('SUM(tasks[*].points)', data)).toBe(0);
+			expect(compute('COUNT(missing)', data)).toBe(0);
+			expect(compute('MIN(tasks[*].points)', data)).toBeNull();
+			expect(compute('AVG(tasks[*].points)', data)).toBeNull();
+		});
+
+		it('should warn on values that are not numbers', () => {
+			expect(runAction('SET r = SUM(tags)', { tags: ['a'] }).warning).toBe('SET r skipped: sum() needs a number, got string: "a"');
+		});
+	});
+
+	describe('warnings and errors', () => {
+		it('should warn and leave the field when the data does not fit', () => {
+			const data: any = { words: 'many', result: 1 };
+
+			const result = runAction('SET result = words / 100', data);
+
+			expect(result).toMatchObject({ success: true, modified: false });
+			expect(result.warning).toBe("SET result skipped: '/' needs a number, got string in 'words': \"many\"");
+			expect(data.result).toBe(1);
+		});
+
+		it('should warn for missing fields and division by zero', () => {
+			expect(runAction('SET r = a + 1', {}).warning).toBe("SET r skipped: Field 'a' not found");
+			expect(runAction('SET r = a / b', { a: 1, b: 0 }).warning).toBe('SET r skipped: Division by zero');
+			expect(runAction('SET r = lower(n)', { n: 5 }).warning).toBe('SET r skipped: lower() needs a string, got number');
+		});
+
+		it('should only ADD computed values when the field is missing', () => {
+			const data: any = { title: 'My Note', slug: 'custom' };
+
+			const existing = runAction('ADD slug = slugify(title)', data);
+			const added = runAction('ADD id = slugify(title)', data);
+
+			expect(existing.warning).toBe("Field 'slug' already exists");
+			expect(added.modified).toBe(true);
+			expect(data).toEqual({ title: 'My Note', slug: 'custom', id: 'my-note' });
+		});
+	});
+});
@@ -0,0 +1,280 @@
+/**
+ * Tests for key actions (RENAME, NORMALIZE, DELETE, REORDER and SORT KEYS, KEEP ONLY)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	executeRenameKeys,
+	executeNormalizeKeys,
+	executeDeleteKeys,
+	executeKeepOnly,
+	executeReorderKeys,
+	executeSortKeys,
+} from '../../../src/actions/keyActions';
+import { executeRule } from '../../../src/core/ruleEngine';
+import { splitWords, toKeyCase } from '../../../src/utils/strings';
+import { updateYaml } from '../../../src/yaml/yamlWriter';
+import { runAction } from '../../helpers/runAction';
+
+describe('Key Actions', () => {
+	describe('executeRenameKeys', () => {
+		it('should rename keys matching a regex and keep their position', () => {
+			const data = { title: 'Note', 'date-created': '2024-01-15', 'date-modified': '2024-02-01', tags: [] };
+			const result = executeRenameKeys(data, '', '/^date-(.*)$/', '$1_date', true);
+
+			expect(Object.keys(data)).toEqual(['title', 'created_date', 'modified_date', 'tags']);
+			expect((data as any).created_date).toBe('2024-01-15');
+			expect(result.changes).toEqual(['RENAME date-created → created_date', 'RENAME date-modified → modified_date']);
+		});
+
+		it('should rename keys matching a glob', () => {
+			const data = { 'old-author': 'Ann', 'old-status': 'draft', older: 1 };
+			executeRenameKeys(data, '', 'old-*', '$1');
+
+			expect(data).toEqual({ author: 'Ann', status: 'draft', older: 1 });
+		});
+
+		it('should rename keys of a nested object and of objects in an array', () => {
+			const data = { meta: { Created: 1, title: 'x' }, authors: [{ Name: 'Ann' }, 'plain', { Name: 'Bob' }] };
+
+			const nested = executeRenameKeys(data, 'meta', '/^Created$/', 'created', true);
+			const items = executeRenameKeys(data, 'authors', 'Name', 'name');
+
+			expect(data).toEqual({ meta: { created: 1, title: 'x' }, authors: [{ name: 'Ann' }, 'plain', { name: 'Bob' }] });
+			expect(nested.changes).toEqual(['RENAME meta.Created → meta.created']);
+			expect(items.changes).toEqual(['RENAME authors[0].Name → authors[0].name', 'RENAME authors[2].Name → authors[2].name']);
+		});
+
+		it('should warn instead of overwriting an existing key', () => {
+			const data = { 'date-created': 'old', created_date: 'new' };
+			const result = executeRenameKeys(data, '', '/^date-(.*)$/', '$1_date', true);
+
+			expect(data).toEqual({ 'date-created': 'old', created_date: 'new' });
+			expect(result.modified).toBe(false);
+			expect(result.warning).toBe("RENAME KEYS skipped date-created → created_date: 'created_date' already exists");
+		});
+
+		it('should warn when two keys would get the same name', () => {
+			const data = { a: 1, b: 2 };
+			const result = executeRenameKeys(data, '', '/^[ab]$/', 'x', true);
+
+			expect(data).toEqual({ a: 1, b: 2 });
+			expect(result.warning).toBe(
+				"RENAME KEYS skipped a → x: 'b' would be renamed to 'x' too; RENAME KEYS skipped b → x: 'a' would be renamed to 'x' too"
+			);
+		});
+
+		it('should reject unsafe new key names', () => {
+			const data = { proto: 1 };
+			const result = executeRenameKeys(data, '', 'proto', '__proto__');
+
+			expect(data).toEqual({ proto: 1 });
+			expect(result.warning).toContain('invalid key name');
+		});
+
+		it('should skip missing targets and warn about non-objects', () => {
+			expect(executeRenameKeys({}, 'meta', '*', 'x')).toEqual({ success: true, modified: false, changes: [] });
+			expect(executeRenameKeys({ meta: 'x' }, 'meta', '*', 'x').warning).toContain("Field 'meta' is not an object");
+		});
+	});
+
+	describe('executeNormalizeKeys', () => {
+		it('should normalize mixed key styles', () => {
+			const data = { Created: 1, 'date-modified': 2, reviewAt: 3, 'Due Date': 4 };
+			executeNormalizeKeys(data, '', 'snake_case');
+
+			expect(data).toEqual({ created: 1, date_modified: 2, review_at: 3, due_date: 4 });
+		});
+
+		it('should write camelCase and kebab-case', () => {
+			const camel = { created_at: 1, 'date-modified': 2 };
+			const kebab = { createdAt: 1, date_modified: 2 };
+			executeNormalizeKeys(camel, '', 'camelCase');
+			executeNormalizeKeys(kebab, '', 'kebab-case');
+
+			expect(camel).toEqual({ createdAt: 1, dateModified: 2 });
+			expect(kebab).toEqual({ 'created-at': 1, 'date-modified': 2 });
+		});
+
+		it('should warn about keys that normalize to the same name', () => {
+			const data = { created_at: 1, createdAt: 2, 'Created-At': 3 };
+			const result = executeNormalizeKeys(data, '', 'snake_case');
+
+			expect(data).toEqual({ created_at: 1, createdAt: 2, 'Created-At': 3 });
+			expect(result.warning).toContain("NORMALIZE KEYS skipped createdAt → created_at: 'created_at' already exists");
+			expect(result.warning).toContain("NORMALIZE KEYS skipped Created-At → created_at: 'created_at' already exists");
+		});
+
+		it('should not modify keys that are already normalized', () => {
+			expect(executeNormalizeKeys({ due_date: 1 }, '', 'snake_case').modified).toBe(false);
+		});
+	});
+
+	describe('executeDeleteKeys', () => {
+		it('should delete keys matching a glob and list each one', () => {
+			const data = { title: 'Note', 'kanban-plugin': 'basic', 'excalidraw-plugin': 'parsed', 'kanban-settings': {} };
+			const result = executeDeleteKeys(data, '', 'kanban-*');
+
+			expect(data).toEqual({ title: 'Note', 'excalidraw-plugin': 'parsed' });
+			expect(result.changes).toEqual(['DELETE kanban-plugin', 'DELETE kanban-settings']);
+		});
+
+		it('should delete keys matching a regex, including with the g flag', () => {
+			const data = { 'kanban-plugin': 1, 'excalidraw-plugin': 2, plugins: 3, title: 4 };
+			executeDeleteKeys(data, '', '/^(kanban|excalidraw)-/g', true);
+
+			expect(data).toEqual({ plugins: 3, title: 4 });
+		});
+
+		it('should delete keys of a nested object', () => {
+			const data = { meta: { 'x-a': 1, b: 2 } };
+			const result = executeDeleteKeys(data, 'meta', 'x-*');
+
+			expect(data).toEqual({ meta: { b: 2 } });
+			expect(result.changes).toEqual(['DELETE meta.x-a']);
+		});
+
+		it('should not modify when nothing matches and reject unsafe patterns', () => {
+			expect(executeDeleteKeys({ title: 1 }, '', 'kanban-*').modified).toBe(false);
+			expect(executeDeleteKeys({ title: 1 }, '', '/a+*/', true).success).toBe(false);
+		});
+	});
+
+	describe('executeKeepOnly', () => {
+		it('should delete all keys that are not listed', () => {
+			const data = { title: 'Note', cssclass: 'wide', date: '2024-01-15', 'kanban-plugin': 'basic', tags: [] };
+			const result = executeKeepOnly(data, '', ['title', 'date', 'tags', 'missing']);
+
+			expect(data).toEqual({ title: 'Note', date: '2024-01-15', tags: [] });
+			expect(result.changes).toEqual(['DELETE cssclass', 'DELETE kanban-plugin']);
+		});
+
+		it('should not modify when only listed keys exist', () => {
+			expect(executeKeepOnly({ title: 1 }, '', ['title', 'date']).modified).toBe(false);
+		});
+	});
+
+	describe('executeReorderKeys', () => {
+		it('should put listed keys first and keep the rest in place of *', () => {
+			const data = { status: 'draft', tags: [], date: '2024-01-15', title: 'Note', aliases: [] };
+			const result = executeReorderKeys(data, '', ['title', 'date', '*', 'aliases']);
+
+			expect(Object.keys(data)).toEqual(['title', 'date', 'status', 'tags', 'aliases']);
+			expect(result.changes).toEqual(['REORDER KEYS: title, date, status, tags, aliases']);
+		});
+
+		it('should append unlisted keys without * and ignore missing keys', () => {
+			const data = { b: 1, c: 2, a: 3 };
+			executeReorderKeys(data, '', ['a', 'missing', 'b', 'a']);
+
+			expect(Object.keys(data)).toEqual(['a', 'b', 'c']);
+		});
+
+		it('should not modify keys already in order', () => {
+			expect(executeReorderKeys({ title: 1, date: 2 }, '', ['title', '*']).modified).toBe(false);
+		});
+
+		it('should reorder nested objects', () => {
+			const data = { meta: { z: 1, a: 2 } };
+			const result = executeReorderKeys(data, 'meta', ['a']);
+
+			expect(Object.keys(data.meta)).toEqual(['a', 'z']);
+			expect(result.changes).toEqual(['REORDER KEYS meta: a, z']);
+		});
+	});
+
+	describe('executeSortKeys', () => {
+		it('should sort keys ascending and descending', () => {
+			const asc = { b: 1, C: 2, a: 3 };
+			const desc = { b: 1, c: 2, a: 3 };
+			executeSortKeys(asc, '', 'ASC');
+			executeSortKeys(desc, '', 'DESC');
+
+			expect(Object.keys(asc)).toEqual(['a', 'b', 'C']);
+			expect(Object.keys(desc)).toEqual(['c', 'b', 'a']);
+		});
+
+		it('should sort the keys of each object in an array', () => {
+			const data = { authors: [{ name: 'Ann', age: 3 }, { role: 'x', id: 1 }] };
+			executeSortKeys(data, 'authors');
+
+			expect(data.authors.map(author => Object.keys(author))).toEqual([['age', 'name'], ['id', 'role']]);
+		});
+	});
+
+	describe('key case helpers', () => {
+		it('should split words at separators and case changes', () => {
+			expect(splitWords('dateCreated_at')).toEqual(['date', 'created', 'at']);
+			expect(splitWords('URLPath')).toEqual(['url', 'path']);
+			expect(splitWords('page2Title')).toEqual(['page2', 'title']);
+			expect(toKeyCase('Date Created', 'camelCase')).toBe('dateCreated');
+		});
+	});
+
+	describe('through executeAction', () => {
+		it('should run top-level and nested key operations', () => {
+			const data = { 'date-created': 1, Title: 'x', meta: { ReviewAt: 2 } };
+
+			runAction('RENAME KEYS /^date-(.*)$/ TO "$1_date"', data);
+			runAction('NORMALIZE KEYS TO snake_case', data);
+			runAction('FOR meta NORMALIZE KEYS TO kebab-case', data);
+
+			expect(data).toEqual({ created_date: 1, title: 'x', meta: { 'review-at': 2 } });
+		});
+
+		it('should write renamed keys in place', () => {
+			const yaml = '# Imported\ntitle: Note\ndate-created: 2024-01-15 # original\ntags: [a]\n';
+			const data = { title: 'Note', 'date-created': '2024-01-15', tags: ['a'] };
+
+			runAction('RENAME KEYS "date-*" TO "$1_date"', data);
+
+			expect(updateYaml(yaml, data)).toBe('# Imported\ntitle: Note\ncreated_date: 2024-01-15\ntags: [a]\n');
+		});
+
+		it('should write reordered keys', () => {
+			const yaml = 'tags: [a]\ntitle: Note # main\ndate: 2024-01-15\n';
+			const data = { tags: ['a'], title: 'Note', date: '2024-01-15' };
+
+			runAction('REORDER KEYS title, date, *', data);
+
+			expect(updateYaml(yaml, data)).toBe('title: Note # main\ndate: 2024-01-15\ntags: [a]\n');
+		});
+
+		it('should list every removed key in the preview', async () => {
+			const app: any = {
+				vault: { read: async () => '---\ntitle: Note\nkanban-plugin: basic\nkanban-lanes: 3\ncssclass: wide\n---\n' },
+			};
+			const rule: any = {
+				id: 'rule-1',
+				name: 'Clean up',
+				condition: '',
+				action: 'DELETE KEYS "kanban-*"; KEEP ONLY title',
+				scope: { type: 'vault' },
+				options: { backup: false },
+				created: '2025-01-01T00:00:00.000Z',
+			};
+
+			const result = await executeRule(app, rule, { path: 'note.md' } as any);
+
+			expect(result.changes).toEqual(['DELETE kanban-plugin', 'DELETE kanban-lanes', 'DELETE cssclass']);
+			expect(result.yamlText?.after).toBe('title: Note\n');
+		});
+
+		it('should delete keys matching an unquoted glob', () => {
+			const data = { title: 'Note', keys: 1, 'kanban-plugin': 'basic' };
+			runAction('DELETE KEYS kanban-*', data);
+			expect(data).toEqual({ title: 'Note', keys: 1 });
+		});
+
+		it('should still rename a field called keys', () => {
+			const data = { keys: ['a'] };
+			runAction('RENAME keys TO tags', data);
+			expect(data).toEqual({ tags: ['a'] });
+
+			runAction('DELETE tags', data);
+			runAction('SET keys 1', data);
+			runAction('DELETE keys', data);
+			expect(data).toEqual({});
+		});
+	});
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for string actions (TRANSFORM, REGEX_REPLACE, SPLIT, JOIN)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { executeTransform, executeRegexReplace, executeSplit, executeJoin } from '../../../src/actions/stringActions';
+import { runAction } from '../../helpers/runAction';
+
+describe('String Actions', () => {
+	describe('executeTransform', () => {
+		it('should change case', () => {
+			const data = { a: 'My Note', b: 'my note', c: 'the QUICK fox' };
+
+			const result = executeTransform(data, 'a', 'LOWERCASE');
+			executeTransform(data, 'b', 'UPPERCASE');
+			executeTransform(data, 'c', 'TITLECASE');
+
+			expect(data).toEqual({ a: 'my note', b: 'MY NOTE', c: 'The Quick Fox' });
+			expect(result.changes[0]).toBe('TRANSFORM a LOWERCASE: "My Note" → "my note"');
+		});
+
+		it('should trim and slugify', () => {
+			const data = { a: '  padded  ', b: 'Café Crème: Notes!' };
+
+			executeTransform(data, 'a', 'TRIM');
+			executeTransform(data, 'b', 'SLUGIFY');
+
+			expect(data).toEqual({ a: 'padded', b: 'cafe-creme-notes' });
+		});
+
+		it('should transform the strings of an array and keep other items', () => {
+			const data = { tags: ['Work', 'urgent', 3] };
+			const result = executeTransform(data, 'tags', 'LOWERCASE');
+
+			expect(data.tags).toEqual(['work', 'urgent', 3]);
+			expect(result.changes[0]).toBe('TRANSFORM tags LOWERCASE: 1 of 3 items changed');
+		});
+
+		it('should not modify values that are already transformed', () => {
+			const data = { title: 'done' };
+			expect(executeTransform(data, 'title', 'LOWERCASE')).toMatchObject({ success: true, modified: false });
+		});
+
+		it('should skip missing fields and warn about other types', () => {
+			expect(executeTransform({}, 'title', 'LOWERCASE')).toEqual({ success: true, modified: false, changes: [] });
+
+			const result = executeTransform({ count: 5 }, 'count', 'UPPERCASE');
+			expect(result).toMatchObject({ success: true, modified: false });
+			expect(result.warning).toContain("Field 'count' is not a string");
+		});
+	});
+
+	describe('executeRegexReplace', () => {
+		it('should replace the first match without the g flag', () => {
+			const data = { summary: 'foo and foo' };
+			executeRegexReplace(data, 'summary', '/foo/', 'bar');
+
+			expect(data.summary).toBe('bar and foo');
+		});
+
+		it('should replace all matches with the g flag and support groups', () => {
+			const data = { summary: 'Foo and foo', date: '15.01.2024' };
+
+			executeRegexReplace(data, 'summary', '/foo/gi', 'bar');
+			executeRegexReplace(data, 'date', '/(\\d+)\\.(\\d+)\\.(\\d+)/', '$3-$2-$1');
+
+			expect(data).toEqual({ summary: 'bar and bar', date: '2024-01-15' });
+		});
+
+		it('should not modify when nothing matches', () => {
+			expect(executeRegexReplace({ s: 'abc' }, 's', '/x/', 'y').modified).toBe(false);
+		});
+
+		it('should reject dangerous patterns', () => {
+			const data = { s: 'aaaa' };
+			const result = executeRegexReplace(data, 's', '/a+*/', '');
+
+			expect(result.success).toBe(false);
+			expect(result.error).toMatch(/unsafe regex pattern/);
+			expect(data.s).toBe('aaaa');
+		});
+	});
+
+	describe('executeSplit', () => {
+		it('should split, trim and drop empty parts', () => {
+			const data = { keywords: 'yaml, obsidian ,, notes' };
+			const result = executeSplit(data, 'keywords', ',');
+
+			expect(data.keywords).toEqual(['yaml', 'obsidian', 'notes']);
+			expect(result.changes[0]).toBe('SPLIT keywords: "yaml, obsidian ,, notes" → [3 items]');
+		});
+
+		it('should split by a pattern', () => {
+			const data = { keywords: 'a;b, c' };
+			executeSplit(data, 'keywords', '/[;,]/', true);
+
+			expect(data.keywords).toEqual(['a', 'b', 'c']);
+		});
+
+		it('should leave arrays alone and warn about other types', () => {
+			expect(executeSplit({ k: ['a'] }, 'k', ',').modified).toBe(false);
+			expect(executeSplit({ k: 5 }, 'k', ',').warning).toContain("Field 'k' is not a string");
+		});
+	});
+
+	describe('executeJoin', () => {
+		it('should join an array into a string', () => {
+			const data = { tags: ['a', 'b', 1] };
+			const result = executeJoin(data, 'tags', ', ');
+
+			expect(data.tags).toBe('a, b, 1');
+			expect(result.changes[0]).toBe('JOIN tags: [3 items] → "a, b, 1"');
+		});
+
+		it('should leave strings alone and warn about other types', () => {
+			expect(executeJoin({ tags: 'a' }, 'tags', ',').modified).toBe(false);
+			expect(executeJoin({ tags: { a: 1 } }, 'tags', ',').warning).toContain("Field 'tags' is not an array");
+		});
+	});
+
+	describe('through executeAction', () => {
+		it('should run parsed string actions', () => {
+			const data = { title: ' Hello ', keywords: 'a,b', tags: ['x', 'y'], summary: 'old text' };
+
+			runAction('TRANSFORM title TRIM', data);
+			runAction('SPLIT keywords BY ","', data);
+			runAction('JOIN tags WITH " | "', data);
+			runAction('REGEX_REPLACE summary /old/ "new"', data);
+
+			expect(data).toEqual({ title: 'Hello', keywords: ['a', 'b'], tags: 'x | y', summary: 'new text' });
+		});
+	});
+});
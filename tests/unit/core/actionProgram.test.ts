@@ -0,0 +1,200 @@
+/**
+ * Tests for multi-action rules (action programs executed as a pipeline)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { executeRule } from '../../../src/core/ruleEngine';
+import { processBatch } from '../../../src/core/batchProcessor';
+import { splitActionProgram, parseActionProgram } from '../../../src/parser/actionParser';
+import { Rule } from '../../../src/types';
+
+const NOTE = '---\ntitle: Note\ntags: ["b", "old", "a", "b"]\nstatus: draft\n---\nBody\n';
+
+function createMockApp(content: string = NOTE): any {
+	const files = new Map<string, string>([['note.md', content]]);
+	const writes: string[] = [];
+	return {
+		files,
+		writes,
+		vault: {
+			read: async (file: any) => files.get(file.path),
+			modify: async (file: any, newContent: string) => {
+				writes.push(file.path);
+				files.set(file.path, newContent);
+			},
+			getName: () => 'TestVault',
+			adapter: { exists: async () => false, write: async () => {}, mkdir: async () => {} },
+		},
+	};
+}
+
+const file: any = { path: 'note.md', basename: 'note', name: 'note.md', extension: 'md' };
+
+function createRule(action: string, onError?: 'stop' | 'continue'): Rule {
+	return {
+		id: 'rule-1',
+		name: 'Cleanup',
+		condition: '',
+		action,
+		scope: { type: 'vault' },
+		options: { backup: false, onError },
+		created: '2025-01-01T00:00:00.000Z',
+	};
+}
+
+describe('Action programs', () => {
+	describe('splitActionProgram', () => {
+		it('should split on newlines and semicolons', () => {
+			expect(splitActionProgram('SET a 1\nSET b 2; SET c 3')).toEqual(['SET a 1', 'SET b 2', 'SET c 3']);
+		});
+
+		it('should ignore separators inside strings, JSON literals and templates', () => {
+			expect(splitActionProgram('SET note "a; b"; FOR meta MERGE {"x": "1;2"}; SET d "{{date:YYYY;MM}}"')).toEqual([
+				'SET note "a; b"',
+				'FOR meta MERGE {"x": "1;2"}',
+				'SET d "{{date:YYYY;MM}}"',
+			]);
+		});
+
+		it('should ignore separators inside regex literals and backtick keys', () => {
+			expect(splitActionProgram('REGEX_REPLACE summary /a;b/g "x"; SET `a;b` 1')).toEqual([
+				'REGEX_REPLACE summary /a;b/g "x"',
+				'SET `a;b` 1',
+			]);
+		});
+
+		it('should not let brackets or quotes inside a regex swallow the next separator', () => {
+			expect(splitActionProgram("REGEX_REPLACE title /[a-z/ \"x\"\nREGEX_REPLACE title /it's/ \"x\"\nSET a 1")).toEqual([
+				'REGEX_REPLACE title /[a-z/ "x"',
+				"REGEX_REPLACE title /it's/ \"x\"",
+				'SET a 1',
+			]);
+		});
+
+		it('should not treat division or folder paths as regex literals', () => {
+			expect(splitActionProgram('SET pages {{fm:words}} / 100; SET folder Projects/Web; SET b 2')).toEqual([
+				'SET pages {{fm:words}} / 100',
+				'SET folder Projects/Web',
+				'SET b 2',
+			]);
+		});
+
+		it('should drop blank steps', () => {
+			expect(splitActionProgram('\n  SET a 1 ;;\n\n')).toEqual(['SET a 1']);
+		});
+	});
+
+	describe('parseActionProgram', () => {
+		it('should parse every step in order', () => {
+			const asts: any[] = parseActionProgram('SET a 1\nDELETE b');
+
+			expect(asts.map(ast => ast.operation.type)).toEqual(['SET', 'DELETE']);
+		});
+
+		it('should report which step is invalid', () => {
+			expect(() => parseActionProgram('SET a 1\nBOGUS b')).toThrow(/Step 2 \(BOGUS b\)/);
+		});
+
+		it('should reject an empty program', () => {
+			expect(() => parseActionProgram(' ; \n')).toThrow('empty');
+		});
+	});
+
+	describe('executeRule', () => {
+		it('should run all actions against the same frontmatter', async () => {
+			const app = createMockApp();
+			const rule = createRule([
+				'FOR tags REPLACE "old" WITH "new"',
+				'FOR tags DEDUPLICATE',
+				'FOR tags SORT',
+				'SET status "published"',
+			].join('\n'));
+
+			const result = await executeRule(app, rule, file);
+
+			expect(result.status).toBe('success');
+			expect(result.modified).toBe(true);
+			expect(result.newData.tags).toEqual(['a', 'b', 'new']);
+			expect(result.newData.status).toBe('published');
+			expect(result.steps?.map(step => step.status)).toEqual(['success', 'success', 'success', 'success']);
+			expect(result.changes).toEqual(([] as string[]).concat(...result.steps!.map(step => step.changes)));
+		});
+
+		it('should let later actions see changes made by earlier ones', async () => {
+			const app = createMockApp();
+
+			const result = await executeRule(app, createRule('SET status "review"; SET previous "{{fm:status}}"'), file);
+
+			expect(result.newData.previous).toBe('review');
+		});
+
+		it('should label step warnings and still apply the changes', async () => {
+			const app = createMockApp();
+
+			const result = await executeRule(app, createRule('FOR tags DEDUPLICATE; FOR tags DEDUPLICATE'), file);
+
+			expect(result.status).toBe('warning');
+			expect(result.modified).toBe(true);
+			expect(result.warning).toBe('Step 2 (FOR tags DEDUPLICATE): No duplicates found');
+			expect(result.steps?.map(step => step.status)).toEqual(['success', 'warning']);
+		});
+
+		it('should stop at the first failing action by default', async () => {
+			const app = createMockApp();
+
+			const result = await executeRule(app, createRule('SET status "done"; FOR title APPEND "x"; SET owner "me"'), file);
+
+			expect(result.status).toBe('error');
+			expect(result.modified).toBe(false);
+			expect(result.error).toMatch(/^Step 2 \(FOR title APPEND "x"\): /);
+			expect(result.steps?.map(step => step.status)).toEqual(['success', 'error', 'skipped']);
+			expect(result.newData.owner).toBeUndefined();
+		});
+
+		it('should run remaining actions and warn when onError is continue', async () => {
+			const app = createMockApp();
+
+			const result = await executeRule(
+				app,
+				createRule('SET status "done"; FOR title APPEND "x"; SET owner "me"', 'continue'),
+				file
+			);
+
+			expect(result.status).toBe('warning');
+			expect(result.modified).toBe(true);
+			expect(result.warning).toMatch(/^Step 2 \(FOR title APPEND "x"\): /);
+			expect(result.steps?.map(step => step.status)).toEqual(['success', 'error', 'success']);
+			expect(result.newData.owner).toBe('me');
+		});
+
+		it('should be an error when every action fails even with continue', async () => {
+			const app = createMockApp();
+
+			const result = await executeRule(app, createRule('FOR title APPEND "x"; BOGUS b', 'continue'), file);
+
+			expect(result.status).toBe('error');
+			expect(result.modified).toBe(false);
+			expect(result.steps?.map(step => step.status)).toEqual(['error', 'error']);
+		});
+
+		it('should keep single-action errors unprefixed', async () => {
+			const app = createMockApp();
+
+			const result = await executeRule(app, createRule('FOR title APPEND "x"'), file);
+
+			expect(result.status).toBe('error');
+			expect(result.error).not.toMatch(/^Step/);
+		});
+	});
+
+	describe('processBatch', () => {
+		it('should write each file once for a multi-action rule', async () => {
+			const app = createMockApp();
+
+			await processBatch(app, [file], createRule('SET a 1\nSET b 2\nSET c 3'), undefined, { journal: false });
+
+			expect(app.writes).toEqual(['note.md']);
+			expect(app.files.get('note.md')).toContain('c: 3');
+		});
+	});
+});
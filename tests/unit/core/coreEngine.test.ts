@@ -8,9 +8,11 @@ import { scanFiles } from '../../../src/core/fileScanner';
 import { executeRule } from '../../../src/core/ruleEngine';
 import { processBatch } from '../../../src/core/batchProcessor';
 import { Rule } from '../../../src/types';
+import { MetadataCache } from '../../mocks/obsidian';
 
-// Mock obsidian module for getCurrentFile tests
-vi.mock('obsidian', () => ({
+// Mock obsidian module for getCurrentFile tests (keeping the mock metadataCache)
+vi.mock('obsidian', async () => ({
+	MetadataCache: (await vi.importActual<typeof import('../../mocks/obsidian')>('../../mocks/obsidian')).MetadataCache,
 	MarkdownView: class MarkdownView {},
 	normalizePath: (path: string) => path.replace(/\\/g, '/').replace(/^\/+/, ''),
 }));
@@ -160,6 +162,177 @@ describe('Core Engine', () => {
 			expect(result.modified).toBe(false);
 		});
 
+		it('should evaluate file.* fields in conditions', async () => {
+			const vault = new MockVault();
+			const app = createMockApp(vault);
+			const day = 24 * 60 * 60 * 1000;
+			const file = {
+				...createMockFile('Projects/Archive/old.md'),
+				extension: 'md',
+				stat: { ctime: Date.now() - 90 * day, mtime: Date.now() - 30 * day, size: 20480 },
+			};
+			const rule = (condition: string): Rule => ({
+				id: 'test',
+				name: 'Test',
+				condition,
+				action: 'SET archived true',
+				scope: { type: 'vault' },
+				options: { backup: false },
+				created: '2025-11-20',
+			});
+
+			const archived = await executeRule(app, rule('file.folder ~ /(^|\\/)Archive$/ AND file.size > 10240 AND file.mtime < today - 7d'), file);
+			expect(archived.status).toBe('success');
+
+			const recent = await executeRule(app, rule('file.mtime >= today - 7d'), file);
+			expect(recent.status).toBe('skipped');
+
+			const named = await executeRule(app, rule('file.name = "old" AND file.ext IN ["md", "canvas"] AND file.path = "Projects/Archive/old.md"'), file);
+			expect(named.status).toBe('success');
+		});
+
+		it('should evaluate body.* in conditions', async () => {
+			const vault = new MockVault();
+			vault.read = async () => '---\nstatus: active\n---\n# Tasks\n- [x] draft\n- [x] review\n';
+			const app = createMockApp(vault);
+			const file = createMockFile('todo.md');
+
+			const rule: Rule = {
+				id: 'test',
+				name: 'Test',
+				condition: 'status != "done" AND body.tasks.open = 0 AND body.headings HAS "Tasks"',
+				action: 'SET status "done"',
+				scope: { type: 'vault' },
+				options: { backup: false },
+				created: '2025-11-20',
+			};
+
+			const result = await executeRule(app, rule, file);
+
+			expect(result.status).toBe('success');
+			expect(result.newData.status).toBe('done');
+		});
+
+		it('should evaluate links and backlinks from the metadataCache', async () => {
+			const vault = new MockVault();
+			const app = createMockApp(vault);
+			const metadataCache = new MetadataCache();
+			metadataCache.setFileCache('Meetings/standup.md', {
+				links: [{ link: 'Project X#Goals', original: '[[Project X#Goals|goals]]' }],
+				tags: [{ tag: '#meeting' }],
+			});
+			metadataCache.resolvedLinks = {
+				'Meetings/standup.md': { 'Projects/Project X.md': 1 },
+				'Projects/Project X.md': {},
+			};
+			app.metadataCache = metadataCache;
+			const rule = (condition: string, action: string): Rule => ({
+				id: 'test',
+				name: 'Test',
+				condition,
+				action,
+				scope: { type: 'vault' },
+				options: { backup: false },
+				created: '2025-11-20',
+			});
+
+			const orphan = rule('backlinks.count = 0', 'ADD tags "orphan"');
+			expect((await executeRule(app, orphan, createMockFile('Meetings/standup.md'))).status).toBe('success');
+			expect((await executeRule(app, orphan, createMockFile('Projects/Project X.md'))).status).toBe('skipped');
+
+			const project = rule('inlineTags HAS "#meeting" AND links HAS "[[Project X]]"', 'SET project "{{links[0]}}"');
+			const result = await executeRule(app, project, createMockFile('Meetings/standup.md'));
+			expect(result.newData.project).toBe('[[Project X]]');
+		});
+
+		it('should follow wikilink fields into linked notes', async () => {
+			const vault = new MockVault();
+			vault.read = async (file: any) => file.path === 'Tasks/broken.md'
+				? '---\nproject: "[[Old Project]]"\n---\n'
+				: '---\nproject: "[[Website Redesign]]"\n---\n';
+			const app = createMockApp(vault);
+			app.metadataCache = new MetadataCache();
+			app.metadataCache.setFileCache('Projects/Website Redesign.md', { frontmatter: { status: 'active', client: 'Acme' } });
+			const rule: Rule = {
+				id: 'test',
+				name: 'Test',
+				condition: 'project->status = "active"',
+				action: 'SET client "{{fm:project->client}}"',
+				scope: { type: 'vault' },
+				options: { backup: false },
+				created: '2025-11-20',
+			};
+
+			const result = await executeRule(app, rule, createMockFile('Tasks/task.md'));
+			expect(result.status).toBe('success');
+			expect(result.newData.client).toBe('Acme');
+
+			const broken = await executeRule(app, rule, createMockFile('Tasks/broken.md'));
+			expect(broken.status).toBe('skipped');
+			expect(broken.warning).toBe("Cannot follow 'project->status': [[Old Project]] does not resolve to a note");
+		});
+
+		it('should roll up values of backlinking notes', async () => {
+			const vault = new MockVault();
+			vault.read = async () => '---\ntitle: Website\n---\n';
+			const app = createMockApp(vault);
+			const metadataCache = new MetadataCache();
+			metadataCache.setFileCache('Projects/Website.md', {});
+			metadataCache.setFileCache('Tasks/design.md', { frontmatter: { estimate: 3, status: 'done' } });
+			metadataCache.setFileCache('Tasks/build.md', { frontmatter: { estimate: 5, status: 'open' } });
+			metadataCache.setFileCache('Notes/kickoff.md', {});
+			metadataCache.resolvedLinks = {
+				'Tasks/design.md': { 'Projects/Website.md': 1 },
+				'Tasks/build.md': { 'Projects/Website.md': 2 },
+				'Notes/kickoff.md': { 'Projects/Website.md': 1 },
+			};
+			app.metadataCache = metadataCache;
+			const rule: Rule = {
+				id: 'test',
+				name: 'Test',
+				condition: 'backlinks[?status != "done"].count > 0',
+				action: 'SET total_estimate = SUM(backlinks.estimate)\nSET open_tasks = COUNT(backlinks[?status != "done"])\nSET open = LIST(backlinks[?status="open"])',
+				scope: { type: 'vault' },
+				options: { backup: false },
+				created: '2025-11-20',
+			};
+
+			const result = await executeRule(app, rule, createMockFile('Projects/Website.md'));
+
+			expect(result.status).toBe('success');
+			expect(result.newData).toMatchObject({ total_estimate: 8, open_tasks: 2, open: ['[[build]]'] });
+		});
+
+		it('should count backlinking notes that share a name separately', async () => {
+			const vault = new MockVault();
+			vault.read = async () => '---\ntitle: Website\n---\n';
+			const app = createMockApp(vault);
+			const metadataCache = new MetadataCache();
+			metadataCache.setFileCache('Projects/Website.md', {});
+			metadataCache.setFileCache('A/Task.md', { frontmatter: { estimate: 3 } });
+			metadataCache.setFileCache('B/Task.md', { frontmatter: { estimate: 5 } });
+			metadataCache.setFileCache('Boards/Plan.canvas', {});
+			metadataCache.resolvedLinks = {
+				'A/Task.md': { 'Projects/Website.md': 1 },
+				'B/Task.md': { 'Projects/Website.md': 1 },
+				'Boards/Plan.canvas': { 'Projects/Website.md': 1 },
+			};
+			app.metadataCache = metadataCache;
+			const rule: Rule = {
+				id: 'test',
+				name: 'Test',
+				condition: '',
+				action: 'SET total = SUM(backlinks.estimate)\nSET linked = backlinks.count\nSET names = LIST(backlinks)',
+				scope: { type: 'vault' },
+				options: { backup: false },
+				created: '2025-11-20',
+			};
+
+			const result = await executeRule(app, rule, createMockFile('Projects/Website.md'));
+
+			expect(result.newData).toMatchObject({ total: 8, linked: 3, names: ['[[Task]]', '[[Task]]', '[[Plan]]'] });
+		});
+
 		it('should handle errors gracefully', async () => {
 			const vault = new MockVault();
 			const app = createMockApp(vault);
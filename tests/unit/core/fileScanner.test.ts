@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { scanFiles } from '../../../src/core/fileScanner';
+import { processBatch } from '../../../src/core/batchProcessor';
 import { RuleScope } from '../../../src/types';
 import { TFile, Vault } from 'obsidian';
 
@@ -264,6 +265,60 @@ describe('File Scanner - Folder Matching', () => {
 		// The timeout branch is covered by integration tests with real file I/O.
 	});
 
+	describe('Current file scope', () => {
+		it('should match exactly the current file', async () => {
+			const vault = createMockVault(['a.md', 'folder/b.md', 'folder/c.md']);
+			const currentFile = vault.getMarkdownFiles()[1];
+
+			const result = await scanFiles(vault, { type: 'current' }, { currentFile });
+
+			expect(result.matched).toEqual([currentFile]);
+			expect(result.scanned).toBe(1);
+			expect(result.timedOut).toBe(false);
+		});
+
+		it('should fail clearly when there is no current file', async () => {
+			const vault = createMockVault(['a.md', 'b.md']);
+
+			await expect(scanFiles(vault, { type: 'current' }, { currentFile: null })).rejects.toThrow(
+				'No active note'
+			);
+			await expect(scanFiles(vault, { type: 'current' })).rejects.toThrow('No active note');
+		});
+
+		it('should never touch other files when a current-scoped rule is applied', async () => {
+			const contents = new Map<string, string>([
+				['a.md', '---\nstatus: draft\n---\n'],
+				['b.md', '---\nstatus: draft\n---\n'],
+				['c.md', '---\nstatus: draft\n---\n'],
+			]);
+			const vault = createMockVault(Array.from(contents.keys()));
+			const app: any = {
+				vault: {
+					...vault,
+					getMarkdownFiles: vault.getMarkdownFiles,
+					read: async (file: TFile) => contents.get(file.path),
+					modify: async (file: TFile, content: string) => {
+						contents.set(file.path, content);
+					},
+					adapter: { exists: async () => false, write: async () => {} },
+				},
+			};
+			const rule: any = {
+				id: 'rule-1', name: 'Publish current', condition: '', action: 'SET status "published"',
+				scope: { type: 'current' }, options: { backup: false }, created: '',
+			};
+			const currentFile = vault.getMarkdownFiles().find(f => f.path === 'b.md')!;
+
+			const scan = await scanFiles(app.vault, rule.scope, { currentFile });
+			await processBatch(app, scan.matched, rule, undefined, { journal: false });
+
+			expect(contents.get('b.md')).toContain('status: published');
+			expect(contents.get('a.md')).toBe('---\nstatus: draft\n---\n');
+			expect(contents.get('c.md')).toBe('---\nstatus: draft\n---\n');
+		});
+	});
+
 	// Note: getCurrentFile tests removed due to difficulty mocking dynamic require('obsidian')
 	// The function is simple enough (single line with optional chaining) that manual inspection
 	// is sufficient. Integration tests cover the actual usage.
@@ -3,8 +3,17 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { createLogger, generateLogPath } from '../../../src/core/logger';
+import {
+	createLogger,
+	generateLogPath,
+	listLogs,
+	getLatestLogPath,
+	pruneLogs,
+	getLogDir,
+} from '../../../src/core/logger';
+import { processBatch } from '../../../src/core/batchProcessor';
 import { BatchResult, FileResult } from '../../../src/types';
+import { DateTime } from 'luxon';
 
 // Mock Vault
 class MockVault {
@@ -15,13 +24,21 @@ class MockVault {
 	}
 
 	adapter = {
-		exists: async (path: string) => this.files.has(path),
+		exists: async (path: string) =>
+			this.files.has(path) || Array.from(this.files.keys()).some(p => p.startsWith(path + '/')),
 		write: async (path: string, content: string) => {
 			this.files.set(path, content);
 		},
 		mkdir: async (path: string) => {
 			// Mock directory creation
 		},
+		list: async (path: string) => ({
+			files: Array.from(this.files.keys()).filter(p => p.startsWith(path + '/')),
+			folders: [],
+		}),
+		remove: async (path: string) => {
+			this.files.delete(path);
+		},
 	};
 
 	getFile(path: string): string | undefined {
@@ -46,16 +63,18 @@ describe('Logger', () => {
 
 	describe('generateLogPath', () => {
 		it('should generate path with timestamp', () => {
-			const path = generateLogPath();
-			expect(path).toMatch(/^\.obsidian\/plugins\/yaml-toolkit\/logs\/\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}\.log$/);
+			const path = generateLogPath(mockVault as any);
+			expect(path).toMatch(/^\.obsidian\/plugins\/yaml-toolkit\/logs\/\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}-\d{3}\.log$/);
 		});
 
 		it('should generate unique paths', () => {
-			const path1 = generateLogPath();
-			const path2 = generateLogPath();
-			// Paths might be same if called in same second, but structure should be correct
-			expect(path1).toContain('.obsidian/plugins/yaml-toolkit/logs/');
-			expect(path1).toMatch(/\.log$/);
+			const paths = [1, 2, 3].map(() => generateLogPath(mockVault as any));
+			expect(new Set(paths).size).toBe(3);
+			expect([...paths].sort()).toEqual(paths);
+		});
+
+		it('should use the vault config dir', () => {
+			expect(generateLogPath({ configDir: '.config' } as any)).toContain('.config/plugins/yaml-toolkit/logs/');
 		});
 	});
 
@@ -390,4 +409,143 @@ describe('Logger', () => {
 			expect(logContent).toBeDefined();
 		});
 	});
+
+	describe('Log retention', () => {
+		const LOG_DIR = getLogDir({ configDir: '.obsidian' } as any);
+
+		function logPathDaysAgo(days: number, format = 'yyyy-MM-dd_HH-mm-ss-SSS'): string {
+			return `${LOG_DIR}/${DateTime.now().minus({ days }).toFormat(format)}.log`;
+		}
+
+		it('should list logs newest first', async () => {
+			await mockVault.create(`${LOG_DIR}/2025-01-01_10-00-00.log`, 'a');
+			await mockVault.create(`${LOG_DIR}/2025-03-01_10-00-00.log`, 'b');
+			await mockVault.create(`${LOG_DIR}/2025-02-01_10-00-00.log`, 'c');
+			await mockVault.create(`${LOG_DIR}/notes.txt`, 'not a log');
+
+			expect(await listLogs(mockVault as any)).toEqual([
+				`${LOG_DIR}/2025-03-01_10-00-00.log`,
+				`${LOG_DIR}/2025-02-01_10-00-00.log`,
+				`${LOG_DIR}/2025-01-01_10-00-00.log`,
+			]);
+			expect(await getLatestLogPath(mockVault as any)).toBe(`${LOG_DIR}/2025-03-01_10-00-00.log`);
+		});
+
+		it('should return no logs when the folder does not exist', async () => {
+			expect(await listLogs(mockVault as any)).toEqual([]);
+			expect(await getLatestLogPath(mockVault as any)).toBeNull();
+		});
+
+		it('should keep only the newest logs when over the count limit', async () => {
+			const paths = [1, 2, 3, 4].map(days => logPathDaysAgo(days));
+			for (const path of paths) {
+				await mockVault.create(path, 'log');
+			}
+
+			const deleted = await pruneLogs(mockVault as any, { maxCount: 2, maxAgeDays: 0 });
+
+			expect(deleted.sort()).toEqual([paths[2], paths[3]].sort());
+			expect(await listLogs(mockVault as any)).toEqual([paths[0], paths[1]]);
+		});
+
+		it('should delete logs older than the age limit', async () => {
+			const recent = logPathDaysAgo(1);
+			const old = logPathDaysAgo(40);
+			await mockVault.create(recent, 'log');
+			await mockVault.create(old, 'log');
+
+			const deleted = await pruneLogs(mockVault as any, { maxCount: 0, maxAgeDays: 30 });
+
+			expect(deleted).toEqual([old]);
+			expect(await listLogs(mockVault as any)).toEqual([recent]);
+		});
+
+		it('should read the age of logs named without milliseconds', async () => {
+			const old = logPathDaysAgo(40, 'yyyy-MM-dd_HH-mm-ss');
+			await mockVault.create(old, 'log');
+
+			expect(await pruneLogs(mockVault as any, { maxCount: 0, maxAgeDays: 30 })).toEqual([old]);
+		});
+
+		it('should keep everything when both limits are 0', async () => {
+			await mockVault.create(logPathDaysAgo(400), 'log');
+
+			const deleted = await pruneLogs(mockVault as any, { maxCount: 0, maxAgeDays: 0 });
+
+			expect(deleted).toEqual([]);
+		});
+	});
+
+	describe('processBatch integration', () => {
+		function createBatchApp(files: Record<string, string>): any {
+			const contents = new Map(Object.entries(files));
+			return {
+				vault: {
+					read: async (file: any) => contents.get(file.path),
+					modify: async (file: any, content: string) => {
+						contents.set(file.path, content);
+					},
+					create: async (path: string, content: string) => {
+						contents.set(path, content);
+					},
+					adapter: {
+						exists: async (path: string) => contents.has(path),
+						write: async (path: string, content: string) => {
+							contents.set(path, content);
+						},
+						mkdir: async () => {},
+						list: async () => ({ files: [], folders: [] }),
+						remove: async () => {},
+					},
+				},
+			};
+		}
+
+		it('should log every file result and the summary for applied runs', async () => {
+			const app = createBatchApp({
+				'draft.md': '---\nstatus: draft\n---\n',
+				'done.md': '---\nstatus: done\n---\n',
+				'broken.md': '---\nstatus: [unclosed\n---\n',
+			});
+			const rule: any = {
+				id: 'rule-1', name: 'Publish', condition: 'status = "draft"', action: 'SET status "published"',
+				scope: { type: 'vault' }, options: { backup: true }, created: '',
+			};
+			const logger = createLogger(mockVault as any, 'batch.log');
+			logger.logStart(rule);
+
+			await processBatch(
+				app,
+				[createMockFile('draft.md'), createMockFile('done.md'), createMockFile('broken.md')],
+				rule,
+				undefined,
+				{ logger, journal: false }
+			);
+			await logger.close();
+
+			const logContent = mockVault.getFile('batch.log')!;
+			expect(logContent).toContain('✅ draft.md');
+			expect(logContent).toContain('SET status: "draft" → "published"');
+			expect(logContent).toContain('Backup: draft.md.bak');
+			expect(logContent).not.toContain('done.md');
+			expect(logContent).toContain('❌ broken.md');
+			expect(logContent).toContain('Success: 1');
+			expect(logContent).toContain('Skipped: 1');
+			expect(logContent).toContain('Errors: 1');
+		});
+
+		it('should not log dry runs', async () => {
+			const app = createBatchApp({ 'draft.md': '---\nstatus: draft\n---\n' });
+			const rule: any = {
+				id: 'rule-1', name: 'Publish', condition: '', action: 'SET status "published"',
+				scope: { type: 'vault' }, options: { backup: false }, created: '',
+			};
+			const logger = createLogger(mockVault as any, 'dry.log');
+
+			await processBatch(app, [createMockFile('draft.md')], rule, undefined, { logger, dryRun: true });
+			await logger.close();
+
+			expect(mockVault.getFile('dry.log')).toBe('');
+		});
+	});
 });
@@ -0,0 +1,83 @@
+/**
+ * Tests for link paths (project->status)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createLinkResolver, createLinkCache } from '../../../src/core/noteLinks';
+import { MetadataCache } from '../../mocks/obsidian';
+
+function createApp() {
+	const metadataCache = new MetadataCache();
+	metadataCache.setFileCache('Tasks/task.md', { frontmatter: { project: '[[Website Redesign]]' } });
+	metadataCache.setFileCache('Projects/Website Redesign.md', {
+		frontmatter: { status: 'active', client: '[[Acme|Acme Corp]]', parent: '[[Roadmap]]' },
+	});
+	metadataCache.setFileCache('Clients/Acme.md', { frontmatter: { owner: 'Dana' } });
+	metadataCache.setFileCache('Projects/Roadmap.md', { frontmatter: { parent: '[[Website Redesign]]' } });
+	return { metadataCache } as any;
+}
+
+const task = { path: 'Tasks/task.md' } as any;
+
+describe('Note links', () => {
+	describe('createLinkResolver', () => {
+		it('should read fields of linked notes, hop by hop', () => {
+			const resolver = createLinkResolver(createApp(), task);
+
+			expect(resolver.follow('[[Website Redesign]]', ['status'], 'project->status')).toBe('active');
+			expect(resolver.follow('[[Website Redesign#Goals]]', ['client', 'owner'], 'project->client->owner')).toBe('Dana');
+			expect(resolver.warnings).toEqual([]);
+		});
+
+		it('should follow each link of a list', () => {
+			const resolver = createLinkResolver(createApp(), task);
+
+			expect(resolver.follow(['[[Acme]]', '[[Roadmap]]'], ['owner'], 'related->owner')).toEqual(['Dana']);
+		});
+
+		it('should warn about unresolved links and non-link values', () => {
+			const resolver = createLinkResolver(createApp(), task);
+
+			expect(resolver.follow('[[Missing]]', ['status'], 'project->status')).toBeUndefined();
+			expect(resolver.follow('Website Redesign', ['status'], 'project->status')).toBeUndefined();
+			expect(resolver.follow(undefined, ['status'], 'project->status')).toBeUndefined();
+			expect(resolver.warnings).toEqual([
+				"Cannot follow 'project->status': [[Missing]] does not resolve to a note",
+				`Cannot follow 'project->status': "Website Redesign" is not a wikilink`,
+			]);
+		});
+
+		it('should warn instead of failing without a metadataCache', () => {
+			const resolver = createLinkResolver({} as any, task);
+
+			expect(resolver.follow('[[Website Redesign]]', ['status'], 'project->status')).toBeUndefined();
+			expect(resolver.frontmatter('[[Website Redesign]]', 'links.status')).toBeUndefined();
+			expect(resolver.warnings[0]).toContain('does not resolve to a note');
+		});
+
+		it('should read notes by path', () => {
+			const resolver = createLinkResolver(createApp(), task);
+
+			expect(resolver.frontmatterAt('Clients/Acme.md')).toEqual({ owner: 'Dana' });
+			expect(resolver.frontmatterAt('Boards/Plan.canvas')).toEqual({});
+		});
+
+		it('should stop at link cycles', () => {
+			const resolver = createLinkResolver(createApp(), task);
+
+			expect(resolver.follow('[[Website Redesign]]', ['parent', 'parent', 'status'], 'project->parent->parent->status')).toBeUndefined();
+			expect(resolver.warnings[0]).toContain('link cycle Tasks/task.md → Projects/Website Redesign.md → Projects/Roadmap.md → Projects/Website Redesign.md');
+		});
+
+		it('should share linked frontmatter through the batch cache', () => {
+			const app = createApp();
+			const cache = createLinkCache();
+			createLinkResolver(app, task, cache).follow('[[Acme]]', ['owner'], 'client->owner');
+
+			app.metadataCache.setFileCache('Clients/Acme.md', { frontmatter: { owner: 'Sam' } });
+
+			expect(createLinkResolver(app, task, cache).follow('[[Acme]]', ['owner'], 'client->owner')).toBe('Dana');
+			expect(createLinkResolver(app, task).follow('[[Acme]]', ['owner'], 'client->owner')).toBe('Sam');
+		});
+	});
+});
@@ -0,0 +1,205 @@
+/**
+ * Tests for playbooks (several saved rules applied as a single run)
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { processPlaybook } from '../../../src/core/batchProcessor';
+import { listRuns, revertRun } from '../../../src/core/runJournal';
+import { clearOwnWrites, isOwnWrite, recordOwnWrite } from '../../../src/core/writeTracker';
+import { Playbook, Rule } from '../../../src/types';
+
+// Mock Vault backed by a single in-memory file map (notes, backups and journal files)
+class MockVault {
+	files = new Map<string, string>();
+	writes: string[] = [];
+
+	addFile(path: string, content: string): any {
+		this.files.set(path, content);
+		return this.getAbstractFileByPath(path);
+	}
+
+	getAbstractFileByPath(path: string): any {
+		if (!this.files.has(path)) return null;
+		const name = path.split('/').pop() || path;
+		return { path, name, basename: name.replace(/\.md$/, ''), extension: 'md' };
+	}
+
+	async read(file: any) {
+		return this.files.get(file.path) as string;
+	}
+
+	async modify(file: any, content: string) {
+		this.writes.push(file.path);
+		this.files.set(file.path, content);
+	}
+
+	async create(path: string, content: string) {
+		this.files.set(path, content);
+		return this.getAbstractFileByPath(path);
+	}
+
+	adapter = {
+		exists: async (path: string) =>
+			this.files.has(path) || Array.from(this.files.keys()).some(p => p.startsWith(path + '/')),
+		read: async (path: string) => this.files.get(path) as string,
+		write: async (path: string, content: string) => {
+			this.files.set(path, content);
+		},
+		mkdir: async (path: string) => {},
+		remove: async (path: string) => {
+			this.files.delete(path);
+		},
+		list: async (path: string) => ({
+			files: Array.from(this.files.keys()).filter(p => p.startsWith(path + '/')),
+			folders: [],
+		}),
+	};
+}
+
+function createRule(id: string, action: string, overrides: Partial<Rule> = {}): Rule {
+	return {
+		id,
+		name: `Rule ${id}`,
+		condition: '',
+		action,
+		scope: { type: 'vault' },
+		options: { backup: false },
+		created: '2025-01-01T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+const playbook: Playbook = {
+	id: 'playbook-1',
+	name: 'After import',
+	ruleIds: ['a', 'b'],
+	created: '2025-01-01T00:00:00.000Z',
+};
+
+describe('processPlaybook', () => {
+	let vault: MockVault;
+	let app: any;
+
+	beforeEach(() => {
+		vault = new MockVault();
+		app = { vault };
+	});
+
+	it('should let later rules see the output of earlier ones and write each file once', async () => {
+		const file = vault.addFile('note.md', '---\nstatus: draft\n---\nBody\n');
+		const steps = [
+			{ rule: createRule('a', 'SET status "review"'), files: [file] },
+			{ rule: createRule('b', 'SET reviewed true', { condition: 'status = "review"' }), files: [file] },
+		];
+
+		const result = await processPlaybook(app, playbook, steps);
+
+		expect(vault.writes).toEqual(['note.md']);
+		expect(vault.files.get('note.md')).toContain('status: review');
+		expect(vault.files.get('note.md')).toContain('reviewed: true');
+		expect(result.results).toHaveLength(1);
+		expect(result.results[0].changes).toEqual([
+			'Rule a: SET status: "draft" → "review"',
+			'Rule b: SET reviewed: true',
+		]);
+		expect(result.summary.success).toBe(1);
+	});
+
+	it('should preview the combined changes without writing', async () => {
+		const file = vault.addFile('note.md', '---\nstatus: draft\n---\n');
+		const steps = [
+			{ rule: createRule('a', 'SET status "review"'), files: [file] },
+			{ rule: createRule('b', 'SET reviewed true', { condition: 'status = "review"' }), files: [file] },
+		];
+
+		const result = await processPlaybook(app, playbook, steps, { dryRun: true });
+
+		expect(vault.writes).toEqual([]);
+		expect(result.runId).toBeUndefined();
+		expect(result.results[0].modified).toBe(true);
+		expect(result.results[0].originalData).toEqual({ status: 'draft' });
+		expect(result.results[0].newData).toEqual({ status: 'review', reviewed: true });
+	});
+
+	it('should only record the final write of each file as the plugin\'s own', async () => {
+		const file = vault.addFile('note.md', '---\nstatus: draft\n---\n');
+		const steps = [
+			{ rule: createRule('a', 'SET status "review"'), files: [file] },
+			{ rule: createRule('b', 'SET reviewed true'), files: [file] },
+		];
+		clearOwnWrites();
+		recordOwnWrite('note.md', 'last real write');
+
+		await processPlaybook(app, playbook, steps, { dryRun: true });
+		expect(isOwnWrite('note.md', 'last real write')).toBe(true);
+
+		await processPlaybook(app, playbook, steps);
+		expect(isOwnWrite('note.md', vault.files.get('note.md')!)).toBe(true);
+	});
+
+	it('should aggregate files from every rule scope into one result', async () => {
+		const first = vault.addFile('a.md', '---\nx: 1\n---\n');
+		const second = vault.addFile('b.md', '---\nx: 1\n---\n');
+		const steps = [
+			{ rule: createRule('a', 'SET second 2'), files: [first] },
+			{ rule: createRule('b', 'SET third 3'), files: [first, second] },
+		];
+
+		const result = await processPlaybook(app, playbook, steps);
+
+		expect(result.results.map(r => r.file.path)).toEqual(['a.md', 'b.md']);
+		expect(result.summary.success).toBe(2);
+		expect(vault.files.get('a.md')).toContain('second: 2');
+		expect(vault.files.get('a.md')).toContain('third: 3');
+	});
+
+	it('should record a single undo point for the whole playbook', async () => {
+		const original = '---\nstatus: draft\n---\nBody\n';
+		const file = vault.addFile('note.md', original);
+		const steps = [
+			{ rule: createRule('a', 'SET status "review"'), files: [file] },
+			{ rule: createRule('b', 'SET reviewed true'), files: [file] },
+		];
+
+		const result = await processPlaybook(app, playbook, steps);
+
+		const runs = await listRuns(vault as any);
+		expect(runs).toHaveLength(1);
+		expect(runs[0].ruleId).toBe('playbook-1');
+		expect(runs[0].ruleName).toBe('After import');
+
+		await revertRun(app, result.runId!);
+		expect(vault.files.get('note.md')).toBe(original);
+	});
+
+	it('should create one backup of the original file', async () => {
+		const original = '---\nstatus: draft\n---\n';
+		const file = vault.addFile('note.md', original);
+		const steps = [
+			{ rule: createRule('a', 'SET status "review"', { options: { backup: true } }), files: [file] },
+			{ rule: createRule('b', 'SET reviewed true'), files: [file] },
+		];
+
+		const result = await processPlaybook(app, playbook, steps);
+
+		expect(result.summary.backupsCreated).toBe(1);
+		expect(vault.files.get('note.md.bak')).toBe(original);
+	});
+
+	it('should leave a file untouched when any rule fails on it', async () => {
+		const original = '---\ntitle: Note\n---\n';
+		const file = vault.addFile('note.md', original);
+		const steps = [
+			{ rule: createRule('a', 'SET status "review"'), files: [file] },
+			{ rule: createRule('b', 'FOR title APPEND "x"'), files: [file] },
+		];
+
+		const result = await processPlaybook(app, playbook, steps);
+
+		expect(vault.files.get('note.md')).toBe(original);
+		expect(result.results[0].status).toBe('error');
+		expect(result.results[0].modified).toBe(false);
+		expect(result.results[0].error).toMatch(/^Rule b: /);
+		expect(result.runId).toBeUndefined();
+	});
+});
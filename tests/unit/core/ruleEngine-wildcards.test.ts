@@ -0,0 +1,89 @@
+/**
+ * Tests for actions on wildcard, filter, recursive and quoted-key paths
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runAction } from '../../helpers/runAction';
+
+describe('ruleEngine - wildcard paths', () => {
+	it('should apply SET to every array item', () => {
+		const data = { tasks: [{ status: 'open' }, { status: 'done' }, { title: 'C' }] };
+		const result = runAction('SET tasks[*].status "todo"', data);
+
+		expect(result.success).toBe(true);
+		expect(result.modified).toBe(true);
+		expect(data.tasks).toEqual([{ status: 'todo' }, { status: 'todo' }, { title: 'C', status: 'todo' }]);
+		expect(result.changes).toHaveLength(3);
+	});
+
+	it('should apply actions to filtered items only', () => {
+		const data = {
+			authors: [
+				{ name: 'ann', role: 'editor' },
+				{ name: 'bob', role: 'writer' },
+			],
+		};
+		runAction('TRANSFORM authors[?role="editor"].name UPPERCASE', data);
+
+		expect(data.authors.map(author => author.name)).toEqual(['ANN', 'bob']);
+	});
+
+	it('should delete a key at any depth', () => {
+		const data = { deprecated: true, meta: { deprecated: 1, keep: 2 }, list: [{ deprecated: 'x' }] };
+		const result = runAction('DELETE **.deprecated', data);
+
+		expect(data).toEqual({ meta: { keep: 2 }, list: [{}] });
+		expect(result.changes).toHaveLength(3);
+	});
+
+	it('should delete matched array items without skipping any', () => {
+		const data = { tasks: [{ done: true }, { done: true }, { done: false }, { done: true }] };
+		runAction('DELETE tasks[?done=true]', data);
+
+		expect(data.tasks).toEqual([{ done: false }]);
+	});
+
+	it('should run collection operations on each matched array', () => {
+		const data = { projects: [{ tags: ['a'] }, { tags: [] }] };
+		runAction('FOR projects[*].tags APPEND "new"', data);
+
+		expect(data.projects).toEqual([{ tags: ['a', 'new'] }, { tags: ['new'] }]);
+	});
+
+	it('should do nothing when no location matches', () => {
+		const data = { tasks: [] };
+		expect(runAction('SET tasks[*].status "x"', data)).toEqual({ success: true, modified: false, changes: [] });
+	});
+
+	it('should collect warnings of all matches', () => {
+		const data = { tasks: [{ due: 'soon' }, { due: '2024-01-01' }, { due: 'later' }] };
+		const result = runAction('SHIFT tasks[*].due BY 1d', data);
+
+		expect(result.success).toBe(true);
+		expect(data.tasks[1].due).toBe('2024-01-02');
+		expect(result.warning).toBe(`Field 'tasks[0].due' is not a date: "soon"; Field 'tasks[2].due' is not a date: "later"`);
+	});
+
+	it('should write to quoted keys', () => {
+		const data: any = { 'aliases.old': ['A'], meta: {} };
+		runAction('SET meta["my key"] "x"', data);
+		runAction('FOR `aliases.old` APPEND "B"', data);
+		runAction('SET `[draft]` true', data);
+
+		expect(data).toEqual({ 'aliases.old': ['A', 'B'], meta: { 'my key': 'x' }, '[draft]': true });
+	});
+
+	it('should write to a quoted key at the start of a path', () => {
+		const data: any = { 'my.key': 'a', '[draft]': true, 'old.tags': ['A'] };
+		runAction('SET ["my.key"] "b"', data);
+		runAction('FOR ["old.tags"] APPEND "B"', data);
+		runAction('DELETE ["[draft]"]', data);
+
+		expect(data).toEqual({ 'my.key': 'b', 'old.tags': ['A', 'B'] });
+	});
+
+	it('should quote matched keys in change messages', () => {
+		const data = { 'old.section': { deprecated: true } };
+		expect(runAction('DELETE **.deprecated', data).changes[0]).toContain('["old.section"].deprecated');
+	});
+});
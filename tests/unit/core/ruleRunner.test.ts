@@ -0,0 +1,124 @@
+/**
+ * Tests for Rule Runner (running saved rules end to end)
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { runRule } from '../../../src/core/ruleRunner';
+import { getLogDir } from '../../../src/core/logger';
+import { Rule } from '../../../src/types';
+import { DEFAULT_SETTINGS } from '../../../src/settings';
+
+// Mock Vault backed by a single in-memory file map (notes, logs and journal files)
+class MockVault {
+	files = new Map<string, string>();
+
+	addFile(path: string, content: string): any {
+		this.files.set(path, content);
+		return this.getAbstractFileByPath(path);
+	}
+
+	getAbstractFileByPath(path: string): any {
+		if (!this.files.has(path)) return null;
+		const name = path.split('/').pop() || path;
+		return { path, name, basename: name.replace(/\.md$/, ''), extension: 'md' };
+	}
+
+	getMarkdownFiles() {
+		return Array.from(this.files.keys())
+			.filter(path => path.endsWith('.md'))
+			.map(path => this.getAbstractFileByPath(path));
+	}
+
+	async read(file: any) {
+		return this.files.get(file.path) as string;
+	}
+
+	async modify(file: any, content: string) {
+		this.files.set(file.path, content);
+	}
+
+	async create(path: string, content: string) {
+		this.files.set(path, content);
+		return this.getAbstractFileByPath(path);
+	}
+
+	adapter = {
+		exists: async (path: string) =>
+			this.files.has(path) || Array.from(this.files.keys()).some(p => p.startsWith(path + '/')),
+		read: async (path: string) => this.files.get(path) as string,
+		write: async (path: string, content: string) => {
+			this.files.set(path, content);
+		},
+		mkdir: async (path: string) => {},
+		remove: async (path: string) => {
+			this.files.delete(path);
+		},
+		list: async (path: string) => ({
+			files: Array.from(this.files.keys()).filter(p => p.startsWith(path + '/')),
+			folders: [],
+		}),
+	};
+}
+
+// Mock Plugin with persisted data
+class MockPlugin {
+	app: any;
+	data: any;
+	saved: any = null;
+
+	constructor(vault: MockVault, rules: Rule[]) {
+		this.app = { vault };
+		this.data = { version: '1.0', rules, playbooks: [], settings: DEFAULT_SETTINGS };
+		this.saved = JSON.parse(JSON.stringify(this.data));
+	}
+
+	async loadData() {
+		return this.saved;
+	}
+
+	async saveData(data: any) {
+		this.saved = data;
+	}
+}
+
+const rule: Rule = {
+	id: 'rule-1',
+	name: 'Publish',
+	condition: 'status = "draft"',
+	action: 'SET status "published"',
+	scope: { type: 'folder', folder: 'notes' },
+	options: { backup: false },
+	created: '2025-01-01T00:00:00.000Z',
+};
+
+describe('runRule', () => {
+	let vault: MockVault;
+	let plugin: MockPlugin;
+
+	beforeEach(() => {
+		vault = new MockVault();
+		vault.addFile('notes/a.md', '---\nstatus: draft\n---\n');
+		vault.addFile('other/b.md', '---\nstatus: draft\n---\n');
+		plugin = new MockPlugin(vault, [rule]);
+	});
+
+	it('should preview without writing, logging or recording a run', async () => {
+		const result = await runRule(plugin as any, rule, { dryRun: true });
+
+		expect(result.results.map(r => r.file.path)).toEqual(['notes/a.md']);
+		expect(result.results[0].modified).toBe(true);
+		expect(vault.files.get('notes/a.md')).toContain('status: draft');
+		expect(Array.from(vault.files.keys()).some(path => path.startsWith(getLogDir(vault as any)))).toBe(false);
+		expect(plugin.data.rules[0].lastUsed).toBeUndefined();
+	});
+
+	it('should apply the rule on its stored scope, log the run and record last use', async () => {
+		const result = await runRule(plugin as any, rule);
+
+		expect(result.summary.success).toBe(1);
+		expect(vault.files.get('notes/a.md')).toContain('status: published');
+		expect(vault.files.get('other/b.md')).toContain('status: draft');
+		expect(Array.from(vault.files.keys()).some(path => path.startsWith(getLogDir(vault as any)))).toBe(true);
+		expect(plugin.data.rules[0].lastUsed).toBeDefined();
+	});
+});
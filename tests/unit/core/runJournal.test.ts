@@ -0,0 +1,295 @@
+/**
+ * Tests for Run Journal (undo of applied batch runs)
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	createRunJournal,
+	listRuns,
+	loadRun,
+	getLastRun,
+	revertRun,
+	getJournalDir,
+} from '../../../src/core/runJournal';
+import { setPluginDir } from '../../../src/core/pluginDir';
+import { processBatch } from '../../../src/core/batchProcessor';
+import { LIMITS } from '../../../src/constants';
+
+const JOURNAL_DIR = '.obsidian/plugins/yaml-toolkit/journal';
+
+// Mock Vault backed by a single in-memory file map (notes and journal files)
+class MockVault {
+	configDir = '.obsidian';
+	files = new Map<string, string>();
+
+	addFile(path: string, content: string): any {
+		this.files.set(path, content);
+		return this.getAbstractFileByPath(path);
+	}
+
+	getAbstractFileByPath(path: string): any {
+		if (!this.files.has(path)) return null;
+		const name = path.split('/').pop() || path;
+		return { path, name, basename: name.replace(/\.md$/, ''), extension: 'md' };
+	}
+
+	async read(file: any) {
+		return this.files.get(file.path) as string;
+	}
+
+	async modify(file: any, content: string) {
+		this.files.set(file.path, content);
+	}
+
+	async create(path: string, content: string) {
+		this.files.set(path, content);
+		return this.getAbstractFileByPath(path);
+	}
+
+	adapter = {
+		exists: async (path: string) =>
+			this.files.has(path) || Array.from(this.files.keys()).some(p => p.startsWith(path + '/')),
+		read: async (path: string) => this.files.get(path) as string,
+		write: async (path: string, content: string) => {
+			this.files.set(path, content);
+		},
+		mkdir: async (path: string) => {},
+		remove: async (path: string) => {
+			this.files.delete(path);
+		},
+		list: async (path: string) => ({
+			files: Array.from(this.files.keys()).filter(p => p.startsWith(path + '/')),
+			folders: [],
+		}),
+	};
+}
+
+function createRule(overrides: any = {}): any {
+	return {
+		id: 'rule-1',
+		name: 'Publish drafts',
+		condition: '',
+		action: 'SET status "published"',
+		scope: { type: 'vault' },
+		options: { backup: false },
+		created: '2025-01-01T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+describe('Run Journal', () => {
+	let vault: MockVault;
+	let app: any;
+
+	beforeEach(() => {
+		vault = new MockVault();
+		app = { vault };
+	});
+
+	describe('createRunJournal', () => {
+		it('should not write anything when no files were recorded', async () => {
+			const journal = createRunJournal(vault as any, createRule());
+
+			const record = await journal.close();
+
+			expect(record).toBeNull();
+			expect(await listRuns(vault as any)).toEqual([]);
+		});
+
+		it('should persist original and new content keyed by run ID', async () => {
+			const file = vault.addFile('note.md', 'after');
+			const journal = createRunJournal(vault as any, createRule(), 'run-abc');
+
+			journal.recordFile(file, 'before', 'after');
+			await journal.close();
+
+			expect(vault.files.has(`${JOURNAL_DIR}/run-abc.json`)).toBe(true);
+			const record = await loadRun(vault as any, 'run-abc');
+			expect(record?.ruleId).toBe('rule-1');
+			expect(record?.ruleName).toBe('Publish drafts');
+			expect(record?.files).toEqual([{ path: 'note.md', originalContent: 'before', newContent: 'after' }]);
+		});
+
+		it('should keep only the most recent runs', async () => {
+			const file = vault.addFile('note.md', 'x');
+
+			for (let i = 0; i < LIMITS.MAX_JOURNAL_RUNS + 3; i++) {
+				const journal = createRunJournal(vault as any, createRule(), `run-${String(i).padStart(3, '0')}`);
+				journal.recordFile(file, 'a', 'b');
+				const record = await journal.close();
+				// Force distinct, ordered timestamps
+				record!.timestamp = new Date(Date.UTC(2025, 0, 1, 0, 0, i)).toISOString();
+				await vault.adapter.write(`${JOURNAL_DIR}/${record!.runId}.json`, JSON.stringify(record));
+			}
+
+			const runs = await listRuns(vault as any);
+			expect(runs).toHaveLength(LIMITS.MAX_JOURNAL_RUNS);
+			expect(runs[0].runId).toBe(`run-${String(LIMITS.MAX_JOURNAL_RUNS + 2).padStart(3, '0')}`);
+		});
+
+		it('should not let automatic runs push manual runs out', async () => {
+			const file = vault.addFile('note.md', 'x');
+			const manual = createRunJournal(vault as any, createRule(), 'run-manual');
+			manual.recordFile(file, 'a', 'b');
+			await manual.close();
+
+			for (let i = 0; i < LIMITS.MAX_AUTOMATIC_JOURNAL_RUNS + 3; i++) {
+				const journal = createRunJournal(vault as any, createRule(), `run-auto-${String(i).padStart(3, '0')}`, true);
+				journal.recordFile(file, 'b', 'c');
+				await journal.close();
+			}
+
+			const runs = await listRuns(vault as any);
+			expect(runs.filter(run => run.automatic)).toHaveLength(LIMITS.MAX_AUTOMATIC_JOURNAL_RUNS);
+			expect(runs.some(run => run.runId === 'run-manual')).toBe(true);
+		});
+	});
+
+	describe('getJournalDir', () => {
+		it('should follow the vault config dir and the registered plugin dir', () => {
+			vault.configDir = '.config';
+			expect(getJournalDir(vault as any)).toBe('.config/plugins/yaml-toolkit/journal');
+
+			setPluginDir('.config/plugins/yaml-toolkit-dev');
+			try {
+				expect(getJournalDir(vault as any)).toBe('.config/plugins/yaml-toolkit-dev/journal');
+			} finally {
+				setPluginDir(undefined);
+			}
+		});
+	});
+
+	describe('listRuns / getLastRun', () => {
+		it('should return runs newest first and skip reverted runs for undo', async () => {
+			await vault.adapter.write(`${JOURNAL_DIR}/run-old.json`, JSON.stringify({
+				runId: 'run-old', ruleId: 'r', ruleName: 'Old', timestamp: '2025-01-01T00:00:00.000Z', files: [],
+			}));
+			await vault.adapter.write(`${JOURNAL_DIR}/run-new.json`, JSON.stringify({
+				runId: 'run-new', ruleId: 'r', ruleName: 'New', timestamp: '2025-02-01T00:00:00.000Z', files: [],
+				revertedAt: '2025-02-02T00:00:00.000Z',
+			}));
+
+			const runs = await listRuns(vault as any);
+			expect(runs.map(r => r.runId)).toEqual(['run-new', 'run-old']);
+
+			const last = await getLastRun(vault as any);
+			expect(last?.runId).toBe('run-old');
+		});
+
+		it('should skip corrupted journal files', async () => {
+			await vault.adapter.write(`${JOURNAL_DIR}/run-bad.json`, '{not json');
+
+			expect(await listRuns(vault as any)).toEqual([]);
+		});
+	});
+
+	describe('revertRun', () => {
+		async function recordRun(runId: string, entries: Array<[string, string, string]>) {
+			const journal = createRunJournal(vault as any, createRule(), runId);
+			for (const [path, original, written] of entries) {
+				const file = vault.addFile(path, written);
+				journal.recordFile(file, original, written);
+			}
+			await journal.close();
+		}
+
+		it('should restore original content of every file', async () => {
+			await recordRun('run-1', [
+				['a.md', 'a-before', 'a-after'],
+				['b.md', 'b-before', 'b-after'],
+			]);
+
+			const result = await revertRun(app, 'run-1');
+
+			expect(result.reverted).toEqual(['a.md', 'b.md']);
+			expect(result.conflicts).toEqual([]);
+			expect(vault.files.get('a.md')).toBe('a-before');
+			expect(vault.files.get('b.md')).toBe('b-before');
+			expect((await loadRun(vault as any, 'run-1'))?.revertedAt).toBeDefined();
+		});
+
+		it('should refuse to revert when a file changed since the run', async () => {
+			await recordRun('run-1', [
+				['a.md', 'a-before', 'a-after'],
+				['b.md', 'b-before', 'b-after'],
+			]);
+			vault.files.set('b.md', 'edited by user');
+
+			const result = await revertRun(app, 'run-1');
+
+			expect(result.conflicts).toEqual(['b.md']);
+			expect(result.reverted).toEqual([]);
+			// Nothing written - the revert is all-or-nothing
+			expect(vault.files.get('a.md')).toBe('a-after');
+			expect(vault.files.get('b.md')).toBe('edited by user');
+			expect((await loadRun(vault as any, 'run-1'))?.revertedAt).toBeUndefined();
+		});
+
+		it('should revert changed files when forced', async () => {
+			await recordRun('run-1', [['a.md', 'a-before', 'a-after']]);
+			vault.files.set('a.md', 'edited by user');
+
+			const result = await revertRun(app, 'run-1', { force: true });
+
+			expect(result.conflicts).toEqual(['a.md']);
+			expect(result.reverted).toEqual(['a.md']);
+			expect(vault.files.get('a.md')).toBe('a-before');
+		});
+
+		it('should recreate files deleted since the run when forced', async () => {
+			await recordRun('run-1', [['a.md', 'a-before', 'a-after']]);
+			vault.files.delete('a.md');
+
+			const refused = await revertRun(app, 'run-1');
+			expect(refused.conflicts).toEqual(['a.md']);
+
+			await revertRun(app, 'run-1', { force: true });
+			expect(vault.files.get('a.md')).toBe('a-before');
+		});
+
+		it('should reject unknown and already reverted runs', async () => {
+			await recordRun('run-1', [['a.md', 'a-before', 'a-after']]);
+			await revertRun(app, 'run-1');
+
+			await expect(revertRun(app, 'run-missing')).rejects.toThrow('Run not found');
+			await expect(revertRun(app, 'run-1')).rejects.toThrow('already reverted');
+		});
+
+		it('should reject run IDs that could escape the journal folder', async () => {
+			await expect(revertRun(app, '../data')).rejects.toThrow('Invalid run ID');
+		});
+	});
+
+	describe('processBatch integration', () => {
+		it('should journal applied runs and make them revertible', async () => {
+			const original = '---\ntitle: Note\nstatus: draft\n---\nBody\n';
+			const file = vault.addFile('note.md', original);
+
+			const result = await processBatch(app, [file], createRule());
+
+			expect(result.runId).toBeDefined();
+			expect(vault.files.get('note.md')).toContain('status: published');
+
+			await revertRun(app, result.runId!);
+			expect(vault.files.get('note.md')).toBe(original);
+		});
+
+		it('should not journal dry runs', async () => {
+			const file = vault.addFile('note.md', '---\nstatus: draft\n---\n');
+
+			const result = await processBatch(app, [file], createRule(), undefined, { dryRun: true });
+
+			expect(result.runId).toBeUndefined();
+			expect(await listRuns(vault as any)).toEqual([]);
+		});
+
+		it('should not journal when journaling is disabled', async () => {
+			const file = vault.addFile('note.md', '---\nstatus: draft\n---\n');
+
+			const result = await processBatch(app, [file], createRule(), undefined, { journal: false });
+
+			expect(result.runId).toBeUndefined();
+			expect(await listRuns(vault as any)).toEqual([]);
+		});
+	});
+});
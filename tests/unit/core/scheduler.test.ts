@@ -0,0 +1,210 @@
+/**
+ * Tests for scheduled rule runs
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createScheduler, getNextRun, isScheduleDue, parseTimeOfDay } from '../../../src/core/scheduler';
+import { Rule, RuleSchedule } from '../../../src/types';
+
+function createRule(id: string, schedule: RuleSchedule | undefined, lastUsed?: string): Rule {
+	return {
+		id,
+		name: `Rule ${id}`,
+		condition: '',
+		action: 'SET checked true',
+		scope: { type: 'vault' },
+		options: { backup: false },
+		created: new Date(2025, 0, 1, 8, 0).toISOString(),
+		lastUsed,
+		schedule,
+	};
+}
+
+describe('Scheduler', () => {
+	describe('getNextRun', () => {
+		it('should add the interval to the last run', () => {
+			const lastRun = new Date(2025, 0, 1, 8, 0);
+
+			expect(getNextRun({ type: 'interval', hours: 6 }, lastRun)).toEqual(new Date(2025, 0, 1, 14, 0));
+		});
+
+		it('should pick the same day when the time is still ahead', () => {
+			const lastRun = new Date(2025, 0, 1, 8, 0);
+
+			expect(getNextRun({ type: 'daily', time: '09:30' }, lastRun)).toEqual(new Date(2025, 0, 1, 9, 30));
+		});
+
+		it('should pick the next day when the time has passed', () => {
+			const lastRun = new Date(2025, 0, 1, 9, 30);
+
+			expect(getNextRun({ type: 'daily', time: '09:30' }, lastRun)).toEqual(new Date(2025, 0, 2, 9, 30));
+		});
+
+		it('should have no next run for startup and invalid schedules', () => {
+			const lastRun = new Date(2025, 0, 1, 8, 0);
+
+			expect(getNextRun({ type: 'startup' }, lastRun)).toBeNull();
+			expect(getNextRun({ type: 'interval', hours: 0 }, lastRun)).toBeNull();
+			expect(getNextRun({ type: 'daily', time: '25:00' }, lastRun)).toBeNull();
+			expect(getNextRun(undefined, lastRun)).toBeNull();
+		});
+	});
+
+	describe('isScheduleDue', () => {
+		it('should measure from the creation time for rules that never ran', () => {
+			const rule = createRule('r1', { type: 'interval', hours: 2 });
+
+			expect(isScheduleDue(rule, new Date(2025, 0, 1, 9, 0))).toBe(false);
+			expect(isScheduleDue(rule, new Date(2025, 0, 1, 10, 0))).toBe(true);
+		});
+
+		it('should measure from the last run', () => {
+			const rule = createRule('r1', { type: 'daily', time: '06:00' }, new Date(2025, 0, 5, 6, 1).toISOString());
+
+			expect(isScheduleDue(rule, new Date(2025, 0, 5, 23, 0))).toBe(false);
+			expect(isScheduleDue(rule, new Date(2025, 0, 6, 6, 0))).toBe(true);
+		});
+
+		it('should measure from a failed attempt after the last run', () => {
+			const rule = createRule('r1', { type: 'interval', hours: 2 }, new Date(2025, 0, 1, 8, 0).toISOString());
+
+			expect(isScheduleDue(rule, new Date(2025, 0, 1, 11, 0), new Date(2025, 0, 1, 10, 0))).toBe(false);
+			expect(isScheduleDue(rule, new Date(2025, 0, 1, 12, 0), new Date(2025, 0, 1, 10, 0))).toBe(true);
+			expect(isScheduleDue(rule, new Date(2025, 0, 1, 10, 0), new Date(2025, 0, 1, 7, 0))).toBe(true);
+		});
+	});
+
+	describe('parseTimeOfDay', () => {
+		it('should parse 24-hour times', () => {
+			expect(parseTimeOfDay('7:05')).toEqual({ hours: 7, minutes: 5 });
+			expect(parseTimeOfDay('23:59')).toEqual({ hours: 23, minutes: 59 });
+			expect(parseTimeOfDay('24:00')).toBeNull();
+			expect(parseTimeOfDay('noon')).toBeNull();
+		});
+	});
+
+	describe('createScheduler', () => {
+		let rules: Rule[];
+		let paused: boolean;
+		let now: Date;
+		let runs: string[];
+
+		const createTestScheduler = (run?: (rule: Rule) => Promise<void>) =>
+			createScheduler({
+				getRules: () => rules,
+				isPaused: () => paused,
+				now: () => now,
+				run: run ?? (async rule => {
+					runs.push(rule.id);
+					// Like runRule: record the run
+					rule.lastUsed = now.toISOString();
+				}),
+			});
+
+		beforeEach(() => {
+			vi.useFakeTimers();
+			rules = [];
+			paused = false;
+			now = new Date(2025, 0, 10, 12, 0);
+			runs = [];
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should run startup rules and catch up missed runs once on start', async () => {
+			rules = [
+				createRule('startup', { type: 'startup' }),
+				// Last ran days ago: several daily runs were missed
+				createRule('daily', { type: 'daily', time: '06:00' }, new Date(2025, 0, 5, 6, 0).toISOString()),
+				createRule('later', { type: 'daily', time: '18:00' }, new Date(2025, 0, 9, 18, 0).toISOString()),
+				createRule('manual', undefined),
+			];
+			const scheduler = createTestScheduler();
+
+			await scheduler.start();
+			scheduler.stop();
+
+			expect(runs).toEqual(['startup', 'daily']);
+		});
+
+		it('should run rules when they become due', async () => {
+			rules = [createRule('hourly', { type: 'interval', hours: 1 }, new Date(2025, 0, 10, 11, 30).toISOString())];
+			const scheduler = createTestScheduler();
+
+			await scheduler.start();
+			expect(runs).toEqual([]);
+
+			now = new Date(2025, 0, 10, 12, 30);
+			await vi.advanceTimersByTimeAsync(60000);
+			expect(runs).toEqual(['hourly']);
+
+			await vi.advanceTimersByTimeAsync(60000);
+			expect(runs).toEqual(['hourly']);
+			scheduler.stop();
+		});
+
+		it('should not run anything while paused', async () => {
+			rules = [createRule('startup', { type: 'startup' }), createRule('hourly', { type: 'interval', hours: 1 })];
+			paused = true;
+			const scheduler = createTestScheduler();
+
+			await scheduler.start();
+			scheduler.stop();
+
+			expect(runs).toEqual([]);
+		});
+
+		it('should keep running other rules when one fails', async () => {
+			rules = [createRule('a', { type: 'startup' }), createRule('b', { type: 'startup' })];
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			const scheduler = createTestScheduler(async rule => {
+				if (rule.id === 'a') throw new Error('No active note');
+				runs.push(rule.id);
+			});
+
+			await scheduler.start();
+			scheduler.stop();
+
+			expect(runs).toEqual(['b']);
+			expect(warn).toHaveBeenCalled();
+			warn.mockRestore();
+		});
+
+		it('should retry a failed rule at its next scheduled time, not on every check', async () => {
+			rules = [createRule('hourly', { type: 'interval', hours: 1 }, new Date(2025, 0, 10, 11, 0).toISOString())];
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			const scheduler = createTestScheduler(async rule => {
+				runs.push(rule.id);
+				throw new Error('No active note');
+			});
+
+			await scheduler.start();
+			expect(runs).toEqual(['hourly']);
+
+			now = new Date(2025, 0, 10, 12, 30);
+			await vi.advanceTimersByTimeAsync(60000 * 5);
+			expect(runs).toEqual(['hourly']);
+			expect(warn).toHaveBeenCalledTimes(1);
+
+			now = new Date(2025, 0, 10, 13, 0);
+			await vi.advanceTimersByTimeAsync(60000);
+			expect(runs).toEqual(['hourly', 'hourly']);
+			scheduler.stop();
+			warn.mockRestore();
+		});
+
+		it('should stop checking after stop', async () => {
+			rules = [createRule('hourly', { type: 'interval', hours: 1 }, now.toISOString())];
+			const scheduler = createTestScheduler();
+
+			await scheduler.start();
+			scheduler.stop();
+			now = new Date(2025, 0, 10, 14, 0);
+			await vi.advanceTimersByTimeAsync(120000);
+
+			expect(runs).toEqual([]);
+		});
+	});
+});
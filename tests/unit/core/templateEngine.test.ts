@@ -21,7 +21,7 @@ const createMockContext = (overrides?: Partial<TemplateContext>): TemplateContex
 	return {
 		file: mockFile,
 		vault: mockVault,
-		frontmatter: { title: 'Test Note', tags: ['work', 'urgent'] },
+		frontmatter: { title: 'Test Note', tags: ['work', 'urgent'], 'aliases.old': 'Old Note', 'my key': 3 },
 		currentDate: DateTime.fromISO('2025-11-19T14:30:15'),
 		...overrides,
 	};
@@ -152,6 +152,12 @@ describe('Template Engine', () => {
 			expect(result).toBe('work');
 		});
 
+		it('should resolve quoted keys', () => {
+			const ctx = createMockContext();
+			expect(resolveTemplates('{{fm:["aliases.old"]}}', ctx)).toBe('Old Note');
+			expect(resolveTemplates('{{fm:`my key`}}', ctx)).toBe('3');
+		});
+
 		it('should throw on missing frontmatter field', () => {
 			const ctx = createMockContext();
 			expect(() => resolveTemplates('{{fm:missing}}', ctx)).toThrow('not found');
@@ -172,6 +178,58 @@ describe('Template Engine', () => {
 		});
 	});
 
+	describe('Note graph variables', () => {
+		const graph = {
+			links: ['[[Project X]]', '[[Alice]]'],
+			backlinks: ['[[Weekly review]]'],
+			embeds: [],
+			inlineTags: ['#meeting'],
+		};
+
+		it('should resolve counts, lists and items', () => {
+			const ctx = createMockContext({ graph });
+			expect(resolveTemplates('{{links.count}} links, {{backlinks.count}} backlinks', ctx)).toBe('2 links, 1 backlinks');
+			expect(resolveTemplates('{{links[0]}}', ctx)).toBe('[[Project X]]');
+			expect(resolveTemplates('{{inlineTags}}', ctx)).toBe('["#meeting"]');
+		});
+
+		it('should throw on a missing item', () => {
+			const ctx = createMockContext({ graph });
+			expect(() => resolveTemplates('{{embeds[0]}}', ctx)).toThrow('Note graph field not found');
+		});
+
+		it('should not resolve graph variables without a graph', () => {
+			const ctx = createMockContext();
+			expect(() => resolveTemplates('{{links.count}}', ctx)).toThrow('Unknown template variable');
+		});
+	});
+
+	describe('Link paths', () => {
+		const linkResolver = {
+			follow: (value: any, hops: string[], path: string) => {
+				if (value === '[[Website Redesign]]' && hops[0] === 'client') return 'Acme';
+				linkResolver.warnings.push(`Cannot follow '${path}': ${value} does not resolve to a note`);
+				return undefined;
+			},
+			warnings: [] as string[],
+		};
+
+		it('should resolve fields of the linked note', () => {
+			const ctx = createMockContext({ frontmatter: { project: '[[Website Redesign]]' }, linkResolver });
+			expect(resolveTemplates('{{fm:project->client}}', ctx)).toBe('Acme');
+		});
+
+		it('should fail with the warning of an unresolved link', () => {
+			const ctx = createMockContext({ frontmatter: { project: '[[Old]]' }, linkResolver });
+			expect(() => resolveTemplates('{{fm:project->client}}', ctx)).toThrow("Cannot follow 'project->client': [[Old]] does not resolve to a note");
+		});
+
+		it('should fail without a link resolver', () => {
+			const ctx = createMockContext({ frontmatter: { project: '[[Website Redesign]]' } });
+			expect(() => resolveTemplates('{{fm:project->client}}', ctx)).toThrow('Cannot follow links');
+		});
+	});
+
 	describe('Edge cases', () => {
 		it('should handle string with no variables', () => {
 			const ctx = createMockContext();
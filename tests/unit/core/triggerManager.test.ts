@@ -0,0 +1,269 @@
+/**
+ * Tests for rules triggered by vault events
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTriggerManager, getRenameEvent, getTriggeredRules } from '../../../src/core/triggerManager';
+import { clearOwnWrites } from '../../../src/core/writeTracker';
+import { Rule, RuleScope, TriggerEvent } from '../../../src/types';
+
+function createMockApp() {
+	const files = new Map<string, string>();
+	const handles = new Map<string, any>();
+	const writes: string[] = [];
+	const written = new Map<string, string>();
+
+	return {
+		files,
+		writes,
+		written,
+		addFile(path: string, content: string): any {
+			files.set(path, content);
+			const file = { path, name: path.split('/').pop(), basename: 'note', extension: 'md' };
+			handles.set(path, file);
+			return file;
+		},
+		vault: {
+			read: async (file: any) => files.get(file.path) as string,
+			modify: async (file: any, content: string) => {
+				writes.push(file.path);
+				files.set(file.path, content);
+			},
+			create: async (path: string, content: string) => {
+				written.set(path, content);
+			},
+			getAbstractFileByPath: (path: string) => (files.has(path) ? handles.get(path) : null),
+			getName: () => 'TestVault',
+			adapter: {
+				exists: async () => false,
+				write: async (path: string, content: string) => {
+					written.set(path, content);
+				},
+				mkdir: async () => {},
+			},
+		},
+	};
+}
+
+function createRule(id: string, events: TriggerEvent[], scope: RuleScope = { type: 'vault' }, action = 'SET checked true'): Rule {
+	return {
+		id,
+		name: `Rule ${id}`,
+		condition: '',
+		action,
+		scope,
+		options: { backup: false },
+		created: '2025-01-01T00:00:00.000Z',
+		trigger: { events },
+	};
+}
+
+describe('Trigger Manager', () => {
+	let app: ReturnType<typeof createMockApp>;
+	let rules: Rule[];
+	let paused: boolean;
+
+	const createManager = () =>
+		createTriggerManager({
+			app: app as any,
+			getRules: () => rules,
+			isPaused: () => paused,
+			debounceMs: 100,
+		});
+
+	beforeEach(() => {
+		app = createMockApp();
+		rules = [];
+		paused = false;
+		clearOwnWrites();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should run triggered rules only on the affected note', async () => {
+		const note = app.addFile('inbox/a.md', '---\ntitle: A\n---\n');
+		app.addFile('inbox/b.md', '---\ntitle: B\n---\n');
+		rules = [createRule('r1', ['create'])];
+		const manager = createManager();
+
+		manager.handleEvent('create', note);
+		await manager.flush();
+
+		expect(app.writes).toEqual(['inbox/a.md']);
+		expect(app.files.get('inbox/a.md')).toContain('checked: true');
+	});
+
+	it('should journal automatic runs and log runs that change the note', async () => {
+		const note = app.addFile('a.md', '---\ntitle: A\n---\n');
+		const onRun = vi.fn();
+		rules = [createRule('r1', ['create'])];
+		const manager = createTriggerManager({
+			app: app as any,
+			getRules: () => rules,
+			isPaused: () => paused,
+			onRun,
+			debounceMs: 100,
+		});
+
+		manager.handleEvent('create', note);
+		await manager.flush();
+
+		const runId = onRun.mock.calls[0][1].runId;
+		expect(runId).toBeDefined();
+		const record = JSON.parse(app.written.get(`.obsidian/plugins/yaml-toolkit/journal/${runId}.json`)!);
+		expect(record.files[0].path).toBe('a.md');
+		expect(record.automatic).toBe(true);
+		const logs = Array.from(app.written.keys()).filter(path => path.includes('/logs/'));
+		expect(logs).toHaveLength(1);
+		expect(app.written.get(logs[0])).toContain('Rule: Rule r1');
+	});
+
+	it('should not log runs that leave the note alone', async () => {
+		const note = app.addFile('a.md', '---\nstatus: done\n---\n');
+		rules = [{ ...createRule('r1', ['create']), condition: 'status = "open"' }];
+		const manager = createManager();
+
+		manager.handleEvent('create', note);
+		await manager.flush();
+
+		expect(Array.from(app.written.keys())).toEqual([]);
+	});
+
+	it('should debounce bursts of events into a single run', async () => {
+		vi.useFakeTimers();
+		const note = app.addFile('a.md', '---\ncount: 0\n---\n');
+		const onRun = vi.fn();
+		rules = [createRule('r1', ['modify'])];
+		const manager = createTriggerManager({
+			app: app as any,
+			getRules: () => rules,
+			isPaused: () => paused,
+			onRun,
+			debounceMs: 100,
+		});
+
+		manager.handleEvent('modify', note);
+		vi.advanceTimersByTime(60);
+		manager.handleEvent('modify', note);
+		vi.advanceTimersByTime(60);
+		expect(onRun).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(100);
+		expect(onRun).toHaveBeenCalledTimes(1);
+	});
+
+	it('should ignore modifications made by its own writes', async () => {
+		const note = app.addFile('a.md', '---\ntitle: A\n---\n');
+		rules = [createRule('r1', ['modify'], { type: 'vault' }, 'SET stamp "{{now}}"')];
+		const manager = createManager();
+
+		manager.handleEvent('modify', note);
+		await manager.flush();
+		expect(app.writes).toEqual(['a.md']);
+
+		// Obsidian reports the rule's own write as a modification
+		manager.handleEvent('modify', note);
+		await manager.flush();
+		expect(app.writes).toEqual(['a.md']);
+	});
+
+	it('should run again after the user edits the note', async () => {
+		const note = app.addFile('a.md', '---\ntitle: A\n---\n');
+		rules = [createRule('r1', ['modify'], { type: 'vault' }, 'INCREMENT count 1')];
+		const manager = createManager();
+
+		manager.handleEvent('modify', note);
+		await manager.flush();
+		app.files.set('a.md', app.files.get('a.md') + 'Edited\n');
+		manager.handleEvent('modify', note);
+		await manager.flush();
+
+		expect(app.writes).toEqual(['a.md', 'a.md']);
+	});
+
+	it('should do nothing while paused', async () => {
+		const note = app.addFile('a.md', '---\ntitle: A\n---\n');
+		rules = [createRule('r1', ['create'])];
+		const manager = createManager();
+
+		paused = true;
+		manager.handleEvent('create', note);
+		await manager.flush();
+
+		expect(app.writes).toEqual([]);
+	});
+
+	it('should skip queued notes when paused before the quiet period ends', async () => {
+		const note = app.addFile('a.md', '---\ntitle: A\n---\n');
+		rules = [createRule('r1', ['create'])];
+		const manager = createManager();
+
+		manager.handleEvent('create', note);
+		paused = true;
+		await manager.flush();
+
+		expect(app.writes).toEqual([]);
+	});
+
+	it('should skip notes deleted before the quiet period ends', async () => {
+		const note = app.addFile('a.md', '---\ntitle: A\n---\n');
+		rules = [createRule('r1', ['create'])];
+		const manager = createManager();
+
+		manager.handleEvent('create', note);
+		app.files.delete('a.md');
+		await manager.flush();
+
+		expect(app.writes).toEqual([]);
+	});
+
+	it('should drop queued events on dispose', async () => {
+		const note = app.addFile('a.md', '---\ntitle: A\n---\n');
+		rules = [createRule('r1', ['create'])];
+		const manager = createManager();
+
+		manager.handleEvent('create', note);
+		manager.dispose();
+		await manager.flush();
+
+		expect(app.writes).toEqual([]);
+	});
+
+	describe('getTriggeredRules', () => {
+		it('should match rules by event and folder scope', () => {
+			rules = [
+				createRule('create', ['create']),
+				createRule('modify', ['modify']),
+				createRule('projects', ['create'], { type: 'folder', folder: 'projects' }),
+			];
+
+			const triggered = getTriggeredRules(rules, 'inbox/a.md', new Set<TriggerEvent>(['create']));
+
+			expect(triggered.map(rule => rule.id)).toEqual(['create']);
+		});
+
+		it('should ignore rules without a trigger', () => {
+			const manual: Rule = { ...createRule('manual', []), trigger: undefined };
+
+			expect(getTriggeredRules([manual], 'a.md', new Set<TriggerEvent>(['create']))).toEqual([]);
+		});
+
+		it('should only count a move into the rule folder', () => {
+			rules = [createRule('r1', ['move'], { type: 'folder', folder: 'projects' })];
+
+			expect(getTriggeredRules(rules, 'projects/a.md', new Set<TriggerEvent>(['move']), 'inbox/a.md')).toHaveLength(1);
+			expect(getTriggeredRules(rules, 'projects/sub/a.md', new Set<TriggerEvent>(['move']), 'projects/a.md')).toEqual([]);
+			expect(getTriggeredRules(rules, 'inbox/a.md', new Set<TriggerEvent>(['move']), 'projects/a.md')).toEqual([]);
+		});
+	});
+
+	describe('getRenameEvent', () => {
+		it('should tell renames from moves', () => {
+			expect(getRenameEvent('inbox/b.md', 'inbox/a.md')).toBe('rename');
+			expect(getRenameEvent('projects/a.md', 'inbox/a.md')).toBe('move');
+			expect(getRenameEvent('a.md', 'inbox/a.md')).toBe('move');
+		});
+	});
+});
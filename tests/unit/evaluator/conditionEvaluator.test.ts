@@ -2,9 +2,10 @@
  * Tests for Condition Evaluator
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { evaluateCondition } from '../../../src/evaluator/conditionEvaluator';
 import { parseCondition } from '../../../src/parser/conditionParser';
+import { createGraphResolver } from '../../../src/core/noteGraph';
 
 describe('Condition Evaluator', () => {
 	describe('Comparison operators', () => {
@@ -180,6 +181,14 @@ describe('Condition Evaluator', () => {
 			expect(evaluateCondition(ast2, data)).toBe(false);
 		});
 
+		it('should check date type', () => {
+			const data = { due: '2024-1-5', created: '2024-01-15T10:30Z', note: 'next week' };
+			expect(evaluateCondition(parseCondition('due :date'), data)).toBe(true);
+			expect(evaluateCondition(parseCondition('created :date'), data)).toBe(true);
+			expect(evaluateCondition(parseCondition('note :date'), data)).toBe(false);
+			expect(evaluateCondition(parseCondition('note !:date'), data)).toBe(true);
+		});
+
 		it('should handle negated type checks', () => {
 			const data = { status: 'draft' };
 			const ast = parseCondition('status !:number');
@@ -431,6 +440,248 @@ describe('Condition Evaluator', () => {
 		});
 	});
 
+	describe('IN operator', () => {
+		it('should check membership in a value list', () => {
+			const data = { status: 'review', priority: 2 };
+			expect(evaluateCondition(parseCondition('status IN ["draft", "review"]'), data)).toBe(true);
+			expect(evaluateCondition(parseCondition('priority IN [1, 3]'), data)).toBe(false);
+			expect(evaluateCondition(parseCondition('missing IN ["a"]'), data)).toBe(false);
+		});
+	});
+
+	describe('File fields', () => {
+		const file = {
+			name: 'Meeting',
+			path: 'Work/Meeting.md',
+			folder: 'Work',
+			ext: 'md',
+			ctime: '2024-01-10T09:00:00+01:00',
+			mtime: '2024-03-01T18:30:00+01:00',
+			size: 2048,
+		};
+		const matches = (condition: string, data: any = {}) =>
+			evaluateCondition(parseCondition(condition), data, { file });
+
+		it('should read file.* from the file metadata', () => {
+			expect(matches('file.name = "Meeting" AND file.folder = "Work"')).toBe(true);
+			expect(matches('file.path ~ /^Work\\//')).toBe(true);
+			expect(matches('file.ext IN ["md", "canvas"]')).toBe(true);
+			expect(matches('file.size < 10240')).toBe(true);
+		});
+
+		it('should compare file times as dates', () => {
+			expect(matches('file.mtime > 2024-02-15')).toBe(true);
+			expect(matches('file.ctime = 2024-01-10')).toBe(true);
+			expect(matches('file.mtime :date')).toBe(true);
+		});
+
+		it('should reserve file over a frontmatter key', () => {
+			expect(matches('file.name = "Meeting"', { file: { name: 'other' } })).toBe(true);
+		});
+
+		it('should combine with frontmatter conditions', () => {
+			expect(matches('status = "draft" AND file.folder = "Work"', { status: 'draft' })).toBe(true);
+		});
+	});
+
+	describe('Note body', () => {
+		const body = {
+			text: '# Summary\nWe had a meeting about TODO items.\n- [ ] follow up\n- [x] send notes',
+			headings: ['Summary'],
+			wordcount: 14,
+			tasks: { open: 1, done: 1, total: 2 },
+		};
+		const matches = (condition: string, data: any = {}) =>
+			evaluateCondition(parseCondition(condition), data, { body });
+
+		it('should match the body text', () => {
+			expect(matches('body ~ /TODO/')).toBe(true);
+			expect(matches('body.contains "meeting"')).toBe(true);
+			expect(matches('body CONTAINS "Meeting"')).toBe(false);
+		});
+
+		it('should read headings, word count and tasks', () => {
+			expect(matches('body.headings HAS "Summary"')).toBe(true);
+			expect(matches('body.wordcount > 500')).toBe(false);
+			expect(matches('body.tasks.open > 0 AND body.tasks.total = 2')).toBe(true);
+		});
+
+		it('should reserve body over a frontmatter key', () => {
+			expect(matches('body ~ /TODO/', { body: 'frontmatter value' })).toBe(true);
+			expect(evaluateCondition(parseCondition('body = "frontmatter value"'), { body: 'frontmatter value' })).toBe(true);
+		});
+	});
+
+	describe('Note graph', () => {
+		const graph = {
+			links: ['[[Project X]]', '[[Alice]]'],
+			backlinks: [],
+			embeds: ['[[diagram.png]]'],
+			inlineTags: ['#meeting'],
+		};
+		const matches = (condition: string, data: any = {}) =>
+			evaluateCondition(parseCondition(condition), data, { graph: createGraphResolver(graph) });
+
+		it('should count links and backlinks', () => {
+			expect(matches('links.count = 2 AND backlinks.count = 0')).toBe(true);
+			expect(matches('embeds.count > 0')).toBe(true);
+		});
+
+		it('should check list membership', () => {
+			expect(matches('links HAS "[[Project X]]"')).toBe(true);
+			expect(matches('inlineTags HAS "#meeting"')).toBe(true);
+			expect(matches('links[0] = "[[Project X]]"')).toBe(true);
+			expect(matches('backlinks HAS "[[Project X]]"')).toBe(false);
+		});
+
+		it('should reserve graph fields over frontmatter keys', () => {
+			expect(matches('links.count = 2', { links: ['a'] })).toBe(true);
+			expect(evaluateCondition(parseCondition('links.count = 1'), { links: { count: 1 } })).toBe(true);
+		});
+	});
+
+	describe('Link paths', () => {
+		const notes: Record<string, any> = { '[[A]]': { status: 'active' }, '[[B]]': { status: 'done' } };
+		const linkResolver = {
+			follow: (value: any, hops: string[]) => Array.isArray(value)
+				? value.map(link => notes[link]?.[hops[0]])
+				: notes[value]?.[hops[0]],
+			warnings: [],
+		};
+		const data = { project: '[[A]]', related: ['[[A]]', '[[B]]'], tasks: [{ project: '[[B]]' }] };
+		const matches = (condition: string) => evaluateCondition(parseCondition(condition), data, { linkResolver });
+
+		it('should compare fields of linked notes', () => {
+			expect(matches('project->status = "active"')).toBe(true);
+			expect(matches('related->status HAS "done"')).toBe(true);
+			expect(matches('tasks[*].project->status HAS "done"')).toBe(true);
+			expect(matches('project->owner exists')).toBe(false);
+		});
+
+		it('should not follow links without a resolver', () => {
+			expect(evaluateCondition(parseCondition('project->status = "active"'), data)).toBe(false);
+		});
+	});
+
+	describe('Quoted keys', () => {
+		const data = { 'aliases.old': 'A', meta: { 'my key': 2, '[draft]': true }, größe: 5 };
+		const matches = (condition: string) => evaluateCondition(parseCondition(condition), data);
+
+		it('should address keys with dots, spaces and brackets', () => {
+			expect(matches('["aliases.old"] = "A"')).toBe(true);
+			expect(matches('meta["my key"] > 1')).toBe(true);
+			expect(matches("meta['[draft]'] = true")).toBe(true);
+			expect(matches('meta.`my key` = 2 AND `aliases.old` exists')).toBe(true);
+		});
+
+		it('should address non-ASCII keys without quotes', () => {
+			expect(matches('größe >= 5')).toBe(true);
+		});
+	});
+
+	describe('Wildcard paths', () => {
+		const data = {
+			tasks: [
+				{ title: 'A', status: 'done', tags: ['x'] },
+				{ title: 'B', status: 'open' },
+				{ title: 'C' }
+			],
+			authors: [
+				{ name: 'Ann', role: 'editor' },
+				{ name: 'Bob', role: 'writer' }
+			],
+			section: { old: { deprecated: true } }
+		};
+		const matches = (condition: string) => evaluateCondition(parseCondition(condition), data);
+
+		it('should match if any location matches', () => {
+			expect(matches('tasks[*].status = "open"')).toBe(true);
+			expect(matches('tasks[*].status = "blocked"')).toBe(false);
+			expect(matches('tasks[*].tags HAS "x"')).toBe(true);
+		});
+
+		it('should check missing keys at each location', () => {
+			expect(matches('tasks[*].status !exists')).toBe(true);
+			expect(matches('tasks[*].title !exists')).toBe(false);
+		});
+
+		it('should express "all" with NOT', () => {
+			expect(matches('NOT tasks[*].status != "done"')).toBe(false);
+			expect(evaluateCondition(parseCondition('NOT tasks[*].status != "done"'), { tasks: [{ status: 'done' }] })).toBe(true);
+		});
+
+		it('should filter items and search any depth', () => {
+			expect(matches('authors[?role="editor"].name = "Ann"')).toBe(true);
+			expect(matches('authors[?role="editor"].name = "Bob"')).toBe(false);
+			expect(matches('**.deprecated = true')).toBe(true);
+		});
+
+		it('should keep CONTAINS on wildcard fields', () => {
+			expect(matches('tasks[*].title CONTAINS "B"')).toBe(true);
+			expect(matches('tasks[*].tags CONTAINS "x"')).toBe(true);
+		});
+	});
+
+	describe('Date comparisons', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date(2024, 2, 15, 14, 0)); // Friday 2024-03-15 14:00 local
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		const matches = (condition: string, data: any) => evaluateCondition(parseCondition(condition), data);
+
+		it('should compare date literals regardless of zero padding', () => {
+			expect(matches('due < 2024-02-01', { due: '2024-1-31' })).toBe(true);
+			expect(matches('due < 2024-02-01', { due: '2024-2-1' })).toBe(false);
+			expect(matches('due = 2024-2-1', { due: '2024-02-01' })).toBe(true);
+		});
+
+		it('should compare datetimes with time zones as instants', () => {
+			const data = { created: '2024-01-15T10:00:00+02:00' };
+
+			expect(matches('created < 2024-01-15T09:00:00Z', data)).toBe(true);
+			expect(matches('created = 2024-01-15T08:00Z', data)).toBe(true);
+		});
+
+		it('should compare date-only values by day', () => {
+			expect(matches('due = today', { due: '2024-03-15T08:00' })).toBe(true);
+			expect(matches('due < today', { due: '2024-03-15' })).toBe(false);
+			expect(matches('due <= today', { due: '2024-03-15' })).toBe(true);
+			expect(matches('due < now', { due: '2024-03-14' })).toBe(true);
+		});
+
+		it('should resolve relative date expressions', () => {
+			expect(matches('updated < today - 30d', { updated: '2024-02-13' })).toBe(true);
+			expect(matches('updated < today - 30d', { updated: '2024-02-14' })).toBe(false);
+			expect(matches('review <= now + 2w', { review: '2024-03-29T14:00' })).toBe(true);
+			expect(matches('created >= startOfMonth', { created: '2024-03-01' })).toBe(true);
+			expect(matches('created >= startOfMonth - 1m AND created < startOfMonth', { created: '2024-02-10' })).toBe(true);
+		});
+
+		it('should compare Date values', () => {
+			expect(matches('due < today', { due: new Date(2024, 2, 14, 23, 59) })).toBe(true);
+			expect(matches('due > "2024-03-01"', { due: new Date(2024, 2, 2) })).toBe(true);
+		});
+
+		it('should compare date strings on both sides of an ordering operator', () => {
+			expect(matches('due < "2024-10-1"', { due: '2024-9-15' })).toBe(true);
+		});
+
+		it('should not match non-date values against dates', () => {
+			expect(matches('due < today', { due: 'someday' })).toBe(false);
+			expect(matches('due != today', { due: 'someday' })).toBe(true);
+			expect(matches('due < today', {})).toBe(false);
+		});
+
+		it('should keep string equality for quoted dates', () => {
+			expect(matches('due = "2024-02-01"', { due: '2024-2-1' })).toBe(false);
+		});
+	});
+
 	describe('Real-world examples', () => {
 		it('should evaluate: tags has "urgent" AND priority > 5', () => {
 			const data = { tags: ['work', 'urgent'], priority: 8 };
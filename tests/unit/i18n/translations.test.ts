@@ -35,6 +35,11 @@ describe('Translation Baseline - Plugin', () => {
 describe('Translation Baseline - Commands', () => {
 	it('should have correct command names', () => {
 		expect(enTranslations.commands.openRuleBuilder).toBe('Open Rule Builder');
+		expect(enTranslations.commands.undoLastRun).toBe('Undo Last Run');
+		expect(enTranslations.commands.showRunHistory).toBe('Show Run History');
+		expect(enTranslations.commands.openLatestLog).toBe('Open Latest Log');
+		expect(enTranslations.commands.openPlaybooks).toBe('Open Playbooks');
+		expect(enTranslations.commands.toggleAutomaticRules).toBe('Pause/Resume Automatic Rules');
 	});
 });
 
@@ -54,6 +59,17 @@ describe('Translation Baseline - Settings', () => {
 		expect(enTranslations.settings.debugMode.name).toBe('Debug Mode');
 		expect(enTranslations.settings.debugMode.description).toBe('Show debug information in console');
 	});
+
+	it('should have correct log retention settings', () => {
+		expect(enTranslations.settings.logRetentionCount.name).toBe('Log Retention (count)');
+		expect(enTranslations.settings.logRetentionCount.description).toBe(
+			'Maximum number of operation logs to keep (0 = unlimited)'
+		);
+		expect(enTranslations.settings.logRetentionDays.name).toBe('Log Retention (days)');
+		expect(enTranslations.settings.logRetentionDays.description).toBe(
+			'Delete operation logs older than this many days (0 = never)'
+		);
+	});
 });
 
 describe('Translation Baseline - Rule Builder', () => {
@@ -241,6 +257,14 @@ describe('Translation Baseline - Notices', () => {
 			'✅ Complete: {success} success, {warnings} warnings, {errors} errors'
 		);
 		expect(enTranslations.notices.error).toBe('Error: {message}');
+		expect(enTranslations.notices.noRunToUndo).toBe('No applied run to undo');
+		expect(enTranslations.notices.noLogs).toBe('No operation logs found');
+		expect(enTranslations.notices.playbookSaved).toBe('Playbook saved successfully');
+		expect(enTranslations.notices.playbookDeleted).toBe('Playbook deleted');
+		expect(enTranslations.notices.runReverted).toBe('Reverted {count} file(s) changed by "{rule}"');
+		expect(enTranslations.notices.revertPartial).toBe(
+			'Reverted {count} file(s), {errors} could not be restored'
+		);
 	});
 });
 
@@ -254,6 +278,44 @@ describe('Translation Baseline - Confirm Dialogs', () => {
 		);
 		expect(enTranslations.confirm.applyWithoutPreview.question).toBe('Continue anyway?');
 	});
+
+	it('should have correct revert conflict dialog text', () => {
+		expect(enTranslations.confirm.revertConflicts.title).toBe('⚠️ {count} file(s) changed since this run:');
+		expect(enTranslations.confirm.revertConflicts.message).toBe('Reverting will discard those later edits.');
+		expect(enTranslations.confirm.revertConflicts.question).toBe('Revert anyway?');
+	});
+
+	it('should have correct run playbook dialog text', () => {
+		expect(enTranslations.confirm.runPlaybook.title).toBe('Run playbook "{name}"?');
+		expect(enTranslations.confirm.runPlaybook.message).toBe(
+			'{count} rule(s) will be applied in order. The run can be undone as a whole from the run history.'
+		);
+		expect(enTranslations.confirm.runPlaybook.question).toBe('Continue?');
+	});
+});
+
+describe('Translation Baseline - Run History', () => {
+	it('should have correct run history text', () => {
+		expect(enTranslations.runHistory.placeholder).toBe('Select a run to revert');
+		expect(enTranslations.runHistory.empty).toBe('No applied runs to revert');
+		expect(enTranslations.runHistory.details).toBe('{date} · {count} file(s)');
+	});
+});
+
+describe('Translation Baseline - Log Viewer', () => {
+	it('should have correct log viewer title', () => {
+		expect(enTranslations.logViewer.title).toBe('YAML Toolkit: Operation Log');
+	});
+});
+
+describe('Translation Baseline - Playbooks', () => {
+	it('should have correct playbook text', () => {
+		expect(enTranslations.playbooks.title).toBe('YAML Toolkit: Playbooks');
+		expect(enTranslations.playbooks.rules).toBe('Rules (run in order)');
+		expect(enTranslations.playbooks.summary).toBe(
+			'{files} file(s): {success} success, {warnings} warnings, {errors} errors, {skipped} skipped'
+		);
+	});
 });
 
 describe('Translation Baseline - Status', () => {
@@ -277,6 +339,9 @@ describe('Translation Structure Validation', () => {
 			'diff',
 			'notices',
 			'confirm',
+			'runHistory',
+			'logViewer',
+			'playbooks',
 			'status',
 		];
 
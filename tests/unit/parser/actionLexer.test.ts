@@ -164,6 +164,23 @@ describe('Action Lexer', () => {
 			expect(tokens[5]).toMatchObject({ type: ActionTokenType.DOT });
 			expect(tokens[6]).toMatchObject({ type: ActionTokenType.IDENTIFIER, value: 'mantra' });
 		});
+
+		it('should tokenize wildcard, filter and recursive segments', () => {
+			const tokens = tokenizeAction('SET authors[?role="editor"].tasks[*] "x"');
+			expect(tokens[2]).toMatchObject({ type: ActionTokenType.PATH_SELECTOR, value: '[?role="editor"]' });
+			expect(tokens[5]).toMatchObject({ type: ActionTokenType.PATH_SELECTOR, value: '[*]' });
+			expect(tokens[6]).toMatchObject({ type: ActionTokenType.STRING, value: 'x' });
+
+			expect(tokenizeAction('DELETE **.deprecated')[1]).toMatchObject({ type: ActionTokenType.IDENTIFIER, value: '**' });
+		});
+
+		it('should tokenize quoted keys', () => {
+			const tokens = tokenizeAction('SET meta["my.key"] ["a"]');
+			expect(tokens[2]).toMatchObject({ type: ActionTokenType.PATH_SELECTOR, value: '["my.key"]' });
+			expect(tokens[3]).toMatchObject({ type: ActionTokenType.ARRAY, value: ['a'] });
+
+			expect(tokenizeAction('DELETE `aliases.old`')[1]).toMatchObject({ type: ActionTokenType.IDENTIFIER, value: '`aliases.old`' });
+		});
 	});
 
 	describe('Value types', () => {
@@ -187,6 +204,22 @@ describe('Action Lexer', () => {
 			expect(tokens[2]).toMatchObject({ type: ActionTokenType.NULL, value: null });
 		});
 
+		it('should tokenize dates and durations', () => {
+			const tokens = tokenizeAction('SET start = 2024-1-15T10:30Z - 7d');
+			expect(tokens[3]).toMatchObject({ type: ActionTokenType.DATE, value: '2024-1-15T10:30Z' });
+			expect(tokens[4].type).toBe(ActionTokenType.MINUS);
+			expect(tokens[5]).toMatchObject({ type: ActionTokenType.DURATION, value: '7d' });
+		});
+
+		it('should tokenize regex literals but not division', () => {
+			const regex = tokenizeAction('REGEX_REPLACE summary /a\\/b/gi "x"');
+			expect(regex[2]).toMatchObject({ type: ActionTokenType.REGEX, value: '/a\\/b/gi' });
+
+			const division = tokenizeAction('SET x = a / b / c');
+			expect(division.map(t => t.type)).toContain(ActionTokenType.SLASH);
+			expect(division.map(t => t.type)).not.toContain(ActionTokenType.REGEX);
+		});
+
 		it('should handle escape sequences in strings', () => {
 			const tokens = tokenizeAction('SET note "Line 1\\nLine 2"');
 			expect(tokens[2]).toMatchObject({ type: ActionTokenType.STRING, value: 'Line 1\nLine 2' });
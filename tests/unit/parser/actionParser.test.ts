@@ -453,6 +453,247 @@ describe('Action Parser', () => {
 		});
 	});
 
+	describe('Date operations', () => {
+		it('should parse SHIFT', () => {
+			expect(parseAction('SHIFT due BY 7d').operation).toEqual({ type: 'SHIFT', duration: '7d' });
+			expect(parseAction('SHIFT meta.due BY -2w').operation).toEqual({ type: 'SHIFT', duration: '-2w' });
+		});
+
+		it('should parse FORMAT', () => {
+			expect(parseAction('FORMAT date AS "yyyy-MM-dd"').operation).toEqual({ type: 'FORMAT', format: 'yyyy-MM-dd' });
+		});
+
+		it('should parse SET with a date expression', () => {
+			expect(parseAction('SET next_review = last_review + 14d').operation).toEqual({
+				type: 'SET',
+				expression: {
+					type: 'binary',
+					operator: '+',
+					left: { type: 'field', path: 'last_review' },
+					right: { type: 'duration', value: '14d' },
+				},
+			});
+		});
+
+		it('should parse anchors, date literals and signed durations in expressions', () => {
+			expect(parseAction('SET reviewed = today').operation.expression).toEqual({ type: 'date', anchor: 'today' });
+			expect(parseAction('SET kickoff = 2024-01-15 -1w').operation.expression).toEqual({
+				type: 'binary',
+				operator: '-',
+				left: { type: 'date', literal: '2024-01-15' },
+				right: { type: 'duration', value: '1w' },
+			});
+		});
+
+		it('should keep format and shift usable as field names', () => {
+			expect(toV1AST(parseAction('SET format "pdf"'))).toMatchObject({ op: 'SET', path: 'format', value: 'pdf' });
+			expect(toV1AST(parseAction('RENAME shift TO slot'))).toMatchObject({ op: 'RENAME', oldPath: 'shift', newPath: 'slot' });
+		});
+
+		it('should reject SHIFT without a duration and FORMAT without a format', () => {
+			expect(() => parseAction('SHIFT due 7d')).toThrow(/Expected BY/);
+			expect(() => parseAction('SHIFT due BY 7')).toThrow(/Expected duration/);
+			expect(() => parseAction('FORMAT date AS yyyy')).toThrow(/Expected quoted date format/);
+		});
+	});
+
+	describe('Expressions', () => {
+		it('should parse operator precedence', () => {
+			expect(parseAction('SET x = a + b * 2').operation.expression).toEqual({
+				type: 'binary',
+				operator: '+',
+				left: { type: 'field', path: 'a' },
+				right: {
+					type: 'binary',
+					operator: '*',
+					left: { type: 'field', path: 'b' },
+					right: { type: 'literal', value: 2 },
+				},
+			});
+		});
+
+		it('should parse function calls', () => {
+			expect(parseAction('ADD slug = slugify(title)').operation).toEqual({
+				type: 'ADD',
+				expression: { type: 'call', name: 'slugify', args: [{ type: 'field', path: 'title' }] },
+			});
+			expect(parseAction('SET s = IF(a > 1, "x", "y")').operation.expression).toMatchObject({
+				type: 'call',
+				name: 'if',
+				args: [{ type: 'binary', operator: '>' }, { type: 'literal' }, { type: 'literal' }],
+			});
+		});
+
+		it('should reject unknown functions, wrong argument counts and trailing tokens', () => {
+			expect(() => parseAction('SET x = shout(title)')).toThrow(/Unknown function: shout\(\)/);
+			expect(() => parseAction('SET x = if(a, b)')).toThrow(/if\(\) takes 3 argument/);
+			expect(() => parseAction('SET x = words/ 100')).toThrow(/Operators need spaces/);
+			expect(() => parseAction('SET x = (a + 1')).toThrow(/Expected closing parenthesis/);
+		});
+	});
+
+	describe('Type conversion', () => {
+		it('should parse CONVERT with an optional mode', () => {
+			expect(parseAction('CONVERT priority TO number').operation).toEqual({ type: 'CONVERT', to: 'number', mode: 'strict' });
+			expect(parseAction('convert done to Boolean lenient').operation).toEqual({ type: 'CONVERT', to: 'boolean', mode: 'lenient' });
+		});
+
+		it('should reject unknown types and modes', () => {
+			expect(() => parseAction('CONVERT priority number')).toThrow(/Expected TO/);
+			expect(() => parseAction('CONVERT priority TO integer')).toThrow(/Expected type after TO/);
+			expect(() => parseAction('CONVERT priority TO number LOOSE')).toThrow(/Expected STRICT or LENIENT/);
+		});
+	});
+
+	describe('Key operations', () => {
+		it('should parse RENAME KEYS with a regex or glob', () => {
+			expect(parseAction('RENAME KEYS /^date-(.*)$/ TO "$1_date"')).toEqual({
+				type: 'action',
+				target: { type: 'path', segments: [] },
+				operation: { type: 'RENAME_KEYS', pattern: '/^date-(.*)$/', regex: true, replacement: '$1_date' },
+			});
+			expect(parseAction('FOR meta RENAME KEYS "old-*" TO "$1"').operation).toEqual({
+				type: 'RENAME_KEYS',
+				pattern: 'old-*',
+				regex: false,
+				replacement: '$1',
+			});
+		});
+
+		it('should parse NORMALIZE KEYS at the top level and after FOR', () => {
+			expect(parseAction('NORMALIZE KEYS TO camelcase').operation).toEqual({ type: 'NORMALIZE_KEYS', style: 'camelCase' });
+			expect(parseAction('FOR meta NORMALIZE KEYS TO kebab-case').target.segments).toEqual([{ type: 'property', key: 'meta' }]);
+		});
+
+		it('should parse REORDER KEYS and SORT KEYS', () => {
+			expect(parseAction('REORDER KEYS title, date, "my key", *').operation).toEqual({
+				type: 'REORDER_KEYS',
+				order: ['title', 'date', 'my key', '*'],
+			});
+			expect(parseAction('SORT KEYS DESC').operation).toEqual({ type: 'SORT_KEYS', order: 'DESC' });
+			expect(parseAction('FOR meta SORT KEYS').target.segments).toEqual([{ type: 'property', key: 'meta' }]);
+			expect(parseAction('FOR meta REORDER KEYS b, a').operation).toEqual({ type: 'REORDER_KEYS', order: ['b', 'a'] });
+		});
+
+		it('should parse DELETE KEYS and KEEP ONLY', () => {
+			expect(parseAction('DELETE KEYS /^kanban-/').operation).toEqual({ type: 'DELETE_KEYS', pattern: '/^kanban-/', regex: true });
+			expect(parseAction('FOR meta DELETE KEYS "x-*"').operation).toEqual({ type: 'DELETE_KEYS', pattern: 'x-*', regex: false });
+			expect(parseAction('KEEP ONLY title, date, tags').operation).toEqual({ type: 'KEEP_ONLY', keys: ['title', 'date', 'tags'] });
+			expect(parseAction('FOR meta KEEP ONLY a').operation).toEqual({ type: 'KEEP_ONLY', keys: ['a'] });
+			expect(toV1AST(parseAction('DELETE keys'))).toMatchObject({ op: 'DELETE', path: 'keys' });
+		});
+
+		it('should keep SORT of arrays', () => {
+			expect(parseAction('FOR tags SORT DESC').operation).toEqual({ type: 'SORT', order: 'DESC' });
+		});
+
+		it('should parse an unquoted glob after KEYS', () => {
+			expect(parseAction('DELETE KEYS kanban-*').operation).toEqual({ type: 'DELETE_KEYS', pattern: 'kanban-*', regex: false });
+			expect(parseAction('FOR meta DELETE KEYS *-old').operation).toEqual({ type: 'DELETE_KEYS', pattern: '*-old', regex: false });
+			expect(parseAction('RENAME KEYS date-* TO "$1_date"').operation).toEqual({
+				type: 'RENAME_KEYS',
+				pattern: 'date-*',
+				regex: false,
+				replacement: '$1_date',
+			});
+		});
+
+		it('should keep RENAME of a field called keys', () => {
+			expect(toV1AST(parseAction('RENAME keys TO tags'))).toMatchObject({ op: 'RENAME', oldPath: 'keys', newPath: 'tags' });
+		});
+
+		it('should reject incomplete key operations', () => {
+			expect(() => parseAction('RENAME KEYS /a/ "b"')).toThrow(/Expected TO after pattern/);
+			expect(() => parseAction('NORMALIZE KEYS TO PascalCase')).toThrow(/Expected key style/);
+			expect(() => parseAction('NORMALIZE TO snake_case')).toThrow(/Expected KEYS after NORMALIZE/);
+			expect(() => parseAction('REORDER KEYS title, *, *')).toThrow(/Only one \*/);
+			expect(() => parseAction('REORDER KEYS title,')).toThrow(/Expected key name or \*/);
+			expect(() => parseAction('KEEP title')).toThrow(/Expected ONLY after KEEP/);
+			expect(() => parseAction('KEEP ONLY title, *')).toThrow(/Expected key name in KEEP ONLY/);
+			expect(() => parseAction('DELETE KEYS , a')).toThrow(/Expected \/regex\/ or glob after DELETE KEYS/);
+			expect(() => parseAction('RENAME KEYS 5d TO "x"')).toThrow(/Expected \/regex\/ or glob after RENAME KEYS/);
+		});
+
+		it('should reject extra tokens after key operations and point to FOR', () => {
+			expect(() => parseAction('SORT KEYS meta ASC')).toThrow("Unexpected 'meta' after SORT KEYS. To change the keys of a nested object use FOR: FOR meta SORT KEYS ASC");
+			expect(() => parseAction('RENAME KEYS meta /x/ TO "y"')).toThrow(/after RENAME KEYS\. .*FOR meta RENAME KEYS/);
+			expect(() => parseAction('DELETE KEYS meta "x-*"')).toThrow(/FOR meta DELETE KEYS/);
+			expect(() => parseAction('FOR meta SORT KEYS DESC ASC')).toThrow(/Unexpected 'ASC' after SORT KEYS/);
+			expect(() => parseAction('REORDER KEYS title, date meta')).toThrow(/FOR meta REORDER KEYS/);
+			expect(() => parseAction('NORMALIZE KEYS TO snake_case meta')).toThrow(/FOR meta NORMALIZE KEYS/);
+			expect(() => parseAction('KEEP ONLY title tags')).toThrow(/after KEEP ONLY/);
+			expect(() => parseAction('DELETE KEYS "x-*" "y-*"')).toThrow(/after DELETE KEYS/);
+		});
+	});
+
+	describe('Wildcard paths', () => {
+		it('should parse wildcard, filter and recursive segments', () => {
+			expect(parseAction('SET tasks[*].status "done"').target.segments).toEqual([
+				{ type: 'property', key: 'tasks' },
+				{ type: 'wildcard' },
+				{ type: 'property', key: 'status' },
+			]);
+			expect(parseAction('FOR authors[?role="editor"].tags APPEND "x"').target.segments[1]).toEqual({
+				type: 'filter',
+				filter: { key: 'role', operator: '=', value: 'editor' },
+			});
+			expect(parseAction('DELETE **.deprecated').target.segments[0]).toEqual({ type: 'recursive' });
+		});
+
+		it('should reject an invalid filter', () => {
+			expect(() => parseAction('SET authors[?role].name "x"')).toThrow('Invalid filter');
+		});
+
+		it('should parse a path that starts with a quoted key', () => {
+			const set = parseAction('SET ["my.key"] "b"');
+			expect(set.target.segments).toEqual([{ type: 'property', key: 'my.key' }]);
+			expect(set.operation).toMatchObject({ type: 'SET', value: 'b' });
+
+			expect(parseAction('DELETE ["[draft]"]').target.segments).toEqual([{ type: 'property', key: '[draft]' }]);
+			expect(parseAction('SET ["a]b"].status ["x"]').target.segments).toEqual([
+				{ type: 'property', key: 'a]b' },
+				{ type: 'property', key: 'status' },
+			]);
+			expect(parseAction('FOR ["old.tags"] APPEND "x"').target.segments).toEqual([{ type: 'property', key: 'old.tags' }]);
+		});
+
+		it('should still reject an array where a path is expected', () => {
+			expect(() => parseAction('SET ["a", "b"] 1')).toThrow('Expected identifier for path');
+		});
+	});
+
+	describe('String operations', () => {
+		it('should parse TRANSFORM', () => {
+			expect(parseAction('TRANSFORM title LOWERCASE').operation).toEqual({ type: 'TRANSFORM', transform: 'LOWERCASE' });
+			expect(parseAction('transform tags slugify').operation).toEqual({ type: 'TRANSFORM', transform: 'SLUGIFY' });
+		});
+
+		it('should parse REGEX_REPLACE with flags', () => {
+			expect(parseAction('REGEX_REPLACE summary /fo+/gi "bar"').operation).toEqual({
+				type: 'REGEX_REPLACE',
+				pattern: '/fo+/gi',
+				replacement: 'bar',
+			});
+		});
+
+		it('should parse SPLIT by text or pattern and JOIN', () => {
+			expect(parseAction('SPLIT keywords BY ","').operation).toEqual({ type: 'SPLIT', separator: ',', regex: false });
+			expect(parseAction('SPLIT keywords BY /[,;]/').operation).toEqual({ type: 'SPLIT', separator: '/[,;]/', regex: true });
+			expect(parseAction('JOIN tags WITH ", "').operation).toEqual({ type: 'JOIN', separator: ', ' });
+		});
+
+		it('should keep split and join usable as field names', () => {
+			expect(toV1AST(parseAction('SET split true'))).toMatchObject({ op: 'SET', path: 'split', value: true });
+		});
+
+		it('should reject unknown transforms and missing arguments', () => {
+			expect(() => parseAction('TRANSFORM title SHOUT')).toThrow(/Expected transform/);
+			expect(() => parseAction('REGEX_REPLACE summary "foo" "bar"')).toThrow(/Expected \/pattern\//);
+			expect(() => parseAction('SPLIT keywords BY ""')).toThrow(/Expected quoted separator/);
+			expect(() => parseAction('JOIN tags ","')).toThrow(/Expected WITH/);
+		});
+	});
+
 	describe('Error handling', () => {
 		it('should throw on missing path', () => {
 			expect(() => parseAction('SET')).toThrow(ActionParserError);
@@ -120,6 +120,32 @@ describe('Condition Lexer', () => {
 		});
 	});
 
+	describe('Date literals', () => {
+		it('should tokenize dates as one token', () => {
+			expect(tokenize('2024-01-15')[0]).toMatchObject({ type: TokenType.DATE, value: '2024-01-15' });
+			expect(tokenize('2024-2-1')[0]).toMatchObject({ type: TokenType.DATE, value: '2024-2-1' });
+		});
+
+		it('should tokenize datetimes with time zones', () => {
+			expect(tokenize('2024-01-15T10:30:00+02:00')[0]).toMatchObject({ type: TokenType.DATE, value: '2024-01-15T10:30:00+02:00' });
+			expect(tokenize('2024-01-15T10:30Z')[0]).toMatchObject({ type: TokenType.DATE, value: '2024-01-15T10:30Z' });
+		});
+
+		it('should tokenize relative date expressions', () => {
+			const tokens = tokenize('today - 7d');
+			expect(tokens[0]).toMatchObject({ type: TokenType.IDENTIFIER, value: 'today' });
+			expect(tokens[1].type).toBe(TokenType.MINUS);
+			expect(tokens[2]).toMatchObject({ type: TokenType.DURATION, value: '7d' });
+
+			expect(tokenize('now +2w')[1]).toMatchObject({ type: TokenType.DURATION, value: '+2w' });
+		});
+
+		it('should still tokenize numbers and hyphenated identifiers', () => {
+			expect(tokenize('-42')[0]).toMatchObject({ type: TokenType.NUMBER, value: -42 });
+			expect(tokenize('due-date')[0]).toMatchObject({ type: TokenType.IDENTIFIER, value: 'due-date' });
+		});
+	});
+
 	describe('Boolean and null literals', () => {
 		it('should tokenize true', () => {
 			const tokens = tokenize('true');
@@ -146,6 +172,7 @@ describe('Condition Lexer', () => {
 				{ input: ':array', type: TokenType.TYPE_ARRAY },
 				{ input: ':object', type: TokenType.TYPE_OBJECT },
 				{ input: ':null', type: TokenType.TYPE_NULL },
+				{ input: ':date', type: TokenType.TYPE_DATE },
 			];
 
 			tests.forEach(({ input, type }) => {
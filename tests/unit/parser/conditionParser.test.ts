@@ -59,6 +59,28 @@ describe('Condition Parser', () => {
 		});
 	});
 
+	describe('Date comparisons', () => {
+		it('should parse a date literal', () => {
+			expect(parseCondition('due < 2024-02-01')).toEqual({
+				type: 'comparison',
+				left: 'due',
+				operator: '<',
+				right: { type: 'date', literal: '2024-02-01', offsets: [] },
+			});
+		});
+
+		it('should parse anchors with offsets', () => {
+			expect(parseCondition('updated < today - 7d').right).toEqual({ type: 'date', anchor: 'today', offsets: ['-7d'] });
+			expect(parseCondition('review <= now + 2w -1d').right).toEqual({ type: 'date', anchor: 'now', offsets: ['+2w', '-1d'] });
+			expect(parseCondition('created >= startOfMonth').right).toEqual({ type: 'date', anchor: 'startOfMonth', offsets: [] });
+		});
+
+		it('should reject invalid dates and missing durations', () => {
+			expect(() => parseCondition('due < 2024-13-45')).toThrow(/Invalid date/);
+			expect(() => parseCondition('due < today -')).toThrow(/Expected duration/);
+		});
+	});
+
 	describe('Existence checks', () => {
 		it('should parse exists', () => {
 			const ast = parseCondition('tags exists');
@@ -161,6 +183,47 @@ describe('Condition Parser', () => {
 		});
 	});
 
+	describe('Contains operator', () => {
+		it('should parse method style contains', () => {
+			expect(parseCondition('body.contains "meeting"')).toEqual({
+				type: 'contains',
+				path: 'body',
+				value: 'meeting',
+			});
+		});
+	});
+
+	describe('IN operator', () => {
+		it('should parse a value list', () => {
+			expect(parseCondition('file.ext IN ["md", 2, true]')).toEqual({
+				type: 'in',
+				path: 'file.ext',
+				values: ['md', 2, true],
+			});
+		});
+
+		it('should require brackets', () => {
+			expect(() => parseCondition('status IN "draft"')).toThrow(/Expected \[ after IN/);
+		});
+	});
+
+	describe('Link paths', () => {
+		it('should parse -> hops into the path', () => {
+			expect(parseCondition('project->status = "active"')).toMatchObject({
+				type: 'comparison',
+				left: 'project->status',
+				right: 'active',
+			});
+			expect(parseCondition('project->client["full name"] exists')).toMatchObject({ path: 'project->client["full name"]' });
+			expect(parseCondition('project->["due date"] exists')).toMatchObject({ path: 'project->["due date"]' });
+			expect(parseCondition('links[0]->due-date < today')).toMatchObject({ left: 'links[0]->due-date' });
+		});
+
+		it('should require a field after ->', () => {
+			expect(() => parseCondition('project-> = "x"')).toThrow(/Expected identifier after ->/);
+		});
+	});
+
 	describe('Path expressions', () => {
 		it('should parse nested path', () => {
 			const ast = parseCondition('metadata.author = "John"');
@@ -8,7 +8,14 @@ import {
 	setPath,
 	deletePath,
 	pathExists,
-	parsePathSegments
+	parsePathSegments,
+	resolveAll,
+	expandPath,
+	hasWildcards,
+	formatPath,
+	joinPath,
+	splitLinkPath,
+	isLinkPath
 } from '../../../src/parser/pathResolver';
 
 describe('Path Resolver - Comprehensive', () => {
@@ -68,6 +75,125 @@ describe('Path Resolver - Comprehensive', () => {
 			const segments = parsePathSegments('');
 			expect(segments).toEqual([]);
 		});
+
+		it('should parse wildcard, filter and recursive segments', () => {
+			expect(parsePathSegments('tasks[*].status')).toEqual([
+				{ type: 'property', key: 'tasks' },
+				{ type: 'wildcard' },
+				{ type: 'property', key: 'status' }
+			]);
+			expect(parsePathSegments('authors[?role="editor"]')[1]).toEqual({
+				type: 'filter',
+				filter: { key: 'role', operator: '=', value: 'editor' }
+			});
+			expect(parsePathSegments('tasks[?done != true]')[1].filter).toEqual({ key: 'done', operator: '!=', value: true });
+			expect(parsePathSegments('**.deprecated')).toEqual([
+				{ type: 'recursive' },
+				{ type: 'property', key: 'deprecated' }
+			]);
+		});
+
+		it('should allow ] inside quoted filter values', () => {
+			expect(parsePathSegments('links[?label="[draft]"].url')).toHaveLength(3);
+		});
+
+		it('should parse quoted keys', () => {
+			expect(parsePathSegments('["aliases.old"]')).toEqual([{ type: 'property', key: 'aliases.old' }]);
+			expect(parsePathSegments("meta['my key'].x")).toEqual([
+				{ type: 'property', key: 'meta' },
+				{ type: 'property', key: 'my key' },
+				{ type: 'property', key: 'x' }
+			]);
+			expect(parsePathSegments('`[draft]`.status')[0]).toEqual({ type: 'property', key: '[draft]' });
+			expect(parsePathSegments('["say \\"hi\\"]"]')[0].key).toBe('say "hi"]');
+			expect(parsePathSegments('["**"]')[0]).toEqual({ type: 'property', key: '**' });
+		});
+
+		it('should throw on unclosed quotes', () => {
+			expect(() => parsePathSegments('`my.key')).toThrow('Unclosed backtick');
+			expect(() => parsePathSegments('["my.key')).toThrow('Unclosed bracket');
+		});
+
+		it('should throw on invalid filter', () => {
+			expect(() => parsePathSegments('authors[?role]')).toThrow('Invalid filter');
+			expect(() => parsePathSegments('authors[?role=editor]')).toThrow('Invalid filter');
+		});
+	});
+
+	describe('splitLinkPath', () => {
+		it('should split at -> outside quotes and brackets', () => {
+			expect(splitLinkPath('project->client.name')).toEqual(['project', 'client.name']);
+			expect(splitLinkPath('a[?x="->"]->b')).toEqual(['a[?x="->"]', 'b']);
+			expect(splitLinkPath('["a->b"]')).toEqual(['["a->b"]']);
+			expect(splitLinkPath('status')).toEqual(['status']);
+			expect(isLinkPath('project->status')).toBe(true);
+			expect(isLinkPath('["a->b"]')).toBe(false);
+		});
+	});
+
+	describe('Wildcard paths', () => {
+		const data = {
+			tasks: [
+				{ title: 'A', status: 'open' },
+				{ title: 'B', status: 'done' },
+				{ title: 'C' }
+			],
+			authors: [
+				{ name: 'Ann', role: 'editor' },
+				{ name: 'Bob', role: 'writer' }
+			],
+			deprecated: true,
+			meta: { old: { deprecated: false }, list: [{ deprecated: true }] }
+		};
+
+		it('should resolve every array item', () => {
+			expect(resolveAll(data, 'tasks[*].status')).toEqual([
+				{ path: 'tasks[0].status', value: 'open' },
+				{ path: 'tasks[1].status', value: 'done' }
+			]);
+			expect(resolvePath(data, 'tasks[*].title')).toEqual(['A', 'B', 'C']);
+		});
+
+		it('should resolve items matching a filter', () => {
+			expect(resolvePath(data, 'authors[?role="editor"].name')).toEqual(['Ann']);
+			expect(resolvePath(data, 'authors[?role!="editor"].name')).toEqual(['Bob']);
+		});
+
+		it('should resolve a key at any depth', () => {
+			expect(resolveAll(data, '**.deprecated').map(match => match.path)).toEqual([
+				'deprecated',
+				'meta.old.deprecated',
+				'meta.list[0].deprecated'
+			]);
+		});
+
+		it('should expand to missing final keys of matched objects', () => {
+			expect(expandPath(data, 'tasks[*].status')).toEqual(['tasks[0].status', 'tasks[1].status', 'tasks[2].status']);
+			expect(expandPath(data, '**.removed')).toEqual([]);
+		});
+
+		it('should match nothing on missing or wrong-type parents', () => {
+			expect(resolveAll(data, 'missing[*].x')).toEqual([]);
+			expect(expandPath(data, 'deprecated[*].x')).toEqual([]);
+		});
+
+		it('should detect and format wildcard paths', () => {
+			expect(hasWildcards('tasks[*].status')).toBe(true);
+			expect(hasWildcards('tasks[0].status')).toBe(false);
+			expect(formatPath(parsePathSegments('authors[?role="editor"].name'))).toBe('authors[?role="editor"].name');
+		});
+
+		it('should quote keys that are not plain names', () => {
+			expect(joinPath('meta', 'author')).toBe('meta.author');
+			expect(joinPath('meta', 'my key')).toBe('meta["my key"]');
+			expect(joinPath('', 'aliases.old')).toBe('["aliases.old"]');
+			expect(joinPath('', 'größe')).toBe('größe');
+			expect(resolveAll({ 'a.b': { deprecated: 1 } }, '**.deprecated')[0].path).toBe('["a.b"].deprecated');
+		});
+
+		it('should refuse to write to a wildcard path directly', () => {
+			expect(() => setPath({ tasks: [] }, 'tasks[*].status', 'x')).toThrow('expandPath');
+		});
 	});
 
 	describe('resolvePath - Edge Cases', () => {
@@ -125,6 +251,14 @@ describe('Path Resolver - Comprehensive', () => {
 			expect(data).toEqual({ metadata: { author: 'John' } });
 		});
 
+		it('should set and delete quoted keys', () => {
+			const data: any = { 'aliases.old': 'x' };
+			setPath(data, 'meta["my key"]', 1);
+			expect(data.meta).toEqual({ 'my key': 1 });
+			expect(deletePath(data, '`aliases.old`')).toBe(true);
+			expect(data).toEqual({ meta: { 'my key': 1 } });
+		});
+
 		it('should create nested parents', () => {
 			const data = {};
 			setPath(data, 'a.b.c.d', 'value');
@@ -0,0 +1,98 @@
+/**
+ * Tests for per-rule commands (opt-in commands that run a saved rule)
+ */
+
+import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest';
+import YamlToolkitPlugin from '../../../src/main';
+import { initI18n } from '../../../src/i18n';
+import { saveRule, deleteRule } from '../../../src/storage/ruleStorage';
+import { PluginData, Rule } from '../../../src/types';
+import { DEFAULT_SETTINGS } from '../../../src/settings';
+
+function createRule(id: string, name: string, enabled = true): Rule {
+	return {
+		id,
+		name,
+		condition: '',
+		action: 'SET status "done"',
+		scope: { type: 'vault' },
+		options: { backup: false },
+		created: '2025-11-20',
+		command: { enabled, confirm: false },
+	};
+}
+
+function createData(rules: Rule[]): PluginData {
+	return { version: '1.0', rules, playbooks: [], settings: DEFAULT_SETTINGS };
+}
+
+beforeAll(() => {
+	initI18n();
+});
+
+describe('Rule commands', () => {
+	let plugin: YamlToolkitPlugin;
+	let addCommand: any;
+	let removeCommand: any;
+
+	beforeEach(() => {
+		plugin = new YamlToolkitPlugin({} as any, {} as any);
+		addCommand = vi.spyOn(plugin, 'addCommand');
+		removeCommand = vi.spyOn(plugin, 'removeCommand');
+	});
+
+	it('should register commands only for rules that opted in', () => {
+		plugin.syncRuleCommands(createData([createRule('a', 'Archive'), createRule('b', 'Tag', false)]));
+
+		expect(addCommand).toHaveBeenCalledTimes(1);
+		expect(addCommand.mock.calls[0][0].id).toBe('run-rule-a');
+		expect(addCommand.mock.calls[0][0].name).toContain('Archive');
+	});
+
+	it('should not re-register unchanged commands', () => {
+		const data = createData([createRule('a', 'Archive')]);
+
+		plugin.syncRuleCommands(data);
+		plugin.syncRuleCommands(data);
+
+		expect(addCommand).toHaveBeenCalledTimes(1);
+		expect(removeCommand).not.toHaveBeenCalled();
+	});
+
+	it('should re-register renamed rules under the same command ID', () => {
+		plugin.syncRuleCommands(createData([createRule('a', 'Archive')]));
+		plugin.syncRuleCommands(createData([createRule('a', 'Archive old notes')]));
+
+		expect(removeCommand).toHaveBeenCalledWith('run-rule-a');
+		expect(addCommand).toHaveBeenCalledTimes(2);
+		expect(addCommand.mock.calls[1][0].id).toBe('run-rule-a');
+		expect(addCommand.mock.calls[1][0].name).toContain('Archive old notes');
+	});
+
+	it('should remove commands of deleted or opted-out rules', () => {
+		plugin.syncRuleCommands(createData([createRule('a', 'Archive'), createRule('b', 'Tag')]));
+		plugin.syncRuleCommands(createData([createRule('b', 'Tag', false)]));
+
+		expect(removeCommand).toHaveBeenCalledWith('run-rule-a');
+		expect(removeCommand).toHaveBeenCalledWith('run-rule-b');
+	});
+
+	it('should not call removeCommand on Obsidian versions without it', () => {
+		(plugin as any).removeCommand = undefined;
+
+		plugin.syncRuleCommands(createData([createRule('a', 'Archive')]));
+		plugin.syncRuleCommands(createData([createRule('a', 'Archive old notes')]));
+		plugin.syncRuleCommands(createData([]));
+
+		expect(addCommand).toHaveBeenCalledTimes(2);
+		expect(addCommand.mock.calls[1][0].name).toContain('Archive old notes');
+	});
+
+	it('should follow rule changes made through ruleStorage', async () => {
+		await saveRule(plugin, createRule('a', 'Archive'));
+		expect(addCommand).toHaveBeenCalledTimes(1);
+
+		await deleteRule(plugin, 'a');
+		expect(removeCommand).toHaveBeenCalledWith('run-rule-a');
+	});
+});
@@ -12,6 +12,11 @@ import {
 	updateLastRun,
 	generateRuleId,
 	createNewRule,
+	savePlaybook,
+	deletePlaybook,
+	updatePlaybookLastRun,
+	createNewPlaybook,
+	getPlaybookRules,
 } from '../../../src/storage/ruleStorage';
 import { Rule } from '../../../src/types';
 import { DEFAULT_SETTINGS } from '../../../src/settings';
@@ -275,4 +280,113 @@ describe('Rule Storage', () => {
 			expect(rule.created).toBeDefined();
 		});
 	});
+
+	describe('Playbooks', () => {
+		function createRule(id: string): Rule {
+			return {
+				id,
+				name: `Rule ${id}`,
+				condition: '',
+				action: 'SET test true',
+				scope: { type: 'vault' },
+				options: { backup: false },
+				created: '2025-11-20',
+			};
+		}
+
+		it('should default to no playbooks', async () => {
+			const plugin = new MockPlugin();
+			plugin.setMockData({ version: '1.0', rules: [] });
+
+			const data = await loadPluginData(plugin as any);
+
+			expect(data.playbooks).toEqual([]);
+		});
+
+		it('should save, update and delete playbooks', async () => {
+			const plugin = new MockPlugin();
+			const playbook = { ...createNewPlaybook(), name: 'After import', ruleIds: ['a', 'b'] };
+
+			await savePlaybook(plugin as any, playbook);
+			await savePlaybook(plugin as any, { ...playbook, ruleIds: ['b', 'a'] });
+			let data = await loadPluginData(plugin as any);
+			expect(data.playbooks).toHaveLength(1);
+			expect(data.playbooks[0].ruleIds).toEqual(['b', 'a']);
+
+			await updatePlaybookLastRun(plugin as any, playbook.id);
+			data = await loadPluginData(plugin as any);
+			expect(data.playbooks[0].lastUsed).toBeDefined();
+
+			await deletePlaybook(plugin as any, playbook.id);
+			data = await loadPluginData(plugin as any);
+			expect(data.playbooks).toEqual([]);
+		});
+
+		it('should drop invalid playbooks on load', async () => {
+			const plugin = new MockPlugin();
+			plugin.setMockData({
+				version: '1.0',
+				rules: [],
+				playbooks: [
+					{ id: 'p1', name: 'Valid', ruleIds: ['a'], created: '2025-11-20' },
+					{ id: 'p2', name: 'Bad IDs', ruleIds: [1, 2], created: '2025-11-20' },
+					{ id: 'p3', name: 'No IDs', created: '2025-11-20' },
+					null,
+				],
+			});
+
+			const data = await loadPluginData(plugin as any);
+
+			expect(data.playbooks.map(p => p.id)).toEqual(['p1']);
+		});
+
+		it('should remove deleted rules from playbooks', async () => {
+			const plugin = new MockPlugin();
+			await saveRule(plugin as any, createRule('a'));
+			await saveRule(plugin as any, createRule('b'));
+			await savePlaybook(plugin as any, { ...createNewPlaybook(), ruleIds: ['a', 'b', 'a'] });
+
+			await deleteRule(plugin as any, 'a');
+
+			const data = await loadPluginData(plugin as any);
+			expect(data.playbooks[0].ruleIds).toEqual(['b']);
+		});
+
+		it('should resolve playbook rules in order', async () => {
+			const plugin = new MockPlugin();
+			await saveRule(plugin as any, createRule('a'));
+			await saveRule(plugin as any, createRule('b'));
+			const data = await loadPluginData(plugin as any);
+
+			const rules = getPlaybookRules(data, { ...createNewPlaybook(), ruleIds: ['b', 'a'] });
+
+			expect(rules.map(rule => rule.id)).toEqual(['b', 'a']);
+		});
+
+		it('should reject empty playbooks and missing rules', async () => {
+			const plugin = new MockPlugin();
+			await saveRule(plugin as any, createRule('a'));
+			const data = await loadPluginData(plugin as any);
+
+			expect(() => getPlaybookRules(data, { ...createNewPlaybook(), name: 'Empty' })).toThrow('has no rules');
+			expect(() => getPlaybookRules(data, { ...createNewPlaybook(), ruleIds: ['a', 'gone'] })).toThrow(
+				'missing rule: gone'
+			);
+		});
+	});
+
+	describe('Rule change notifications', () => {
+		it('should notify the plugin after rules are saved or deleted', async () => {
+			const plugin: any = new MockPlugin();
+			plugin.onRulesChanged = vi.fn();
+			const rule = createNewRule();
+
+			await saveRule(plugin, rule);
+			expect(plugin.onRulesChanged).toHaveBeenLastCalledWith(expect.objectContaining({ rules: [rule] }));
+
+			await deleteRule(plugin, rule.id);
+			expect(plugin.onRulesChanged).toHaveBeenCalledTimes(2);
+			expect(plugin.onRulesChanged.mock.calls[1][0].rules).toEqual([]);
+		});
+	});
 });
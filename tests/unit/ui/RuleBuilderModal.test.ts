@@ -16,6 +16,7 @@ beforeAll(() => {
 
 // Mock the async functions
 vi.mock('../../../src/core/fileScanner', () => ({
+	getCurrentFile: vi.fn().mockReturnValue(null),
 	scanFiles: vi.fn().mockResolvedValue({
 		matched: [
 			{
@@ -1021,6 +1022,7 @@ describe('RuleBuilderModal UI Tests', () => {
 			);
 
 			vi.mock('../../../src/core/fileScanner', () => ({
+				getCurrentFile: vi.fn().mockReturnValue(null),
 				scanFiles: slowScanFiles
 			}));
 
@@ -1227,6 +1229,7 @@ describe('RuleBuilderModal UI Tests', () => {
 		it('should handle empty preview results', async () => {
 			// Mock scanFiles to return no matches
 			vi.mock('../../../src/core/fileScanner', () => ({
+				getCurrentFile: vi.fn().mockReturnValue(null),
 				scanFiles: vi.fn().mockResolvedValue({
 					matched: [],
 					skipped: 0,
@@ -0,0 +1,104 @@
+/**
+ * Tests for date parsing and relative date expressions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DateTime } from 'luxon';
+import {
+	parseDate,
+	parseDuration,
+	resolveAnchor,
+	resolveDateExpression,
+	compareDates,
+} from '../../../src/utils/dates';
+
+const NOW = DateTime.local(2024, 3, 15, 14, 30); // Friday
+
+describe('Dates', () => {
+	describe('parseDate', () => {
+		it('should parse dates with or without zero padding', () => {
+			expect(parseDate('2024-02-01')?.date.toISODate()).toBe('2024-02-01');
+			expect(parseDate('2024-2-1')).toMatchObject({ dateOnly: true });
+			expect(parseDate('2024-2-1')?.date.toISODate()).toBe('2024-02-01');
+		});
+
+		it('should parse datetimes with offsets as instants', () => {
+			const parsed = parseDate('2024-01-15T10:30:00+02:00');
+
+			expect(parsed?.dateOnly).toBe(false);
+			expect(parsed?.date.toUTC().toISO()).toBe('2024-01-15T08:30:00.000Z');
+			expect(parseDate('2024-01-15 10:30')?.date.hour).toBe(10);
+			expect(parseDate('2024-01-15T08:30+0000')?.date.toMillis()).toBe(parsed?.date.toMillis());
+		});
+
+		it('should accept Date and DateTime values', () => {
+			expect(parseDate(new Date(2024, 0, 15))?.date.toISODate()).toBe('2024-01-15');
+			expect(parseDate(NOW)?.date).toBe(NOW);
+		});
+
+		it('should reject values that are not dates', () => {
+			expect(parseDate('2024-13-01')).toBeNull();
+			expect(parseDate('next week')).toBeNull();
+			expect(parseDate(20240115)).toBeNull();
+			expect(parseDate(null)).toBeNull();
+			expect(parseDate(new Date('invalid'))).toBeNull();
+		});
+	});
+
+	describe('parseDuration', () => {
+		it('should parse signed durations', () => {
+			expect(parseDuration('7d')?.toObject()).toEqual({ days: 7 });
+			expect(parseDuration('-2w')?.toObject()).toEqual({ weeks: -2 });
+			expect(parseDuration('+1m')?.toObject()).toEqual({ months: 1 });
+			expect(parseDuration('3h')?.toObject()).toEqual({ hours: 3 });
+			expect(parseDuration('1y')?.toObject()).toEqual({ years: 1 });
+		});
+
+		it('should reject unknown units', () => {
+			expect(parseDuration('7x')).toBeNull();
+			expect(parseDuration('d')).toBeNull();
+		});
+	});
+
+	describe('resolveAnchor', () => {
+		it('should resolve calendar anchors to days', () => {
+			expect(resolveAnchor('today', NOW).date.toISO()).toBe(DateTime.local(2024, 3, 15).toISO());
+			expect(resolveAnchor('yesterday', NOW).date.toISODate()).toBe('2024-03-14');
+			expect(resolveAnchor('startOfWeek', NOW).date.toISODate()).toBe('2024-03-11');
+			expect(resolveAnchor('endOfMonth', NOW).date.toISODate()).toBe('2024-03-31');
+			expect(resolveAnchor('startOfYear', NOW).date.toISODate()).toBe('2024-01-01');
+		});
+
+		it('should keep the time for now', () => {
+			expect(resolveAnchor('now', NOW)).toEqual({ date: NOW, dateOnly: false });
+		});
+	});
+
+	describe('resolveDateExpression', () => {
+		it('should apply offsets in order', () => {
+			const resolved = resolveDateExpression({ type: 'date', anchor: 'startOfMonth', offsets: ['-1m', '+14d'] }, NOW);
+
+			expect(resolved.date.toISODate()).toBe('2024-02-15');
+		});
+
+		it('should resolve literals', () => {
+			const resolved = resolveDateExpression({ type: 'date', literal: '2024-1-31', offsets: ['+1m'] }, NOW);
+
+			expect(resolved.date.toISODate()).toBe('2024-02-29');
+		});
+
+		it('should throw on invalid literals', () => {
+			expect(() => resolveDateExpression({ type: 'date', literal: '2024-02-30', offsets: [] }, NOW)).toThrow('Invalid date');
+		});
+	});
+
+	describe('compareDates', () => {
+		it('should compare by day when either side is date-only', () => {
+			const morning = parseDate('2024-03-15T08:00')!;
+			const today = resolveAnchor('today', NOW);
+
+			expect(compareDates(morning, today)).toBe(0);
+			expect(compareDates(morning, resolveAnchor('now', NOW))).toBeLessThan(0);
+		});
+	});
+});
@@ -0,0 +1,42 @@
+/**
+ * Tests for note body analysis (body.* in conditions)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeBody } from '../../../src/utils/noteBody';
+
+describe('analyzeBody', () => {
+	const body = [
+		'# Meeting notes',
+		'',
+		'Discussed the roadmap with Ann.',
+		'',
+		'## Summary ##',
+		'- [ ] Send minutes',
+		'- [x] Book room',
+		'* [-] Cancelled item',
+		'1. [ ] Numbered task',
+		'',
+		'```md',
+		'# Not a heading',
+		'- [ ] not a task',
+		'```',
+	].join('\n');
+
+	it('should collect headings outside code blocks', () => {
+		expect(analyzeBody(body).headings).toEqual(['Meeting notes', 'Summary']);
+	});
+
+	it('should count open and done tasks', () => {
+		expect(analyzeBody(body).tasks).toEqual({ open: 2, done: 2, total: 4 });
+	});
+
+	it('should count words without markdown markers', () => {
+		expect(analyzeBody('# Title\n\n- [ ] one two\nthree — four').wordcount).toBe(5);
+		expect(analyzeBody('').wordcount).toBe(0);
+	});
+
+	it('should keep the text', () => {
+		expect(analyzeBody(body).text).toBe(body);
+	});
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for the shared YAML schema (read, write, preview and test agree on types)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseYaml, stringifyYaml } from '../../../src/yaml/yamlSchema';
+import { readFrontmatter, parseYamlString } from '../../../src/yaml/yamlProcessor';
+import { executeRule } from '../../../src/core/ruleEngine';
+import { processBatch } from '../../../src/core/batchProcessor';
+import { Rule } from '../../../src/types';
+
+const AMBIGUOUS = [
+	'---',
+	'date: 2024-01-15',
+	'created: 2024-01-15T10:30:00Z',
+	'toggle: on',
+	'answer: yes',
+	'code: 0012',
+	'exponent: 1e3',
+	'status: draft',
+	'---',
+	'Body',
+	'',
+].join('\n');
+
+function createMockApp(content: string): any {
+	const files = new Map<string, string>([['note.md', content]]);
+	return {
+		files,
+		vault: {
+			read: async (file: any) => files.get(file.path),
+			modify: async (file: any, newContent: string) => {
+				files.set(file.path, newContent);
+			},
+			getName: () => 'TestVault',
+			adapter: { exists: async () => false, write: async () => {}, mkdir: async () => {} },
+		},
+	};
+}
+
+const file: any = { path: 'note.md', basename: 'note', name: 'note.md', extension: 'md' };
+
+function createRule(action: string): Rule {
+	return {
+		id: 'rule-1',
+		name: 'Publish',
+		condition: '',
+		action,
+		scope: { type: 'vault' },
+		options: { backup: false },
+		created: '2025-01-01T00:00:00.000Z',
+	};
+}
+
+describe('YAML Schema', () => {
+	describe('parseYaml', () => {
+		it('should use the YAML 1.2 core schema', () => {
+			expect(parseYaml('date: 2024-01-15\ntoggle: on\nanswer: yes\nflag: true\ncode: 0012\nexponent: 1e3\n')).toEqual({
+				date: '2024-01-15',
+				toggle: 'on',
+				answer: 'yes',
+				flag: true,
+				code: 12,
+				exponent: 1000,
+			});
+		});
+
+		it('should not execute language-specific tags', () => {
+			expect(parseYaml('fn: !!js/function "function () {}"\n').fn).toBe('function () {}');
+		});
+
+		it('should throw on malformed YAML', () => {
+			expect(() => parseYaml('invalid: [unclosed')).toThrow();
+		});
+	});
+
+	describe('stringifyYaml', () => {
+		it('should quote strings that the schema would read as another type', () => {
+			const yaml = stringifyYaml({ code: '0012', flag: 'true', exponent: '1e3', date: '2024-01-15', toggle: 'on' });
+
+			expect(parseYaml(yaml)).toEqual({ code: '0012', flag: 'true', exponent: '1e3', date: '2024-01-15', toggle: 'on' });
+			expect(yaml).toContain('date: 2024-01-15\n');
+			expect(yaml).toContain('toggle: on\n');
+		});
+	});
+
+	describe('consistency', () => {
+		it('should read frontmatter and sample YAML with the same types', async () => {
+			const app = createMockApp(AMBIGUOUS);
+			const { data } = await readFrontmatter(app, file);
+			const yaml = AMBIGUOUS.split('---\n')[1];
+
+			expect(parseYamlString(yaml)).toEqual(data);
+		});
+
+		it('should keep untouched scalars exactly as written after an unrelated edit', async () => {
+			const app = createMockApp(AMBIGUOUS);
+
+			await processBatch(app, [file], createRule('SET status "published"'), undefined, { journal: false });
+
+			expect(app.files.get('note.md')).toBe(AMBIGUOUS.replace('status: draft', 'status: published'));
+		});
+
+		it('should preview exactly the frontmatter that is written', async () => {
+			const app = createMockApp(AMBIGUOUS);
+			const rule = createRule('SET status "published"; SET reviewed true');
+
+			const preview = await executeRule(app, rule, file);
+			await processBatch(app, [file], rule, undefined, { journal: false });
+
+			expect(preview.yamlText?.before).toBe(AMBIGUOUS.split('---\n')[1]);
+			expect(app.files.get('note.md')).toBe(`---\n${preview.yamlText?.after}---\nBody\n`);
+		});
+
+		it('should not report frontmatter text for unmodified files', async () => {
+			const app = createMockApp(AMBIGUOUS);
+
+			const result = await executeRule(app, { ...createRule('SET x 1'), condition: 'status = "done"' }, file);
+
+			expect(result.yamlText).toBeUndefined();
+		});
+	});
+});
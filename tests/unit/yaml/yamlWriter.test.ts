@@ -0,0 +1,277 @@
+/**
+ * Tests for the format-preserving YAML writer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { updateFrontmatter, stringifyFrontmatter } from '../../../src/yaml/yamlWriter';
+import { readFrontmatter } from '../../../src/yaml/yamlProcessor';
+
+async function read(source: string): Promise<Record<string, any>> {
+	const app: any = { vault: { read: async () => source } };
+	const { data } = await readFrontmatter(app, { path: 'note.md' } as any);
+	return data;
+}
+
+/** Read a note, change its data, and write it back */
+async function edit(source: string, change: (data: Record<string, any>) => void): Promise<string> {
+	const data = await read(source);
+	change(data);
+	return updateFrontmatter(source, data);
+}
+
+/** Hand-formatted frontmatter that must survive a read/write round-trip unchanged */
+const CORPUS: Record<string, string> = {
+	comments: [
+		'---',
+		'# Project metadata',
+		'title: Weekly review   # shown in the index',
+		'',
+		'# Workflow',
+		'status: draft',
+		'---',
+		'Body text',
+		'',
+	].join('\n'),
+	quoting: [
+		'---',
+		'single: \'quoted\'',
+		'double: "quoted"',
+		'plain: not quoted',
+		'"quoted key": 1',
+		'empty: ""',
+		'---',
+		'',
+	].join('\n'),
+	flowCollections: [
+		'---',
+		'tags: [work, "project x", 2024]',
+		'aliases: []',
+		'meta: {owner: me, priority: 1}',
+		'---',
+		'',
+	].join('\n'),
+	blockCollections: [
+		'---',
+		'tags:',
+		'- unindented',
+		'- sequence',
+		'authors:',
+		'    - name: Ada',
+		'      role: editor',
+		'    - name: Grace',
+		'nested:',
+		'    deep:',
+		'        value: 1',
+		'---',
+		'',
+	].join('\n'),
+	ambiguousScalars: [
+		'---',
+		'date: 2024-01-15',
+		'created: 2024-01-15T10:30:00Z',
+		'toggle: on',
+		'code: 0012',
+		'exponent: 1e3',
+		'version: 1.10',
+		'nothing: ~',
+		'blank:',
+		'---',
+		'',
+	].join('\n'),
+	blockScalars: [
+		'---',
+		'summary: |',
+		'  First line',
+		'',
+		'  Third line',
+		'folded: >-',
+		'  folded',
+		'  text',
+		'---',
+		'',
+	].join('\n'),
+	crlf: '---\r\ntitle: Windows\r\ntags: [a, b]\r\n---\r\nBody\r\n',
+	emptyBlock: '---\n---\nBody\n',
+	commentsOnly: '---\n# nothing yet\n---\nBody\n',
+};
+
+describe('YAML Writer', () => {
+	describe('round-trip corpus', () => {
+		for (const [name, source] of Object.entries(CORPUS)) {
+			it(`should write ${name} back unchanged`, async () => {
+				expect(updateFrontmatter(source, await read(source))).toBe(source);
+			});
+		}
+	});
+
+	describe('updateFrontmatter', () => {
+		it('should only rewrite the changed scalar and keep its comment and quoting', async () => {
+			const result = await edit(CORPUS.comments, data => {
+				data.title = 'Monthly review';
+			});
+
+			expect(result).toBe(CORPUS.comments.replace('Weekly review', 'Monthly review'));
+		});
+
+		it('should keep the quoting style of a changed string', async () => {
+			const result = await edit(CORPUS.quoting, data => {
+				data.single = 'new';
+				data.double = 'new';
+			});
+
+			expect(result).toContain("single: 'new'\n");
+			expect(result).toContain('double: "new"\n');
+			expect(result).toContain('plain: not quoted\n');
+		});
+
+		it('should keep flow style for a changed array', async () => {
+			const result = await edit(CORPUS.flowCollections, data => {
+				data.tags.push('new');
+			});
+
+			expect(result).toContain('tags: [work, project x, 2024, new]\n');
+			expect(result).toContain('meta: {owner: me, priority: 1}\n');
+		});
+
+		it('should keep the sequence indentation of the source', async () => {
+			const source = '---\ntags:\n- a\nmeta:\n  x: 1\n---\n';
+
+			const result = await edit(source, data => {
+				data.tags.push('b');
+				data.aliases = ['c'];
+			});
+
+			expect(result).toBe('---\ntags:\n- a\n- b\nmeta:\n  x: 1\naliases:\n- c\n---\n');
+		});
+
+		it('should keep the indentation width of the source', async () => {
+			const source = '---\nmeta:\n    x: 1\n---\n';
+
+			const result = await edit(source, data => {
+				data.extra = { list: ['a'] };
+			});
+
+			expect(result).toBe('---\nmeta:\n    x: 1\nextra:\n    list:\n        - a\n---\n');
+		});
+
+		it('should patch nested maps key by key', async () => {
+			const source = '---\nmeta:\n  # owner info\n  owner: me   # keep\n  status: draft\n---\n';
+
+			const result = await edit(source, data => {
+				data.meta.status = 'done';
+				data.meta.reviewed = true;
+			});
+
+			expect(result).toBe('---\nmeta:\n  # owner info\n  owner: me   # keep\n  status: done\n  reviewed: true\n---\n');
+		});
+
+		it('should insert new keys after the preceding key', async () => {
+			const result = await edit('---\na: 1\nc: 3\n---\n', data => {
+				const { a, c } = data;
+				Object.keys(data).forEach(key => delete data[key]);
+				Object.assign(data, { a, b: 2, c });
+			});
+
+			expect(result).toBe('---\na: 1\nb: 2\nc: 3\n---\n');
+		});
+
+		it('should append new keys at the end', async () => {
+			const result = await edit(CORPUS.comments, data => {
+				data.tags = ['a', 'b'];
+			});
+
+			expect(result).toBe(CORPUS.comments.replace('status: draft\n', 'status: draft\ntags:\n  - a\n  - b\n'));
+		});
+
+		it('should remove deleted keys but keep the comments around them', async () => {
+			const result = await edit(CORPUS.comments, data => {
+				delete data.status;
+			});
+
+			expect(result).toBe(CORPUS.comments.replace('status: draft\n', ''));
+		});
+
+		it('should keep untouched ambiguous scalars as written', async () => {
+			const result = await edit(CORPUS.ambiguousScalars, data => {
+				data.status = 'done';
+			});
+
+			expect(result).toBe(CORPUS.ambiguousScalars.replace('blank:\n', 'blank:\nstatus: done\n'));
+		});
+
+		it('should quote new strings that would otherwise change type', async () => {
+			const result = await edit('---\ntitle: x\n---\n', data => {
+				data.code = '0012';
+				data.flag = 'true';
+			});
+
+			expect(await read(result)).toEqual({ title: 'x', code: '0012', flag: 'true' });
+		});
+
+		it('should rewrite a changed block scalar as a whole pair in the same style', async () => {
+			const result = await edit(CORPUS.blockScalars, data => {
+				data.summary = 'One line';
+			});
+
+			expect(result).toContain('summary: |-\n  One line\nfolded: >-\n');
+			expect(await read(result)).toEqual({ summary: 'One line', folded: 'folded text' });
+		});
+
+		it('should move keys together with their comments when reordered', async () => {
+			const source = '---\n# first\na: 1\n# second\nb: 2\n---\n';
+
+			const result = updateFrontmatter(source, { b: 2, a: 1 });
+
+			expect(result).toBe('---\n# first\n# second\nb: 2\na: 1\n---\n');
+		});
+
+		it('should write a reordered nested map in its new order', () => {
+			const source = '---\ntitle: x\nmeta:\n  b: 2 # two\n  a: 1\n---\n';
+
+			const result = updateFrontmatter(source, { title: 'x', meta: { a: 1, b: 2 } });
+
+			expect(result).toBe('---\ntitle: x\nmeta:\n  a: 1\n  b: 2 # two\n---\n');
+		});
+
+		it('should keep CRLF line endings', async () => {
+			const result = await edit(CORPUS.crlf, data => {
+				data.status = 'new';
+			});
+
+			expect(result).toBe('---\r\ntitle: Windows\r\ntags: [a, b]\r\nstatus: new\r\n---\r\nBody\r\n');
+		});
+
+		it('should fill an empty frontmatter block', async () => {
+			expect(updateFrontmatter(CORPUS.emptyBlock, { title: 'x' })).toBe('---\ntitle: x\n---\nBody\n');
+			expect(updateFrontmatter(CORPUS.commentsOnly, { title: 'x' })).toBe('---\n# nothing yet\ntitle: x\n---\nBody\n');
+		});
+
+		it('should drop the block when every key is removed', async () => {
+			expect(updateFrontmatter('---\ntitle: x\n---\nBody\n', {})).toBe('Body\n');
+		});
+
+		it('should create a block for notes without frontmatter', () => {
+			expect(updateFrontmatter('Body', { title: 'x' })).toBe('---\ntitle: x\n---\nBody\n');
+		});
+
+		it('should rewrite the whole block when it uses aliases', async () => {
+			const source = '---\nbase: &b {x: 1}\ncopy: *b\n---\n';
+
+			const result = await edit(source, data => {
+				data.extra = 1;
+			});
+
+			expect(await read(result)).toEqual({ base: { x: 1 }, copy: { x: 1 }, extra: 1 });
+		});
+	});
+
+	describe('stringifyFrontmatter', () => {
+		it('should not create a block for empty data', () => {
+			expect(stringifyFrontmatter({}, 'Content')).toBe('Content\n');
+		});
+
+		it('should serialize data in block style', () => {
+			expect(stringifyFrontmatter({ title: 'x', tags: ['a'] }, 'Body\n')).toBe('---\ntitle: x\ntags:\n  - a\n---\nBody\n');
+		});
+	});
+});